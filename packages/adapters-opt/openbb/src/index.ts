@@ -0,0 +1,10 @@
+/**
+ * OpenBB Platform data adapter for Open Financial Terminal.
+ *
+ * Requires a running OpenBB Platform API server (`openbb-api`).
+ */
+
+export { OpenBBAdapter } from './openbb.adapter';
+export type { OpenBBAdapterConfig } from './openbb.adapter';
+export { OPENBB_DATA_TYPES, PROVIDER_COVERAGE, selectProvider } from './providers';
+export type { OpenBBDataType, OpenBBProviderSelection } from './providers';
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  mapQuote,
+  mapHistoricalPrice,
+  mapIncomeStatement,
+  mapBalanceSheet,
+  mapCashFlow,
+  mapOptionChain,
+} from './mappers'
+
+const statement = (fields: Record<string, number | string | null>) => ({
+  symbol: 'AAPL',
+  period: 'annual' as const,
+  fiscal_year: 2023,
+  calendar_date: '2023-09-30',
+  report_date: '2023-11-03',
+  ...fields,
+})
+
+describe('mapQuote', () => {
+  it('should map snake_case fields and derive the previous close', () => {
+    expect(
+      mapQuote({
+        symbol: 'AAPL',
+        last_price: 185.6,
+        change: 1.6,
+        change_percent: 0.87,
+        volume: 52_000_000,
+        bid: 185.55,
+        ask: 185.65,
+        bid_size: 3,
+        ask_size: 5,
+        timestamp: '2024-01-09T21:00:00Z',
+      })
+    ).toEqual({
+      symbol: 'AAPL',
+      price: 185.6,
+      bid: 185.55,
+      ask: 185.65,
+      bidSize: 3,
+      askSize: 5,
+      volume: 52_000_000,
+      previousClose: 184,
+      timestamp: new Date('2024-01-09T21:00:00Z'),
+      realtime: false,
+    })
+  })
+})
+
+describe('mapHistoricalPrice', () => {
+  it('should map bars with adjusted closes', () => {
+    expect(
+      mapHistoricalPrice({ date: '2024-01-02', open: 1, high: 2, low: 0.5, close: 1.5, volume: 100, adj_close: 1.4 })
+    ).toEqual({
+      date: new Date('2024-01-02'),
+      ohlcv: { open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 },
+      adjustedClose: 1.4,
+    })
+  })
+})
+
+describe('statement mapping', () => {
+  it('should read the first field name a provider uses', () => {
+    expect(
+      mapIncomeStatement(
+        statement({ total_revenue: 383_285, net_income: 96_995, diluted_earnings_per_share: 6.13 })
+      )
+    ).toEqual({
+      date: new Date('2023-09-30'),
+      period: 'annual',
+      revenue: 383_285,
+      netIncome: 96_995,
+      epsDiluted: 6.13,
+    })
+  })
+
+  it('should map quarterly periods', () => {
+    expect(
+      mapCashFlow({ ...statement({ operating_cash_flow: 21_598 }), period: 'quarter' })
+    ).toMatchObject({ period: 'quarterly', operatingCashFlow: 21_598 })
+  })
+
+  it('should skip statements missing required lines', () => {
+    expect(mapIncomeStatement(statement({ revenue: 383_285, net_income: null }))).toBeUndefined()
+    expect(mapBalanceSheet(statement({ total_assets: 352_583, total_liabilities: 290_437 }))).toBeUndefined()
+    expect(
+      mapBalanceSheet(statement({ total_assets: 352_583, total_liabilities: 290_437, total_equity: 62_146 }))
+    ).toMatchObject({ shareholdersEquity: 62_146 })
+  })
+})
+
+describe('mapOptionChain', () => {
+  const row = (option_type: 'call' | 'put', expiration: string, strike: number) => ({
+    contract_symbol: `AAPL-${expiration}-${option_type}-${strike}`,
+    symbol: 'AAPL',
+    expiration,
+    strike,
+    option_type,
+    implied_volatility: 0.25,
+    open_interest: 100,
+  })
+
+  const rows = [
+    row('put', '2024-01-26', 180),
+    row('call', '2024-01-19', 190),
+    row('call', '2024-01-19', 180),
+    row('call', '2024-01-26', 185),
+  ]
+
+  it('should split calls and puts, sorted by expiration then strike', () => {
+    const chain = mapOptionChain('AAPL', rows)
+
+    expect(chain.expirations).toEqual([new Date('2024-01-19'), new Date('2024-01-26')])
+    expect(chain.calls.map((c) => [c.expiration.toISOString().slice(0, 10), c.strike])).toEqual([
+      ['2024-01-19', 180],
+      ['2024-01-19', 190],
+      ['2024-01-26', 185],
+    ])
+    expect(chain.puts).toHaveLength(1)
+    expect(chain.calls[0]).toMatchObject({ type: 'call', underlying: 'AAPL', impliedVolatility: 0.25, openInterest: 100 })
+  })
+
+  it('should keep one expiration when requested', () => {
+    const chain = mapOptionChain('AAPL', rows, '2024-01-26')
+
+    expect(chain.expirations).toHaveLength(2)
+    expect(chain.calls.map((c) => c.strike)).toEqual([185])
+    expect(chain.puts.map((p) => p.strike)).toEqual([180])
+  })
+})
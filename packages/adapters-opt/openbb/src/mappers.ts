@@ -0,0 +1,234 @@
+/**
+ * Mapping of OpenBB's snake_case payloads onto the shared camelCase types.
+ */
+
+import type {
+  Quote as OpenBBQuote,
+  HistoricalPrice as OpenBBHistoricalPrice,
+  CompanyProfile as OpenBBCompanyProfile,
+  FinancialStatement as OpenBBFinancialStatement,
+  OptionsChain as OpenBBOptionsChain,
+} from '@open-fin-terminal/openbb-client';
+import type {
+  Quote,
+  HistoricalPrice,
+  CompanyProfile,
+  Period,
+  IncomeStatement,
+  BalanceSheet,
+  CashFlowStatement,
+  OptionChain,
+  OptionContract,
+} from '@open-fin-terminal/shared';
+
+/**
+ * Map an OpenBB quote.
+ */
+export function mapQuote(quote: OpenBBQuote): Quote {
+  return {
+    symbol: quote.symbol,
+    price: quote.last_price,
+    bid: quote.bid,
+    ask: quote.ask,
+    bidSize: quote.bid_size,
+    askSize: quote.ask_size,
+    volume: quote.volume,
+    previousClose: quote.last_price - quote.change,
+    timestamp: new Date(quote.timestamp),
+    realtime: false,
+  };
+}
+
+/**
+ * Map an OpenBB price bar.
+ */
+export function mapHistoricalPrice(price: OpenBBHistoricalPrice): HistoricalPrice {
+  return {
+    date: new Date(price.date),
+    ohlcv: {
+      open: price.open,
+      high: price.high,
+      low: price.low,
+      close: price.close,
+      volume: price.volume,
+    },
+    adjustedClose: price.adj_close,
+  };
+}
+
+/**
+ * Map an OpenBB company profile.
+ */
+export function mapProfile(profile: OpenBBCompanyProfile): CompanyProfile {
+  return {
+    name: profile.name,
+    industry: profile.industry,
+    sector: profile.sector,
+    employees: profile.employees,
+    description: profile.description,
+    website: profile.website,
+  };
+}
+
+/**
+ * Field names each statement line goes by across OpenBB providers, in
+ * order of preference.
+ */
+const INCOME_FIELDS = {
+  revenue: ['revenue', 'total_revenue'],
+  costOfRevenue: ['cost_of_revenue', 'total_cost_of_revenue'],
+  grossProfit: ['gross_profit'],
+  operatingExpenses: ['operating_expenses', 'total_operating_expenses'],
+  operatingIncome: ['operating_income', 'total_operating_income'],
+  netIncome: ['net_income', 'consolidated_net_income'],
+  eps: ['eps', 'basic_earnings_per_share'],
+  epsDiluted: ['eps_diluted', 'diluted_earnings_per_share'],
+};
+
+const BALANCE_FIELDS = {
+  totalAssets: ['total_assets'],
+  currentAssets: ['total_current_assets', 'current_assets'],
+  totalLiabilities: ['total_liabilities'],
+  currentLiabilities: ['total_current_liabilities', 'current_liabilities'],
+  shareholdersEquity: ['total_shareholders_equity', 'total_equity', 'total_common_equity'],
+  totalDebt: ['total_debt'],
+  cash: ['cash_and_cash_equivalents', 'cash_and_equivalents'],
+};
+
+const CASH_FLOW_FIELDS = {
+  operatingCashFlow: ['net_cash_flow_from_operating_activities', 'operating_cash_flow'],
+  investingCashFlow: ['net_cash_flow_from_investing_activities', 'investing_cash_flow'],
+  financingCashFlow: ['net_cash_flow_from_financing_activities', 'financing_cash_flow'],
+  freeCashFlow: ['free_cash_flow'],
+  capitalExpenditures: ['capital_expenditure', 'capital_expenditures', 'purchase_of_property_plant_and_equipment'],
+};
+
+/**
+ * Map an OpenBB income statement.
+ *
+ * @returns The statement, or undefined if revenue or net income is missing
+ */
+export function mapIncomeStatement(statement: OpenBBFinancialStatement): IncomeStatement | undefined {
+  const fields = pickFields(statement, INCOME_FIELDS);
+  if (fields.revenue === undefined || fields.netIncome === undefined) {
+    return undefined;
+  }
+  return { ...statementHeader(statement), ...fields, revenue: fields.revenue, netIncome: fields.netIncome };
+}
+
+/**
+ * Map an OpenBB balance sheet.
+ *
+ * @returns The statement, or undefined if total assets, total liabilities
+ *   or equity is missing
+ */
+export function mapBalanceSheet(statement: OpenBBFinancialStatement): BalanceSheet | undefined {
+  const fields = pickFields(statement, BALANCE_FIELDS);
+  if (
+    fields.totalAssets === undefined ||
+    fields.totalLiabilities === undefined ||
+    fields.shareholdersEquity === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    ...statementHeader(statement),
+    ...fields,
+    totalAssets: fields.totalAssets,
+    totalLiabilities: fields.totalLiabilities,
+    shareholdersEquity: fields.shareholdersEquity,
+  };
+}
+
+/**
+ * Map an OpenBB cash flow statement.
+ *
+ * @returns The statement, or undefined if operating cash flow is missing
+ */
+export function mapCashFlow(statement: OpenBBFinancialStatement): CashFlowStatement | undefined {
+  const fields = pickFields(statement, CASH_FLOW_FIELDS);
+  if (fields.operatingCashFlow === undefined) {
+    return undefined;
+  }
+  return { ...statementHeader(statement), ...fields, operatingCashFlow: fields.operatingCashFlow };
+}
+
+/**
+ * Map OpenBB option chain rows.
+ *
+ * @param symbol - Underlying symbol as requested
+ * @param rows - Contracts across every expiration
+ * @param expiration - Keep only contracts expiring on this day (ISO 8601)
+ */
+export function mapOptionChain(
+  symbol: string,
+  rows: OpenBBOptionsChain[],
+  expiration?: string
+): OptionChain {
+  const expirations = Array.from(new Set(rows.map((row) => row.expiration.slice(0, 10))))
+    .sort()
+    .map((day) => new Date(day));
+  const contracts = rows
+    .filter((row) => !expiration || row.expiration.slice(0, 10) === expiration.slice(0, 10))
+    .map((row) => mapOptionContract(symbol, row))
+    .sort((a, b) => a.expiration.getTime() - b.expiration.getTime() || a.strike - b.strike);
+
+  return {
+    underlying: symbol,
+    expirations,
+    calls: contracts.filter((contract) => contract.type === 'call'),
+    puts: contracts.filter((contract) => contract.type === 'put'),
+    timestamp: new Date(),
+  };
+}
+
+function mapOptionContract(symbol: string, row: OpenBBOptionsChain): OptionContract {
+  return {
+    contractSymbol: row.contract_symbol,
+    underlying: symbol,
+    type: row.option_type,
+    strike: row.strike,
+    expiration: new Date(row.expiration.slice(0, 10)),
+    lastPrice: row.last_price,
+    bid: row.bid,
+    ask: row.ask,
+    volume: row.volume,
+    openInterest: row.open_interest,
+    impliedVolatility: row.implied_volatility,
+    delta: row.delta,
+    gamma: row.gamma,
+    theta: row.theta,
+    vega: row.vega,
+    rho: row.rho,
+  };
+}
+
+/**
+ * Period end and type of a statement.
+ */
+function statementHeader(statement: OpenBBFinancialStatement): { date: Date; period: Period } {
+  return {
+    date: new Date(statement.calendar_date),
+    period: statement.period === 'quarter' ? 'quarterly' : statement.period,
+  };
+}
+
+/**
+ * Read the first numeric value under each field's names.
+ */
+function pickFields<K extends string>(
+  statement: OpenBBFinancialStatement,
+  fields: Record<K, string[]>
+): Partial<Record<K, number>> {
+  const picked: Partial<Record<K, number>> = {};
+  for (const [field, names] of Object.entries(fields) as Array<[K, string[]]>) {
+    for (const name of names) {
+      const value = statement[name];
+      if (typeof value === 'number') {
+        picked[field] = value;
+        break;
+      }
+    }
+  }
+  return picked;
+}
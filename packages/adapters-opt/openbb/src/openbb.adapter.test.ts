@@ -0,0 +1,337 @@
+import { describe, it, expect, vi } from 'vitest'
+import { OpenBBError } from '@open-fin-terminal/openbb-client'
+import type { OpenBBClient, OpenBBWebSocketClient } from '@open-fin-terminal/openbb-client'
+import { AdapterRegistry } from '@open-fin-terminal/adapters'
+import { OpenBBAdapter } from './openbb.adapter'
+import { selectProvider } from './providers'
+
+const provider = (name: string) => ({ name, description: `${name} provider` })
+
+const response = <T>(results: T, providerName = 'yfinance') => ({ results, provider: providerName })
+
+const statement = (fields: Record<string, number>, calendar_date: string) => ({
+  symbol: 'AAPL',
+  period: 'annual' as const,
+  fiscal_year: Number(calendar_date.slice(0, 4)),
+  calendar_date,
+  report_date: calendar_date,
+  ...fields,
+})
+
+const mockClient = (installed: string[] = ['yfinance']) => {
+  const client = {
+    getProviders: vi.fn(async () => Object.fromEntries(installed.map((name) => [name, provider(name)]))),
+    equity: {
+      price: {
+        historical: vi.fn(async () =>
+          response([
+            { date: '2024-01-03', open: 2, high: 2, low: 2, close: 2, volume: 20 },
+            { date: '2024-01-02', open: 1, high: 1, low: 1, close: 1, volume: 10 },
+          ])
+        ),
+        quote: vi.fn(async () =>
+          response({
+            symbol: 'AAPL',
+            last_price: 185.6,
+            change: 1.6,
+            change_percent: 0.87,
+            volume: 1000,
+            timestamp: '2024-01-09T21:00:00Z',
+          })
+        ),
+      },
+      profile: {
+        get: vi.fn(async () => response({ symbol: 'AAPL', name: 'Apple Inc.', sector: 'Technology', currency: 'USD' })),
+      },
+      fundamental: {
+        income: vi.fn(async () =>
+          response([
+            statement({ revenue: 365_817, net_income: 94_680 }, '2022-09-24'),
+            statement({ revenue: 383_285, net_income: 96_995 }, '2023-09-30'),
+          ])
+        ),
+        balance: vi.fn(async () =>
+          response([statement({ total_assets: 352_583, total_liabilities: 290_437, total_equity: 62_146 }, '2023-09-30')])
+        ),
+        cash: vi.fn(async () => response([statement({ operating_cash_flow: 110_543 }, '2023-09-30')])),
+      },
+    },
+    options: {
+      chains: vi.fn(async () =>
+        response([
+          { contract_symbol: 'AAPL240119C00180000', symbol: 'AAPL', expiration: '2024-01-19', strike: 180, option_type: 'call' },
+        ])
+      ),
+    },
+  }
+  return client
+}
+
+const adapterWith = (client: ReturnType<typeof mockClient>, providers = {}) =>
+  new OpenBBAdapter({ client: client as unknown as OpenBBClient, providers })
+
+describe('selectProvider', () => {
+  const installed = { fmp: provider('fmp'), yfinance: provider('yfinance'), fred: provider('fred') }
+
+  it('should prefer premium providers among those installed', () => {
+    expect(selectProvider('quotes', installed)).toBe('fmp')
+    expect(selectProvider('options', installed)).toBe('yfinance')
+  })
+
+  it('should use an explicit selection only when installed', () => {
+    expect(selectProvider('quotes', installed, { quotes: 'yfinance' })).toBe('yfinance')
+    expect(selectProvider('quotes', installed, { quotes: 'polygon' })).toBeUndefined()
+  })
+})
+
+describe('OpenBBAdapter (Mocked)', () => {
+  it('should be an optional adapter requiring setup', () => {
+    const adapter = new OpenBBAdapter()
+    expect(adapter.type).toBe('optional')
+    expect(adapter.requiresSetup).toBe(true)
+  })
+
+  it('should report every mapped data type before providers are discovered', () => {
+    const capabilities = adapterWith(mockClient()).getCapabilities()
+    expect(capabilities).toMatchObject({ quotes: true, historical: true, fundamentals: true, options: true })
+    expect(capabilities.economic).toBe(false)
+  })
+
+  it('should be routed by a registry without running health checks first', async () => {
+    const client = mockClient(['fmp'])
+    const registry = new AdapterRegistry({ autoHealthCheck: false })
+    registry.register(adapterWith(client))
+
+    const result = await registry.getQuote({ symbol: 'AAPL' })
+
+    expect(result.adapter).toBe('openbb')
+    expect(client.getProviders).toHaveBeenCalled()
+    expect(client.equity.price.quote).toHaveBeenCalledWith({ symbol: 'AAPL', provider: 'fmp' })
+    registry.dispose()
+  })
+
+  it('should derive capabilities from installed providers', async () => {
+    const adapter = adapterWith(mockClient(['fred', 'cboe']))
+
+    const health = await adapter.healthCheck()
+
+    expect(health.status).toBe('healthy')
+    expect(adapter.getCapabilities()).toMatchObject({
+      quotes: true,
+      historical: true,
+      fundamentals: false,
+      options: true,
+    })
+  })
+
+  it('should report degraded health when no provider serves its data types', async () => {
+    const adapter = adapterWith(mockClient(['fred']))
+
+    const health = await adapter.healthCheck()
+
+    expect(health.status).toBe('degraded')
+    expect(adapter.getCapabilities().quotes).toBe(false)
+  })
+
+  it('should report unavailable health when the server is down', async () => {
+    const client = mockClient()
+    client.getProviders.mockRejectedValue(new TypeError('fetch failed'))
+    const adapter = adapterWith(client)
+
+    const health = await adapter.healthCheck()
+
+    expect(health).toMatchObject({ status: 'unavailable', error: 'fetch failed' })
+  })
+
+  it('getQuote: maps the quote and requests the selected provider', async () => {
+    const client = mockClient(['fmp', 'yfinance'])
+    const adapter = adapterWith(client, { quotes: 'yfinance' })
+    await adapter.healthCheck()
+
+    const quote = await adapter.getQuote({ symbol: 'aapl' })
+
+    expect(client.equity.price.quote).toHaveBeenCalledWith({ symbol: 'aapl', provider: 'yfinance' })
+    expect(quote).toMatchObject({ symbol: 'aapl', price: 185.6, previousClose: 184 })
+  })
+
+  it('setProvider: switches the provider for one data type', async () => {
+    const client = mockClient(['fmp', 'yfinance'])
+    const adapter = adapterWith(client)
+    await adapter.healthCheck()
+
+    await adapter.getQuote({ symbol: 'AAPL' })
+    adapter.setProvider('quotes', 'yfinance')
+    await adapter.getQuote({ symbol: 'AAPL' })
+
+    expect(client.equity.price.quote.mock.calls.map((call) => (call as unknown[])[0])).toEqual([
+      { symbol: 'AAPL', provider: 'fmp' },
+      { symbol: 'AAPL', provider: 'yfinance' },
+    ])
+  })
+
+  it('getHistoricalPrices: requests dates and sorts bars oldest first', async () => {
+    const client = mockClient()
+    const adapter = adapterWith(client)
+
+    const prices = await adapter.getHistoricalPrices({
+      symbol: 'AAPL',
+      from: '2024-01-01T00:00:00Z',
+      to: '2024-01-31T00:00:00Z',
+    })
+
+    expect(client.equity.price.historical).toHaveBeenCalledWith({
+      symbol: 'AAPL',
+      start_date: '2024-01-01',
+      end_date: '2024-01-31',
+      provider: undefined,
+    })
+    expect(prices.map((p) => p.ohlcv.close)).toEqual([1, 2])
+  })
+
+  it('getHistoricalPrices: rejects intraday intervals', async () => {
+    const client = mockClient()
+    const adapter = adapterWith(client)
+
+    await expect(
+      adapter.getHistoricalPrices({ symbol: 'AAPL', from: '2024-01-01', to: '2024-01-31', interval: '5m' })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' })
+    expect(client.equity.price.historical).not.toHaveBeenCalled()
+  })
+
+  it('getFundamentals: combines profile and statements, newest first', async () => {
+    const client = mockClient()
+    const adapter = adapterWith(client)
+
+    const fundamentals = await adapter.getFundamentals({ symbol: 'AAPL', period: 'quarterly', limit: 4 })
+
+    expect(client.equity.fundamental.income).toHaveBeenCalledWith({
+      symbol: 'AAPL',
+      period: 'quarter',
+      limit: 4,
+      provider: undefined,
+    })
+    expect(fundamentals).toMatchObject({
+      symbol: 'AAPL',
+      currency: 'USD',
+      profile: { name: 'Apple Inc.', sector: 'Technology' },
+      incomeStatement: { revenue: 383_285 },
+      balanceSheet: { shareholdersEquity: 62_146 },
+      cashFlow: { operatingCashFlow: 110_543 },
+    })
+    expect(fundamentals.incomeStatements?.map((s) => s.revenue)).toEqual([383_285, 365_817])
+  })
+
+  it('getFundamentals: rejects trailing-twelve-month requests', async () => {
+    await expect(
+      adapterWith(mockClient()).getFundamentals({ symbol: 'AAPL', period: 'ttm' })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' })
+  })
+
+  it('getOptionChain: maps the chain', async () => {
+    const chain = await adapterWith(mockClient()).getOptionChain({ symbol: 'AAPL' })
+
+    expect(chain.calls).toHaveLength(1)
+    expect(chain.expirations).toEqual([new Date('2024-01-19')])
+  })
+
+  it('subscribeQuotes: streams mapped quotes over the WebSocket client', async () => {
+    const callbacks: Array<(data: unknown) => void> = []
+    const websocket = {
+      subscribe: vi.fn(async (_endpoint: string, _params: unknown, callback: (data: unknown) => void) => {
+        callbacks.push(callback)
+        return () => undefined
+      }),
+      unsubscribe: vi.fn(),
+    }
+    const client = mockClient(['fmp'])
+    const adapter = new OpenBBAdapter({
+      client: client as unknown as OpenBBClient,
+      websocket: websocket as unknown as OpenBBWebSocketClient,
+    })
+    await adapter.healthCheck()
+    const onQuote = vi.fn()
+
+    const unsubscribe = adapter.subscribeQuotes(['AAPL'], onQuote)
+    callbacks[0]!({ unexpected: true })
+    callbacks[0]!({
+      symbol: 'AAPL',
+      last_price: 185.6,
+      change: 1.6,
+      change_percent: 0.87,
+      volume: 1000,
+      timestamp: '2024-01-09T21:00:00Z',
+    })
+    unsubscribe()
+
+    expect(websocket.subscribe).toHaveBeenCalledWith(
+      'equity.price.quote',
+      { symbol: 'AAPL', provider: 'fmp' },
+      callbacks[0]
+    )
+    expect(onQuote).toHaveBeenCalledTimes(1)
+    expect(onQuote).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', price: 185.6 }))
+    expect(websocket.unsubscribe).toHaveBeenCalledWith(
+      'equity.price.quote',
+      { symbol: 'AAPL', provider: 'fmp' },
+      callbacks[0]
+    )
+  })
+
+  it('subscribeQuotes: is unsupported without a WebSocket client', () => {
+    expect(() => adapterWith(mockClient()).subscribeQuotes(['AAPL'], vi.fn())).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_OPERATION' })
+    )
+  })
+
+  it.each([
+    [new OpenBBError('Too Many Requests', { status: 429 }), 'RATE_LIMITED'],
+    [new OpenBBError('Unprocessable Entity', { status: 422 }), 'INVALID_REQUEST'],
+    [new OpenBBError('Unauthorized', { status: 401 }), 'UNAUTHORIZED'],
+    [new OpenBBError('Internal Server Error', { status: 500 }), 'UNAVAILABLE'],
+    [new OpenBBError('Response validation failed for /equity/price/quote'), 'UNKNOWN'],
+    [OpenBBError.validationError('/equity/price/quote', {}), 'UNKNOWN'],
+    [OpenBBError.timeoutError('/equity/price/quote', 30000), 'UNAVAILABLE'],
+    [new OpenBBError('Missing credential', { kind: 'provider_credentials', provider: 'fmp' }), 'UNAUTHORIZED'],
+    [OpenBBError.networkError('/equity/price/quote', new TypeError('fetch failed')), 'UNAVAILABLE'],
+    [new TypeError("Cannot read properties of undefined (reading 'last_price')"), 'UNKNOWN'],
+  ])('wraps %s as %s', async (error, code) => {
+    const client = mockClient()
+    client.equity.price.quote.mockRejectedValue(error)
+
+    await expect(adapterWith(client).getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+      name: 'AdapterError',
+      code,
+    })
+  })
+
+  it('reports unreadable payloads as UNKNOWN, not as an outage', async () => {
+    const client = mockClient()
+    client.equity.price.quote.mockResolvedValue({ results: null })
+
+    await expect(adapterWith(client).getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+      name: 'AdapterError',
+      code: 'UNKNOWN',
+    })
+  })
+
+  it('surfaces provider setup instructions when credentials are missing', async () => {
+    const client = mockClient(['fmp'])
+    client.getProviders.mockResolvedValue({
+      fmp: { ...provider('fmp'), credentials: ['fmp_api_key'], instructions: 'Get a key at financialmodelingprep.com.' },
+    })
+    client.equity.price.quote.mockRejectedValue(
+      new OpenBBError("OpenBB API request failed: Missing credential 'fmp_api_key'.", {
+        kind: 'provider_credentials',
+        provider: 'fmp',
+      })
+    )
+    const adapter = adapterWith(client)
+    await adapter.healthCheck()
+
+    await expect(adapter.getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message:
+        "Failed to fetch quote for AAPL: OpenBB API request failed: Missing credential 'fmp_api_key'. Get a key at financialmodelingprep.com.",
+    })
+  })
+})
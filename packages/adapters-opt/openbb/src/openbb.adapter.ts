@@ -0,0 +1,401 @@
+/**
+ * OpenBB Platform data adapter.
+ *
+ * Routes quotes, historical prices, fundamentals and option chains
+ * through a running OpenBB Platform API server, which forwards them to
+ * the provider chosen for each data type. Quotes can also be streamed
+ * over the server's WebSocket.
+ */
+
+import type {
+  DataAdapter,
+  AdapterCapabilities,
+  HealthCheck,
+  QuoteParams,
+  HistoricalPriceParams,
+  FundamentalsParams,
+  OptionChainParams,
+  QuoteListener,
+  Unsubscribe,
+} from '@open-fin-terminal/adapters';
+import { AdapterError } from '@open-fin-terminal/adapters';
+import type {
+  Quote,
+  HistoricalPrice,
+  Fundamentals,
+  OptionChain,
+} from '@open-fin-terminal/shared';
+import { OpenBBClient, OpenBBError, QuoteSchema } from '@open-fin-terminal/openbb-client';
+import type { OpenBBErrorKind, OpenBBWebSocketClient } from '@open-fin-terminal/openbb-client';
+import type { OpenBBClientConfig, ProviderInfo } from '@open-fin-terminal/openbb-client';
+import {
+  mapQuote,
+  mapHistoricalPrice,
+  mapProfile,
+  mapIncomeStatement,
+  mapBalanceSheet,
+  mapCashFlow,
+  mapOptionChain,
+} from './mappers';
+import { OPENBB_DATA_TYPES, selectProvider } from './providers';
+import type { OpenBBDataType, OpenBBProviderSelection } from './providers';
+
+/**
+ * Intervals OpenBB serves through the equity historical endpoint
+ */
+const DAILY_INTERVALS = new Set(['d', '1d']);
+
+/**
+ * Adapter error code for each client error kind.
+ *
+ * Unreachable or failing servers and timeouts make the adapter
+ * unavailable, so the registry moves on to the next one. Rejected or
+ * missing credentials fail the same way on every call until fixed, so
+ * they are not retried.
+ */
+const ERROR_CODES: Record<OpenBBErrorKind, AdapterError['code']> = {
+  auth: 'UNAUTHORIZED',
+  provider_credentials: 'UNAUTHORIZED',
+  rate_limited: 'RATE_LIMITED',
+  invalid_request: 'INVALID_REQUEST',
+  validation: 'UNKNOWN',
+  timeout: 'UNAVAILABLE',
+  network: 'UNAVAILABLE',
+  server: 'UNAVAILABLE',
+  unknown: 'UNKNOWN',
+};
+
+/**
+ * Endpoint streamed for quote subscriptions
+ */
+const QUOTE_STREAM_ENDPOINT = 'equity.price.quote';
+
+/**
+ * OpenBB adapter configuration.
+ */
+export interface OpenBBAdapterConfig {
+  /** Client to use (default: a client built from `clientConfig`) */
+  client?: OpenBBClient;
+  /** Client configuration (default: local server at http://127.0.0.1:6900) */
+  clientConfig?: OpenBBClientConfig;
+  /** OpenBB provider per data type (default: first installed provider known to serve it) */
+  providers?: OpenBBProviderSelection;
+  /** WebSocket client to stream quotes over (default: none; quotes are polled) */
+  websocket?: OpenBBWebSocketClient;
+}
+
+/**
+ * OpenBB Platform adapter.
+ *
+ * Capabilities follow the providers the server reports as installed.
+ * Until {@link healthCheck} has discovered them, every data type the
+ * adapter maps is reported, so the registry routes to it and runs the
+ * health check (and discovery) before the first request.
+ */
+export class OpenBBAdapter implements DataAdapter {
+  readonly name = 'openbb';
+  readonly type = 'optional' as const;
+  readonly requiresSetup = true;
+
+  private client: OpenBBClient;
+  private websocket?: OpenBBWebSocketClient;
+  private selection: OpenBBProviderSelection;
+  private installed: Record<string, ProviderInfo> = {};
+  private discovered = false;
+  private lastHealthCheck: HealthCheck | null = null;
+
+  constructor(config: OpenBBAdapterConfig = {}) {
+    this.client = config.client ?? new OpenBBClient(config.clientConfig);
+    this.websocket = config.websocket;
+    this.selection = { ...config.providers };
+  }
+
+  /**
+   * Health check: lists the server's installed providers.
+   */
+  async healthCheck(): Promise<HealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      this.installed = await this.client.getProviders();
+      this.discovered = true;
+      const latency = Date.now() - startTime;
+      const served = OPENBB_DATA_TYPES.some(
+        (dataType) => selectProvider(dataType, this.installed, this.selection) !== undefined
+      );
+
+      this.lastHealthCheck = {
+        adapter: this.name,
+        status: served ? 'healthy' : 'degraded',
+        latency,
+        successRate: 1,
+        lastChecked: new Date(),
+        error: served ? undefined : 'No installed OpenBB provider serves quotes, prices, fundamentals or options',
+      };
+
+      return this.lastHealthCheck;
+    } catch (error) {
+      const latency = Date.now() - startTime;
+      this.lastHealthCheck = {
+        adapter: this.name,
+        status: 'unavailable',
+        latency,
+        successRate: 0,
+        lastChecked: new Date(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+
+      return this.lastHealthCheck;
+    }
+  }
+
+  /**
+   * Get adapter capabilities, derived from the installed providers once
+   * discovered.
+   */
+  getCapabilities(): AdapterCapabilities {
+    const serves = (dataType: OpenBBDataType) =>
+      !this.discovered || selectProvider(dataType, this.installed, this.selection) !== undefined;
+
+    return {
+      quotes: serves('quotes'),
+      historical: serves('historical'),
+      fundamentals: serves('fundamentals'),
+      options: serves('options'),
+      economic: false,
+      forex: false,
+      crypto: false,
+      news: false,
+      insiderTransactions: false,
+      corporateActions: false,
+      realtime: false, // Depends on the provider; treated as delayed
+    };
+  }
+
+  /**
+   * Installed providers from the last successful health check.
+   */
+  getInstalledProviders(): Record<string, ProviderInfo> {
+    return { ...this.installed };
+  }
+
+  /**
+   * Setup instructions for a provider, as reported by the server.
+   */
+  getCredentialInstructions(provider: string): string | undefined {
+    return this.installed[provider]?.instructions;
+  }
+
+  /**
+   * Choose the OpenBB provider for a data type.
+   *
+   * @param dataType - Data type
+   * @param provider - OpenBB provider name, or undefined to pick automatically
+   */
+  setProvider(dataType: OpenBBDataType, provider: string | undefined): void {
+    this.selection = { ...this.selection, [dataType]: provider };
+  }
+
+  /**
+   * Get quote data for a symbol.
+   */
+  async getQuote(params: QuoteParams): Promise<Quote> {
+    const { symbol } = params;
+
+    try {
+      const response = await this.client.equity.price.quote({
+        symbol,
+        provider: this.provider('quotes'),
+      });
+      return { ...mapQuote(response.results), symbol };
+    } catch (error) {
+      throw this.adapterError(error, `Failed to fetch quote for ${symbol}`);
+    }
+  }
+
+  /**
+   * Get daily historical prices.
+   */
+  async getHistoricalPrices(params: HistoricalPriceParams): Promise<HistoricalPrice[]> {
+    const { symbol, from, to, interval = '1d' } = params;
+
+    if (!DAILY_INTERVALS.has(interval)) {
+      throw new AdapterError(
+        `OpenBB adapter does not support ${interval} bars`,
+        this.name,
+        'UNSUPPORTED_OPERATION'
+      );
+    }
+
+    try {
+      const response = await this.client.equity.price.historical({
+        symbol,
+        start_date: from.slice(0, 10),
+        end_date: to.slice(0, 10),
+        provider: this.provider('historical'),
+      });
+      return response.results
+        .map(mapHistoricalPrice)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    } catch (error) {
+      throw this.adapterError(error, `Failed to fetch historical prices for ${symbol}`);
+    }
+  }
+
+  /**
+   * Get the company profile and financial statements.
+   *
+   * Annual statements are returned unless quarterly ones are requested;
+   * trailing-twelve-month statements are not available.
+   */
+  async getFundamentals(params: FundamentalsParams): Promise<Fundamentals> {
+    const { symbol, period = 'annual', limit } = params;
+
+    if (period === 'ttm') {
+      throw new AdapterError(
+        'OpenBB adapter does not support trailing-twelve-month statements',
+        this.name,
+        'UNSUPPORTED_OPERATION'
+      );
+    }
+
+    try {
+      const provider = this.provider('fundamentals');
+      const statementParams = {
+        symbol,
+        period: period === 'quarterly' ? 'quarter' as const : 'annual' as const,
+        limit,
+        provider,
+      };
+      const [profile, income, balance, cash] = await Promise.all([
+        this.client.equity.profile.get({ symbol, provider }),
+        this.client.equity.fundamental.income(statementParams),
+        this.client.equity.fundamental.balance(statementParams),
+        this.client.equity.fundamental.cash(statementParams),
+      ]);
+
+      const incomeStatements = newestFirst(income.results.map(mapIncomeStatement));
+      const balanceSheets = newestFirst(balance.results.map(mapBalanceSheet));
+      const cashFlows = newestFirst(cash.results.map(mapCashFlow));
+
+      return {
+        symbol,
+        currency: profile.results.currency,
+        profile: mapProfile(profile.results),
+        incomeStatement: incomeStatements[0],
+        balanceSheet: balanceSheets[0],
+        cashFlow: cashFlows[0],
+        incomeStatements,
+        balanceSheets,
+        cashFlows,
+      };
+    } catch (error) {
+      throw this.adapterError(error, `Failed to fetch fundamentals for ${symbol}`);
+    }
+  }
+
+  /**
+   * Get the option chain, limited to one expiration if requested.
+   */
+  async getOptionChain(params: OptionChainParams): Promise<OptionChain> {
+    const { symbol, expiration } = params;
+
+    try {
+      const response = await this.client.options.chains({
+        symbol,
+        provider: this.provider('options'),
+      });
+      return mapOptionChain(symbol, response.results, expiration);
+    } catch (error) {
+      throw this.adapterError(error, `Failed to fetch option chain for ${symbol}`);
+    }
+  }
+
+  /**
+   * Stream quotes over the WebSocket client, one subscription per symbol.
+   *
+   * Messages that are not valid quotes are ignored.
+   *
+   * @throws {AdapterError} UNSUPPORTED_OPERATION without a WebSocket client
+   */
+  subscribeQuotes(symbols: string[], onQuote: QuoteListener): Unsubscribe {
+    const websocket = this.websocket;
+    if (!websocket) {
+      throw new AdapterError(
+        'OpenBB adapter streams quotes only with a WebSocket client configured',
+        this.name,
+        'UNSUPPORTED_OPERATION'
+      );
+    }
+
+    const provider = this.provider('quotes');
+    const subscriptions = symbols.map((symbol) => {
+      const params: Record<string, unknown> = provider ? { symbol, provider } : { symbol };
+      const callback = (data: unknown) => {
+        const parsed = QuoteSchema.safeParse(data);
+        if (parsed.success) {
+          onQuote({ ...mapQuote(parsed.data), symbol });
+        }
+      };
+      // Connection failures are retried by the client
+      void websocket.subscribe(QUOTE_STREAM_ENDPOINT, params, callback);
+      return { params, callback };
+    });
+
+    return () => {
+      for (const { params, callback } of subscriptions) {
+        websocket.unsubscribe(QUOTE_STREAM_ENDPOINT, params, callback);
+      }
+    };
+  }
+
+  /**
+   * Provider to request a data type from; undefined leaves the choice to
+   * the OpenBB server.
+   */
+  private provider(dataType: OpenBBDataType): string | undefined {
+    return this.selection[dataType] ?? selectProvider(dataType, this.installed);
+  }
+
+  /**
+   * Wrap a client error.
+   *
+   * Missing provider credentials carry the provider's setup
+   * instructions, when the server reports any. Errors not raised by the
+   * client (e.g. a payload the mappers cannot read) are `UNKNOWN`, so
+   * they are not mistaken for an outage.
+   */
+  private adapterError(error: unknown, context: string): AdapterError {
+    if (error instanceof AdapterError) {
+      return error;
+    }
+    if (!(error instanceof OpenBBError)) {
+      return new AdapterError(
+        `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const instructions =
+      error.kind === 'provider_credentials' && error.provider
+        ? this.getCredentialInstructions(error.provider)
+        : undefined;
+    return new AdapterError(
+      instructions ? `${context}: ${error.message} ${instructions}` : `${context}: ${error.message}`,
+      this.name,
+      ERROR_CODES[error.kind],
+      error
+    );
+  }
+}
+
+/**
+ * Drop unmappable statements and sort the rest newest first.
+ */
+function newestFirst<T extends { date: Date }>(statements: Array<T | undefined>): T[] {
+  return statements
+    .filter((statement): statement is T => statement !== undefined)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
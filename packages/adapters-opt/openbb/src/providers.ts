@@ -0,0 +1,66 @@
+/**
+ * OpenBB provider coverage and per-data-type provider selection.
+ */
+
+import type { ProviderInfo } from '@open-fin-terminal/openbb-client';
+
+/**
+ * Data types the OpenBB adapter serves, named after their
+ * `AdapterCapabilities` flags.
+ */
+export type OpenBBDataType = 'quotes' | 'historical' | 'fundamentals' | 'options';
+
+/**
+ * Provider chosen for each data type (OpenBB extension names such as
+ * 'yfinance', 'fmp', 'polygon').
+ */
+export type OpenBBProviderSelection = Partial<Record<OpenBBDataType, string>>;
+
+/**
+ * OpenBB data types in the order the adapter reports them.
+ */
+export const OPENBB_DATA_TYPES: readonly OpenBBDataType[] = [
+  'quotes',
+  'historical',
+  'fundamentals',
+  'options',
+];
+
+/**
+ * Known providers for each data type, preferred first.
+ *
+ * `/providers` only lists installed extensions, not what they serve, so
+ * coverage is kept here. Free providers come last so a configured
+ * premium provider wins.
+ */
+export const PROVIDER_COVERAGE: Record<OpenBBDataType, readonly string[]> = {
+  quotes: ['intrinio', 'fmp', 'polygon', 'tradier', 'tmx', 'cboe', 'yfinance'],
+  historical: ['polygon', 'intrinio', 'fmp', 'tiingo', 'alpha_vantage', 'tradier', 'tmx', 'cboe', 'yfinance'],
+  fundamentals: ['intrinio', 'fmp', 'polygon', 'yfinance'],
+  options: ['intrinio', 'tradier', 'tmx', 'cboe', 'yfinance'],
+};
+
+/**
+ * Pick the provider for a data type.
+ *
+ * An explicit selection is used when installed, even if the provider is
+ * not in {@link PROVIDER_COVERAGE}; it is never replaced by another
+ * provider. Otherwise the first installed provider known to serve the
+ * data type is chosen.
+ *
+ * @param dataType - Data type
+ * @param installed - Providers reported by `/providers`, keyed by name
+ * @param selection - Providers chosen by the user
+ * @returns Provider name, or undefined if no installed provider serves the data type
+ */
+export function selectProvider(
+  dataType: OpenBBDataType,
+  installed: Record<string, ProviderInfo>,
+  selection: OpenBBProviderSelection = {}
+): string | undefined {
+  const selected = selection[dataType];
+  if (selected) {
+    return selected in installed ? selected : undefined;
+  }
+  return PROVIDER_COVERAGE[dataType].find((provider) => provider in installed);
+}
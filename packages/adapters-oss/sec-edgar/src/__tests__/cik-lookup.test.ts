@@ -51,6 +51,12 @@ describe('CIKLookup', () => {
       expect(cik).toBe('0000320193');
     });
 
+    it('should normalize share-class punctuation', async () => {
+      expect(await lookup.getCIK('BRK.B')).toBe('0001067983');
+      expect(await lookup.getCIK('brk/b')).toBe('0001067983');
+      expect(await lookup.getCIK('BRK-A')).toBe('0001067983');
+    });
+
     it('should return null for unknown tickers', async () => {
       const cik = await lookup.getCIK('UNKNOWN');
       expect(cik).toBeNull();
@@ -99,6 +105,95 @@ describe('CIKLookup', () => {
     });
   });
 
+  describe('getMapping', () => {
+    it('should return the CIK, company title and exchange', async () => {
+      expect(await lookup.getMapping('aapl')).toEqual({
+        ticker: 'AAPL',
+        cik: '0000320193',
+        title: 'Apple Inc.',
+        exchange: 'Nasdaq',
+      });
+      expect(await lookup.getMapping('UNKNOWN')).toBeNull();
+    });
+
+    it('should leave the exchange unset when SEC lists none', async () => {
+      const mapping = await lookup.getMapping('AIR');
+      expect(mapping?.exchange).toBeUndefined();
+    });
+  });
+
+  describe('search', () => {
+    const tickers = (results: Array<{ ticker: string }>) => results.map((r) => r.ticker);
+
+    it('should rank an exact ticker first', async () => {
+      const results = await lookup.search('meta');
+      expect(results[0]).toMatchObject({ ticker: 'META', matchType: 'ticker', score: 100 });
+    });
+
+    it('should match share classes regardless of punctuation', async () => {
+      expect((await lookup.search('BRK.B'))[0]?.ticker).toBe('BRK-B');
+      expect((await lookup.search('brkb'))[0]?.ticker).toBe('BRK-B');
+    });
+
+    it('should match ticker prefixes, shortest ticker first', async () => {
+      const results = await lookup.search('GOO');
+      expect(tickers(results)).toEqual(['GOOG', 'GOOGL']);
+      expect(results[0]?.matchType).toBe('tickerPrefix');
+    });
+
+    it('should match company-name prefixes', async () => {
+      const results = await lookup.search('berkshire hath');
+      expect(tickers(results)).toEqual(['BRK-B', 'BRK-A']);
+      expect(results[0]?.matchType).toBe('namePrefix');
+    });
+
+    it('should match later words of the company name', async () => {
+      const results = await lookup.search('platforms');
+      expect(results[0]).toMatchObject({ ticker: 'META', matchType: 'nameWord' });
+    });
+
+    it('should match misspelled names', async () => {
+      expect((await lookup.search('microsft'))[0]).toMatchObject({
+        ticker: 'MSFT',
+        matchType: 'fuzzy',
+      });
+      expect((await lookup.search('berkshre'))[0]?.ticker).toBe('BRK-B');
+    });
+
+    it('should only match names fuzzily when the first letter is right', async () => {
+      expect(await lookup.search('nicrosoft')).toEqual([]);
+    });
+
+    it('should rank stronger matches before weaker ones', async () => {
+      // "A" prefixes several tickers and names; tickers rank above names
+      const results = await lookup.search('a', { limit: 20 });
+      const scores = results.map((r) => r.score);
+      expect(scores).toEqual([...scores].sort((x, y) => y - x));
+      expect(results[0]?.matchType).toBe('tickerPrefix');
+    });
+
+    it('should apply the limit', async () => {
+      expect(await lookup.search('a', { limit: 2 })).toHaveLength(2);
+    });
+
+    it('should return nothing for unmatched or empty queries', async () => {
+      expect(await lookup.search('zzzzzz')).toEqual([]);
+      expect(await lookup.search('  ')).toEqual([]);
+    });
+  });
+
+  describe('getTickers', () => {
+    it('should return every ticker for a CIK in listing order', async () => {
+      expect(await lookup.getTickers('0001652044')).toEqual(['GOOGL', 'GOOG']);
+      expect(await lookup.getTickers(1067983)).toEqual(['BRK-B', 'BRK-A']);
+      expect(await lookup.getTickers(320193)).toEqual(['AAPL']);
+    });
+
+    it('should return no tickers for unknown CIKs', async () => {
+      expect(await lookup.getTickers('0000000001')).toEqual([]);
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear cached CIK lookups', async () => {
       await lookup.getCIK('AAPL');
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CONCEPT_MAP, COMPANY_CONCEPTS, isConceptSum, resolveConceptMap } from '../concepts';
+import type { ConceptMapping } from '../concepts';
+
+const allMappings = (): [string, ConceptMapping][] => [
+  ...Object.entries(CONCEPT_MAP.income),
+  ...Object.entries(CONCEPT_MAP.balance),
+  ...Object.entries(CONCEPT_MAP.cashFlow),
+];
+
+describe('CONCEPT_MAP', () => {
+  it('should map every field except derived ones to at least one source', () => {
+    const unmapped = allMappings()
+      .filter(([, mapping]) => mapping.sources.length === 0)
+      .map(([field]) => field);
+
+    expect(unmapped).toEqual(['freeCashFlow']);
+  });
+
+  it('should not list a concept twice for the same field', () => {
+    for (const [field, mapping] of allMappings()) {
+      const keys = mapping.sources.flatMap((source) =>
+        isConceptSum(source) ? [] : [`${source.taxonomy}:${source.tag}`]
+      );
+      expect(new Set(keys).size, field).toBe(keys.length);
+    }
+  });
+
+  it('should cover ifrs-full for the required statement lines', () => {
+    const hasIfrs = (mapping: ConceptMapping) =>
+      mapping.sources.some((source) =>
+        isConceptSum(source)
+          ? source.sum.some((tag) => tag.taxonomy === 'ifrs-full')
+          : source.taxonomy === 'ifrs-full'
+      );
+
+    expect(hasIfrs(CONCEPT_MAP.income.revenue)).toBe(true);
+    expect(hasIfrs(CONCEPT_MAP.income.netIncome)).toBe(true);
+    expect(hasIfrs(CONCEPT_MAP.balance.totalAssets)).toBe(true);
+    expect(hasIfrs(CONCEPT_MAP.balance.totalLiabilities)).toBe(true);
+    expect(hasIfrs(CONCEPT_MAP.balance.shareholdersEquity)).toBe(true);
+    expect(hasIfrs(CONCEPT_MAP.cashFlow.operatingCashFlow)).toBe(true);
+  });
+
+  it('should key per-company concepts by 10-digit CIK', () => {
+    for (const cik of Object.keys(COMPANY_CONCEPTS)) {
+      expect(cik).toMatch(/^\d{10}$/);
+    }
+  });
+});
+
+describe('resolveConceptMap', () => {
+  it('should return the standard mapping when the company has no overrides', () => {
+    expect(resolveConceptMap(undefined)).toBe(CONCEPT_MAP);
+  });
+
+  it('should prepend company sources without mutating the standard mapping', () => {
+    const before = CONCEPT_MAP.income.revenue.sources.length;
+    const resolved = resolveConceptMap({
+      income: { revenue: [{ taxonomy: 'us-gaap', tag: 'CustomRevenue' }] },
+    });
+
+    expect(resolved.income.revenue.sources[0]).toEqual({ taxonomy: 'us-gaap', tag: 'CustomRevenue' });
+    expect(resolved.income.revenue.sources).toHaveLength(before + 1);
+    expect(resolved.income.netIncome).toBe(CONCEPT_MAP.income.netIncome);
+    expect(CONCEPT_MAP.income.revenue.sources).toHaveLength(before);
+  });
+});
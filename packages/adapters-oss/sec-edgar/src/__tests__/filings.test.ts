@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { filterFilings, parseFilings, primaryDocumentUrl } from '../filings';
+import type { SubmissionsFilingColumns } from '../types';
+import submissionsFixture from './fixtures/submissions-aapl.json';
+
+const recent = submissionsFixture.filings.recent as SubmissionsFilingColumns;
+
+describe('parseFilings', () => {
+  it('should convert columnar submissions into filings', () => {
+    const filings = parseFilings('0000320193', recent);
+
+    expect(filings).toHaveLength(5);
+    expect(filings[2]).toEqual({
+      cik: '0000320193',
+      accessionNumber: '0000320193-23-000106',
+      form: '10-K',
+      filingDate: new Date('2023-11-03'),
+      reportDate: new Date('2023-09-30'),
+      primaryDocument: 'aapl-20230930.htm',
+      description: '10-K',
+      primaryDocumentUrl:
+        'https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/aapl-20230930.htm',
+    });
+  });
+
+  it('should leave a missing report date undefined', () => {
+    const filings = parseFilings('0000320193', recent);
+    expect(filings[1]?.reportDate).toBeUndefined();
+  });
+});
+
+describe('primaryDocumentUrl', () => {
+  it('should strip CIK zeros and accession dashes', () => {
+    expect(primaryDocumentUrl('0000320193', '0001140361-23-049089', 'xslF345X05/form4.xml')).toBe(
+      'https://www.sec.gov/Archives/edgar/data/320193/000114036123049089/xslF345X05/form4.xml'
+    );
+  });
+});
+
+describe('filterFilings', () => {
+  const filings = parseFilings('0000320193', recent);
+
+  it('should filter by form type', () => {
+    const result = filterFilings(filings, { forms: ['10-K', '10-Q'] });
+    expect(result.map((f) => f.form)).toEqual(['10-Q', '10-K', '10-Q']);
+  });
+
+  it('should filter by filing date range inclusively', () => {
+    const result = filterFilings(filings, {
+      from: new Date('2023-10-20'),
+      to: new Date('2023-11-17'),
+    });
+    expect(result.map((f) => f.accessionNumber)).toEqual([
+      '0000320193-23-000116',
+      '0000320193-23-000106',
+      '0001140361-23-049089',
+    ]);
+  });
+
+  it('should sort most recent first and apply the limit', () => {
+    const result = filterFilings([...filings].reverse(), { limit: 2 });
+    expect(result.map((f) => f.filingDate)).toEqual([new Date('2024-02-02'), new Date('2023-11-17')]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  buildQuarterReport,
+  holderPosition,
+  informationTableDocument,
+  issuerMatches,
+  parseAmendmentType,
+  parseInformationTable,
+} from '../form13f';
+import type { Filing, Holding13F, Holdings13FReport } from '../types';
+
+const q4Xml = readFileSync(join(__dirname, 'fixtures/13f-infotable-2023q4.xml'), 'utf8');
+
+const filing = (accessionNumber: string, filingDate: string, form = '13F-HR'): Filing => ({
+  cik: '0001067983',
+  accessionNumber,
+  form,
+  filingDate: new Date(filingDate),
+  primaryDocument: 'primary_doc.xml',
+  primaryDocumentUrl: `https://www.sec.gov/Archives/edgar/data/1067983/${accessionNumber}/primary_doc.xml`,
+});
+
+const holding = (cusip: string, shares: number, extra: Partial<Holding13F> = {}): Holding13F => ({
+  cusip,
+  issuer: 'APPLE INC',
+  titleOfClass: 'COM',
+  value: shares * 100,
+  shares,
+  shareType: 'SH',
+  ...extra,
+});
+
+const report = (reportDate: string, holdings: Holding13F[]): Holdings13FReport => ({
+  filerCik: '0001067983',
+  filerName: 'BERKSHIRE HATHAWAY INC',
+  reportDate: new Date(reportDate),
+  filingDate: new Date(reportDate),
+  accessionNumbers: [],
+  holdings,
+  totalValue: 0,
+});
+
+describe('parseInformationTable', () => {
+  it('should parse namespaced information tables', () => {
+    const holdings = parseInformationTable(q4Xml, new Date('2024-02-14'));
+
+    expect(holdings).toHaveLength(4);
+    expect(holdings[0]).toEqual({
+      cusip: '037833100',
+      issuer: 'APPLE INC',
+      titleOfClass: 'COM',
+      value: 155000000000,
+      shares: 800000000,
+      shareType: 'SH',
+      putCall: undefined,
+      investmentDiscretion: 'DFND',
+    });
+    expect(holdings[2]?.putCall).toBe('put');
+  });
+
+  it('should convert pre-2023 values from thousands of dollars', () => {
+    const holdings = parseInformationTable(q4Xml, new Date('2022-11-14'));
+    expect(holdings[3]?.value).toBe(23572000000 * 1000);
+  });
+});
+
+describe('informationTableDocument', () => {
+  it('should pick the XML document that is not the cover page', () => {
+    const index = {
+      directory: {
+        name: '/Archives/edgar/data/1067983/000095012324002518',
+        item: [
+          { name: '0000950123-24-002518-index.html', type: 'text.gif', size: '' },
+          { name: 'primary_doc.xml', type: 'text.gif', size: '2170' },
+          { name: '46994.xml', type: 'text.gif', size: '22891' },
+        ],
+      },
+    };
+    expect(informationTableDocument(index)).toBe('46994.xml');
+  });
+});
+
+describe('parseAmendmentType', () => {
+  it('should read the amendment type from the cover page', () => {
+    const xml = '<edgarSubmission><coverPage><isAmendment>true</isAmendment>' +
+      '<amendmentInfo><amendmentType>NEW HOLDINGS</amendmentType></amendmentInfo></coverPage></edgarSubmission>';
+    expect(parseAmendmentType(xml)).toBe('NEW HOLDINGS');
+  });
+});
+
+describe('buildQuarterReport', () => {
+  it('should add new-holdings amendments and replace on restatements', () => {
+    const original = { filing: filing('a', '2023-11-14'), holdings: [holding('1', 10)] };
+    const added = {
+      filing: filing('b', '2023-11-20', '13F-HR/A'),
+      holdings: [holding('2', 5)],
+      amendmentType: 'NEW HOLDINGS',
+    };
+    const restated = {
+      filing: filing('c', '2023-12-01', '13F-HR/A'),
+      holdings: [holding('3', 7)],
+      amendmentType: 'RESTATEMENT',
+    };
+
+    const merged = buildQuarterReport('0001067983', 'BRK', new Date('2023-09-30'), [added, original]);
+    expect(merged.holdings.map((h) => h.cusip)).toEqual(['1', '2']);
+    expect(merged.accessionNumbers).toEqual(['a', 'b']);
+    expect(merged.totalValue).toBe(1500);
+    expect(merged.filingDate).toEqual(new Date('2023-11-20'));
+
+    const replaced = buildQuarterReport('0001067983', 'BRK', new Date('2023-09-30'), [original, added, restated]);
+    expect(replaced.holdings.map((h) => h.cusip)).toEqual(['3']);
+  });
+});
+
+describe('holderPosition', () => {
+  const isApple = (h: Holding13F) => h.cusip === '037833100';
+
+  it('should sum rows, exclude options and compare with the previous quarter', () => {
+    const position = holderPosition(
+      [
+        report('2023-12-31', [
+          holding('037833100', 800),
+          holding('037833100', 50),
+          holding('037833100', 10, { putCall: 'put' }),
+        ]),
+        report('2023-09-30', [holding('037833100', 900)]),
+      ],
+      isApple
+    );
+
+    expect(position).toMatchObject({
+      shares: 850,
+      value: 85000,
+      previousShares: 900,
+      sharesChange: -50,
+      change: 'decreased',
+    });
+  });
+
+  it('should classify new and exited positions', () => {
+    const held = report('2023-12-31', [holding('037833100', 100)]);
+    const empty = report('2023-09-30', []);
+
+    expect(holderPosition([held, empty], isApple)?.change).toBe('new');
+    expect(holderPosition([empty, held], isApple)).toMatchObject({ change: 'exited', shares: 0 });
+    expect(holderPosition([empty, empty], isApple)).toBeNull();
+  });
+});
+
+describe('issuerMatches', () => {
+  it('should ignore case, punctuation and corporate suffixes', () => {
+    expect(issuerMatches('APPLE INC', 'Apple Inc.')).toBe(true);
+    expect(issuerMatches('COCA COLA CO', 'COCA COLA CO')).toBe(true);
+    expect(issuerMatches('MICROSOFT CORP', 'Apple Inc.')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { form4XmlUrl, parseForm4 } from '../form4';
+import type { Filing } from '../types';
+
+const form4Xml = readFileSync(join(__dirname, 'fixtures/form4-aapl.xml'), 'utf8');
+
+const filing: Filing = {
+  cik: '0000320193',
+  accessionNumber: '0001140361-23-049089',
+  form: '4',
+  filingDate: new Date('2023-10-20'),
+  primaryDocument: 'xslF345X05/form4.xml',
+  primaryDocumentUrl:
+    'https://www.sec.gov/Archives/edgar/data/320193/000114036123049089/xslF345X05/form4.xml',
+};
+
+describe('form4XmlUrl', () => {
+  it('should drop the XSL stylesheet directory', () => {
+    expect(form4XmlUrl(filing)).toBe(
+      'https://www.sec.gov/Archives/edgar/data/320193/000114036123049089/form4.xml'
+    );
+  });
+
+  it('should leave raw XML URLs unchanged', () => {
+    const raw = { ...filing, primaryDocumentUrl: form4XmlUrl(filing) };
+    expect(form4XmlUrl(raw)).toBe(raw.primaryDocumentUrl);
+  });
+});
+
+describe('parseForm4', () => {
+  const transactions = parseForm4(form4Xml, 'AAPL', filing);
+
+  it('should parse non-derivative and derivative transactions, skipping holdings', () => {
+    expect(transactions).toHaveLength(2);
+    expect(transactions.map((t) => t.isDerivative)).toEqual([false, true]);
+  });
+
+  it('should map insider, relationship and amounts', () => {
+    expect(transactions[0]).toEqual({
+      symbol: 'AAPL',
+      insiderName: 'COOK TIMOTHY D',
+      insiderCik: '0001214156',
+      relationship: {
+        isDirector: true,
+        isOfficer: true,
+        officerTitle: 'Chief Executive Officer',
+        isTenPercentOwner: false,
+        isOther: false,
+        otherText: undefined,
+      },
+      securityTitle: 'Common Stock',
+      isDerivative: false,
+      transactionDate: new Date('2023-10-17'),
+      filingDate: new Date('2023-10-20'),
+      transactionCode: 'F',
+      acquiredDisposed: 'D',
+      shares: 270000,
+      price: 177.15,
+      sharesOwnedAfter: 3280180,
+      ownership: 'direct',
+      accessionNumber: '0001140361-23-049089',
+    });
+  });
+
+  it('should leave footnote-only prices undefined', () => {
+    expect(transactions[1]).toMatchObject({
+      securityTitle: 'Restricted Stock Unit',
+      transactionCode: 'M',
+      shares: 511000,
+      price: undefined,
+      sharesOwnedAfter: 0,
+    });
+  });
+
+  it('should decode XML entities', () => {
+    const xml = form4Xml.replace('COOK TIMOTHY D', 'SMITH &amp; SONS LLC');
+    expect(parseForm4(xml, 'AAPL', filing)[0]?.insiderName).toBe('SMITH & SONS LLC');
+  });
+
+  it('should return no transactions for documents about another issuer', () => {
+    // Filed by the company as a reporting owner of another issuer's shares
+    const xml = form4Xml.replace('<issuerCik>0000320193</issuerCik>', '<issuerCik>0000789019</issuerCik>');
+    expect(parseForm4(xml, 'AAPL', filing)).toEqual([]);
+    expect(parseForm4(form4Xml, 'AAPL', { ...filing, cik: '320193' })).toHaveLength(2);
+  });
+
+  it('should return no transactions for documents without tables', () => {
+    expect(parseForm4('<ownershipDocument></ownershipDocument>', 'AAPL', filing)).toEqual([]);
+  });
+});
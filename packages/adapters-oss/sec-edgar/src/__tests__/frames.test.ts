@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { frameData, frameTags, frameUnit, isFramePeriod, mergeFrameData } from '../frames';
+import { CONCEPT_MAP } from '../concepts';
+import type { FramesResponse, FrameDatum } from '../types';
+import framesFixture from './fixtures/frames-revenues-cy2023.json';
+
+const tickers = new Map([
+  ['0001652044', ['GOOGL', 'GOOG']],
+  ['0000789019', ['MSFT']],
+]);
+
+const datum = (cik: string, value: number, tag: string): FrameDatum => ({
+  cik,
+  tickers: [],
+  entityName: cik,
+  end: new Date('2023-12-31'),
+  value,
+  accessionNumber: `accn-${cik}`,
+  tag,
+});
+
+describe('isFramePeriod', () => {
+  it('should accept annual, quarterly and instant periods', () => {
+    expect(isFramePeriod('CY2024')).toBe(true);
+    expect(isFramePeriod('CY2024Q1')).toBe(true);
+    expect(isFramePeriod('CY2024Q4I')).toBe(true);
+  });
+
+  it('should reject other formats', () => {
+    expect(isFramePeriod('FY2024')).toBe(false);
+    expect(isFramePeriod('CY2024Q5')).toBe(false);
+    expect(isFramePeriod('2024')).toBe(false);
+  });
+});
+
+describe('frameData', () => {
+  it('should join values to tickers by CIK', () => {
+    const data = frameData(framesFixture as FramesResponse, tickers);
+
+    expect(data[0]).toEqual({
+      cik: '0001652044',
+      ticker: 'GOOGL',
+      tickers: ['GOOGL', 'GOOG'],
+      entityName: 'Alphabet Inc.',
+      location: 'US-CA',
+      end: new Date('2023-12-31'),
+      value: 307394000000,
+      accessionNumber: '0001652044-24-000022',
+      tag: 'Revenues',
+    });
+    expect(data[2]).toMatchObject({ cik: '0000012345', ticker: undefined, tickers: [] });
+  });
+
+  it('should apply the sign convention', () => {
+    const data = frameData(framesFixture as FramesResponse, tickers, -1);
+    expect(data[1]?.value).toBe(-227583000000);
+  });
+});
+
+describe('mergeFrameData', () => {
+  it('should keep the first concept reported per company, largest first', () => {
+    const merged = mergeFrameData([
+      [datum('1', 100, 'Revenues')],
+      [datum('1', 999, 'SalesRevenueNet'), datum('2', 300, 'SalesRevenueNet')],
+    ]);
+
+    expect(merged.map((d) => [d.cik, d.tag])).toEqual([
+      ['2', 'SalesRevenueNet'],
+      ['1', 'Revenues'],
+    ]);
+  });
+});
+
+describe('frameTags', () => {
+  it('should use us-gaap single concepts in priority order', () => {
+    const tags = frameTags(CONCEPT_MAP.income.revenue).map((tag) => tag.tag);
+
+    expect(tags[0]).toBe('Revenues');
+    expect(tags).toContain('RevenuesNetOfInterestExpense');
+    expect(tags).not.toContain('Revenue'); // ifrs-full
+  });
+
+  it('should pick per-share units for EPS', () => {
+    expect(frameUnit(CONCEPT_MAP.income.eps)).toBe('USD-per-shares');
+    expect(frameUnit(CONCEPT_MAP.income.revenue)).toBe('USD');
+  });
+});
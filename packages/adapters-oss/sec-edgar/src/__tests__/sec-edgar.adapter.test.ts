@@ -1,8 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
 import { SECEdgarAdapter } from '../sec-edgar.adapter';
 import { AdapterError } from '@open-fin-terminal/adapters';
 import companyFactsFixture from './fixtures/company-facts-aapl.json';
 import tickerMappingFixture from './fixtures/ticker-cik-mapping.json';
+import submissionsFixture from './fixtures/submissions-aapl.json';
+import submissionsFileFixture from './fixtures/submissions-aapl-001.json';
+import filerSubmissionsFixture from './fixtures/submissions-13f-filer.json';
+import framesFixture from './fixtures/frames-revenues-cy2023.json';
+
+const form4Xml = readFileSync(join(__dirname, 'fixtures/form4-aapl.xml'), 'utf8');
+const infoTableQ4 = readFileSync(join(__dirname, 'fixtures/13f-infotable-2023q4.xml'), 'utf8');
+const infoTableQ3 = readFileSync(join(__dirname, 'fixtures/13f-infotable-2023q3.xml'), 'utf8');
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -24,7 +34,7 @@ describe('SECEdgarAdapter', () => {
   });
 
   describe('getCapabilities', () => {
-    it('should only support fundamentals', () => {
+    it('should support fundamentals, filings and insider transactions', () => {
       const capabilities = adapter.getCapabilities();
       
       expect(capabilities.fundamentals).toBe(true);
@@ -34,7 +44,8 @@ describe('SECEdgarAdapter', () => {
       expect(capabilities.economic).toBe(false);
       expect(capabilities.forex).toBe(false);
       expect(capabilities.crypto).toBe(false);
-      expect(capabilities.news).toBe(false);
+      expect(capabilities.news).toBe(true);
+      expect(capabilities.insiderTransactions).toBe(true);
       expect(capabilities.realtime).toBe(false);
     });
   });
@@ -134,7 +145,7 @@ describe('SECEdgarAdapter', () => {
     beforeEach(() => {
       // Mock ticker lookup
       (global.fetch as any).mockImplementation((url: string) => {
-        if (url.includes('company_tickers.json')) {
+        if (url.includes('company_tickers_exchange.json')) {
           return Promise.resolve({
             ok: true,
             json: async () => tickerMappingFixture,
@@ -165,6 +176,80 @@ describe('SECEdgarAdapter', () => {
       expect(fundamentals.cashFlow?.operatingCashFlow).toBe(110543000000);
     });
 
+    it('should include multi-year statement histories', async () => {
+      const fundamentals = await adapter.getFundamentals({ symbol: 'AAPL' });
+
+      expect(fundamentals.incomeStatements?.map((s) => s.revenue)).toEqual([
+        383285000000,
+        394328000000,
+      ]);
+      expect(fundamentals.cashFlows).toHaveLength(2);
+      expect(
+        fundamentals.balanceSheets?.filter((s) => s.period === 'annual')
+      ).toHaveLength(2);
+    });
+
+    it('should narrow statements to the requested period and limit', async () => {
+      const fundamentals = await adapter.getFundamentals({
+        symbol: 'AAPL',
+        period: 'annual',
+        limit: 1,
+      });
+
+      expect(fundamentals.incomeStatements?.map((s) => s.revenue)).toEqual([383285000000]);
+      expect(fundamentals.balanceSheets).toHaveLength(1);
+      expect(fundamentals.balanceSheets?.[0]?.period).toBe('annual');
+
+      const quarterly = await adapter.getFundamentals({ symbol: 'AAPL', period: 'quarterly' });
+      expect(quarterly.incomeStatement).toBeUndefined();
+      expect(quarterly.balanceSheet?.period).toBe('quarterly');
+    });
+
+    it('should include TTM statements alongside the requested period', async () => {
+      const fact = (start: string, end: string, val: number, form = '10-Q') => ({
+        start,
+        end,
+        val,
+        form,
+        filed: end,
+        fp: form === '10-K' ? 'FY' : 'Q1',
+        accn: `accn-${end}`,
+      });
+      const revenues = [
+        fact('2022-10-01', '2022-12-31', 90),
+        fact('2023-01-01', '2023-03-31', 100),
+        fact('2023-04-01', '2023-06-30', 100),
+        fact('2023-07-01', '2023-09-30', 110),
+        fact('2022-10-01', '2023-09-30', 400, '10-K'),
+      ];
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url.includes('companyfacts')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({
+              cik: companyFactsFixture.cik,
+              entityName: 'Apple Inc.',
+              facts: { 'us-gaap': { Revenues: { label: 'Revenues', description: '', units: { USD: revenues } } } },
+            }),
+          });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      const annual = await adapter.getFundamentals({ symbol: 'AAPL', period: 'annual' });
+      expect(annual.incomeStatements?.map((s) => s.period)).toEqual(['annual']);
+
+      const withTtm = await adapter.getFundamentals({ symbol: 'AAPL', period: 'annual', ttm: true });
+      expect(withTtm.incomeStatements?.map((s) => [s.period, s.revenue])).toEqual([
+        ['annual', 400],
+        ['ttm', 400],
+      ]);
+      expect(withTtm.incomeStatement?.period).toBe('annual');
+    });
+
     it('should handle lowercase tickers', async () => {
       const fundamentals = await adapter.getFundamentals({ symbol: 'aapl' });
       expect(fundamentals.symbol).toBe('Apple Inc.');
@@ -184,6 +269,15 @@ describe('SECEdgarAdapter', () => {
       }
     });
 
+    it('should reject symbols without SEC filings', async () => {
+      for (const symbol of ['^SPX', 'EUR/USD', 'XLON:VOD']) {
+        await expect(adapter.getFundamentals({ symbol })).rejects.toMatchObject({
+          code: 'INVALID_REQUEST',
+        });
+      }
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
     it('should cache results', async () => {
       // First call
       await adapter.getFundamentals({ symbol: 'AAPL' });
@@ -198,7 +292,7 @@ describe('SECEdgarAdapter', () => {
 
     it('should handle rate limit errors', async () => {
       (global.fetch as any).mockImplementation((url: string) => {
-        if (url.includes('company_tickers.json')) {
+        if (url.includes('company_tickers_exchange.json')) {
           return Promise.resolve({
             ok: true,
             json: async () => tickerMappingFixture,
@@ -236,4 +330,334 @@ describe('SECEdgarAdapter', () => {
       expect(companyFactsCalls[0][1].headers['User-Agent']).toContain('Open Financial Terminal');
     });
   });
+
+  describe('getFilings', () => {
+    beforeEach(() => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url.endsWith('/submissions/CIK0000320193.json')) {
+          return Promise.resolve({ ok: true, json: async () => submissionsFixture });
+        }
+        if (url.endsWith('/submissions/CIK0000320193-submissions-001.json')) {
+          return Promise.resolve({ ok: true, json: async () => submissionsFileFixture });
+        }
+        if (url.includes('/Archives/edgar/data/')) {
+          return Promise.resolve({ ok: true, text: async () => '<html>Annual report</html>' });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+    });
+
+    it('should list recent filings most recent first', async () => {
+      const filings = await adapter.getFilings({ symbol: 'AAPL' });
+
+      expect(filings).toHaveLength(5);
+      expect(filings[0]?.form).toBe('10-Q');
+      expect(filings[0]?.filingDate).toEqual(new Date('2024-02-02'));
+    });
+
+    it('should filter filings by form and limit', async () => {
+      const filings = await adapter.getFilings({ symbol: 'AAPL', forms: ['10-K'], limit: 1 });
+
+      expect(filings.map((f) => f.accessionNumber)).toEqual(['0000320193-23-000106']);
+    });
+
+    it('should load older submissions files only when the range needs them', async () => {
+      await adapter.getFilings({ symbol: 'AAPL', from: new Date('2023-01-01') });
+      const olderCalls = () =>
+        (global.fetch as any).mock.calls.filter((call: any) => call[0].includes('submissions-001'));
+      expect(olderCalls()).toHaveLength(0);
+
+      const filings = await adapter.getFilings({
+        symbol: 'AAPL',
+        forms: ['10-K'],
+        from: new Date('2010-01-01'),
+      });
+      expect(olderCalls()).toHaveLength(1);
+      expect(filings.map((f) => f.filingDate)).toEqual([
+        new Date('2023-11-03'),
+        new Date('2014-10-27'),
+      ]);
+    });
+
+    it('should throw error for unknown ticker', async () => {
+      await expect(adapter.getFilings({ symbol: 'UNKNOWN' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+    });
+
+    it('should fetch the primary document text', async () => {
+      const [filing] = await adapter.getFilings({ symbol: 'AAPL', forms: ['10-K'] });
+      const text = await adapter.getFilingDocument(filing!);
+
+      expect(text).toBe('<html>Annual report</html>');
+      const documentCall = (global.fetch as any).mock.calls.find((call: any) =>
+        call[0].includes('/Archives/edgar/data/')
+      );
+      expect(documentCall[0]).toBe(filing!.primaryDocumentUrl);
+      expect(documentCall[1].headers['User-Agent']).toContain('Open Financial Terminal');
+    });
+  });
+
+  describe('getInsiderTransactions', () => {
+    beforeEach(() => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url.endsWith('/submissions/CIK0000320193.json')) {
+          return Promise.resolve({ ok: true, json: async () => submissionsFixture });
+        }
+        if (url.endsWith('/000114036123049089/form4.xml')) {
+          return Promise.resolve({ ok: true, text: async () => form4Xml });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+    });
+
+    it('should parse transactions from Form 4 filings', async () => {
+      const transactions = await adapter.getInsiderTransactions({ symbol: 'aapl' });
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toMatchObject({
+        symbol: 'AAPL',
+        insiderName: 'COOK TIMOTHY D',
+        transactionCode: 'F',
+        filingDate: new Date('2023-10-20'),
+      });
+    });
+
+    it('should apply the limit', async () => {
+      const transactions = await adapter.getInsiderTransactions({ symbol: 'AAPL', limit: 1 });
+      expect(transactions).toHaveLength(1);
+    });
+
+    it('should cache parsed filings', async () => {
+      await adapter.getInsiderTransactions({ symbol: 'AAPL' });
+      await adapter.getInsiderTransactions({ symbol: 'AAPL' });
+
+      const xmlCalls = (global.fetch as any).mock.calls.filter((call: any) =>
+        call[0].endsWith('form4.xml')
+      );
+      expect(xmlCalls).toHaveLength(1);
+    });
+
+    it('should skip filings the company made as an owner of another issuer', async () => {
+      const otherIssuer = form4Xml.replace('<issuerCik>0000320193</issuerCik>', '<issuerCik>0000789019</issuerCik>');
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url.endsWith('/submissions/CIK0000320193.json')) {
+          return Promise.resolve({ ok: true, json: async () => submissionsFixture });
+        }
+        if (url.endsWith('/000114036123049089/form4.xml')) {
+          return Promise.resolve({ ok: true, text: async () => otherIssuer });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      expect(await adapter.getInsiderTransactions({ symbol: 'AAPL' })).toEqual([]);
+    });
+
+    it('should return no transactions when no Form 4 was filed in range', async () => {
+      const transactions = await adapter.getInsiderTransactions({
+        symbol: 'AAPL',
+        from: new Date('2024-01-01'),
+      });
+      expect(transactions).toEqual([]);
+    });
+  });
+
+  describe('13F holdings', () => {
+    const filingDirectory = 'https://www.sec.gov/Archives/edgar/data/1067983/';
+    const infoTables: Record<string, string> = {
+      '000095012324002518': infoTableQ4,
+      '000095012323011046': infoTableQ3,
+      '000095012323008074': infoTableQ3.replace('915560382', '915000000'),
+    };
+
+    beforeEach(() => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url.endsWith('/submissions/CIK0001067983.json')) {
+          return Promise.resolve({ ok: true, json: async () => filerSubmissionsFixture });
+        }
+        if (url.startsWith(filingDirectory)) {
+          const [accession, document] = url.slice(filingDirectory.length).split('/');
+          if (document === 'index.json') {
+            return Promise.resolve({
+              ok: true,
+              json: async () => ({
+                directory: {
+                  name: `/Archives/edgar/data/1067983/${accession}`,
+                  item: [
+                    { name: 'primary_doc.xml', type: 'text.gif', size: '2170' },
+                    { name: 'infotable.xml', type: 'text.gif', size: '22891' },
+                  ],
+                },
+              }),
+            });
+          }
+          if (document === 'infotable.xml') {
+            return Promise.resolve({ ok: true, text: async () => infoTables[accession!] });
+          }
+          if (document === 'primary_doc.xml') {
+            return Promise.resolve({
+              ok: true,
+              text: async () => '<coverPage><amendmentType>RESTATEMENT</amendmentType></coverPage>',
+            });
+          }
+        }
+        return Promise.reject(new Error(`Unknown URL ${url}`));
+      });
+    });
+
+    it('should return one report per quarter, most recent first', async () => {
+      const reports = await adapter.getInstitutionalHoldings({ cik: '1067983' });
+
+      expect(reports.map((r) => r.reportDate)).toEqual([
+        new Date('2023-12-31'),
+        new Date('2023-09-30'),
+        new Date('2023-06-30'),
+      ]);
+      expect(reports[0]).toMatchObject({
+        filerCik: '0001067983',
+        filerName: 'BERKSHIRE HATHAWAY INC',
+        accessionNumbers: ['0000950123-24-002518'],
+      });
+      expect(reports[0]?.holdings).toHaveLength(4);
+      expect(reports[1]?.holdings[0]?.shares).toBe(915560382);
+    });
+
+    it('should limit the number of quarters', async () => {
+      const reports = await adapter.getInstitutionalHoldings({ cik: '1067983', limit: 1 });
+      expect(reports).toHaveLength(1);
+    });
+
+    it('should filter filers to holders of a ticker with quarter-over-quarter changes', async () => {
+      const holders = await adapter.getHoldersAmongFilers({
+        symbol: 'AAPL',
+        filers: ['1067983'],
+      });
+
+      expect(holders).toEqual([
+        {
+          filerCik: '0001067983',
+          filerName: 'BERKSHIRE HATHAWAY INC',
+          reportDate: new Date('2023-12-31'),
+          shares: 850000000,
+          value: 164600000000,
+          previousShares: 915560382,
+          sharesChange: 850000000 - 915560382,
+          change: 'decreased',
+        },
+      ]);
+    });
+
+    it('should match holdings by CUSIP when given', async () => {
+      const holders = await adapter.getHoldersAmongFilers({
+        symbol: 'AAPL',
+        filers: ['1067983'],
+        cusip: '00507V109',
+      });
+
+      expect(holders[0]).toMatchObject({ shares: 0, previousShares: 14658121, change: 'exited' });
+    });
+
+    it('should reject unknown tickers', async () => {
+      await expect(
+        adapter.getHoldersAmongFilers({ symbol: 'UNKNOWN', filers: ['1067983'] })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+
+    it('should reject an empty filer list', async () => {
+      await expect(
+        adapter.getHoldersAmongFilers({ symbol: 'AAPL', filers: [] })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST', message: expect.stringContaining('No 13F filers') });
+    });
+  });
+
+  describe('frames', () => {
+    const framesBase = 'https://data.sec.gov/api/xbrl/frames/';
+
+    beforeEach(() => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes('company_tickers_exchange.json')) {
+          return Promise.resolve({ ok: true, json: async () => tickerMappingFixture });
+        }
+        if (url === `${framesBase}us-gaap/Revenues/USD/CY2023.json`) {
+          return Promise.resolve({ ok: true, json: async () => framesFixture });
+        }
+        if (url === `${framesBase}us-gaap/RevenueFromContractWithCustomerExcludingAssessedTax/USD/CY2023.json`) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({
+              ...framesFixture,
+              tag: 'RevenueFromContractWithCustomerExcludingAssessedTax',
+              data: [
+                { accn: 'a', cik: 320193, entityName: 'Apple Inc.', end: '2023-09-30', val: 383285000000 },
+                { accn: 'b', cik: 789019, entityName: 'MICROSOFT CORPORATION', end: '2023-12-31', val: 1 },
+              ],
+            }),
+          });
+        }
+        if (url.startsWith(framesBase)) {
+          return Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' });
+        }
+        return Promise.reject(new Error(`Unknown URL ${url}`));
+      });
+    });
+
+    it('should return a single-concept frame joined to tickers', async () => {
+      const frame = await adapter.getFrame({ tag: 'Revenues', period: 'CY2023' });
+
+      expect(frame.period).toBe('CY2023');
+      expect(frame.unit).toBe('USD');
+      expect(frame.label).toBe('Revenues');
+      expect(frame.data.map((d) => d.ticker)).toEqual(['GOOGL', 'MSFT', undefined]);
+    });
+
+    it('should reject frames with no data', async () => {
+      await expect(
+        adapter.getFrame({ tag: 'NotAConcept', period: 'CY2023' })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+
+    it('should not treat other HTTP failures as a frame with no data', async () => {
+      (global.fetch as any).mockImplementation(() =>
+        Promise.resolve({ ok: false, status: 500, statusText: 'HTTP 404 upstream' })
+      );
+
+      await expect(
+        adapter.getFrame({ tag: 'Revenues', period: 'CY2023' })
+      ).rejects.toMatchObject({ code: 'UNKNOWN' });
+    });
+
+    it('should reject invalid periods without fetching', async () => {
+      await expect(
+        adapter.getFrame({ tag: 'Revenues', period: 'FY2023' })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should merge a statement line across mapped concepts', async () => {
+      const frame = await adapter.getFieldFrame({
+        statement: 'income',
+        field: 'revenue',
+        period: 'CY2023',
+      });
+
+      expect(frame.data.map((d) => [d.ticker, d.tag])).toEqual([
+        ['AAPL', 'RevenueFromContractWithCustomerExcludingAssessedTax'],
+        ['GOOGL', 'Revenues'],
+        ['MSFT', 'Revenues'],
+        [undefined, 'Revenues'],
+      ]);
+    });
+  });
 });
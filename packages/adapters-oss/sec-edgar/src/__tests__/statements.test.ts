@@ -0,0 +1,353 @@
+import { describe, it, expect } from 'vitest';
+import { buildFinancialStatements } from '../statements';
+import type { CompanyFactsResponse, UnitFact } from '../types';
+import companyFactsFixture from './fixtures/company-facts-aapl.json';
+
+function companyFacts(
+  tags: Record<string, UnitFact[] | { unit: string; facts: UnitFact[] }>,
+  taxonomy: 'us-gaap' | 'ifrs-full' = 'us-gaap',
+  cik = '0000000001'
+): CompanyFactsResponse {
+  const concepts: NonNullable<CompanyFactsResponse['facts']['us-gaap']> = {};
+  for (const [tag, value] of Object.entries(tags)) {
+    const { unit, facts } = Array.isArray(value) ? { unit: 'USD', facts: value } : value;
+    concepts[tag] = { label: tag, description: tag, units: { [unit]: facts } };
+  }
+  return { cik, entityName: 'Test Corp', facts: { [taxonomy]: concepts } };
+}
+
+const fy = (start: string, end: string, val: number, filed = '2024-02-01', form = '10-K'): UnitFact => ({
+  start,
+  end,
+  val,
+  form,
+  filed,
+  fp: 'FY',
+  accn: `accn-${filed}`,
+});
+
+const q = (start: string, end: string, val: number, filed: string): UnitFact => ({
+  start,
+  end,
+  val,
+  form: '10-Q',
+  filed,
+  fp: 'Q1',
+  accn: `accn-${filed}`,
+});
+
+const instant = (end: string, val: number, filed: string, form = '10-K'): UnitFact => ({
+  end,
+  val,
+  form,
+  filed,
+  fp: form === '10-K' ? 'FY' : 'Q1',
+  accn: `accn-${filed}`,
+});
+
+describe('buildFinancialStatements', () => {
+  it('should build multi-year annual histories from the AAPL fixture', () => {
+    const { incomeStatements, balanceSheets, cashFlows } = buildFinancialStatements(
+      companyFactsFixture as CompanyFactsResponse
+    );
+
+    expect(incomeStatements.map((s) => s.revenue)).toEqual([383285000000, 394328000000]);
+    expect(incomeStatements.every((s) => s.period === 'annual')).toBe(true);
+    expect(
+      balanceSheets.filter((s) => s.period === 'annual').map((s) => s.totalAssets)
+    ).toEqual([352755000000, 352583000000]);
+    expect(cashFlows.map((s) => s.operatingCashFlow)).toEqual([110543000000, 122151000000]);
+  });
+
+  it('should separate annual and quarterly periods without reporting year-to-date facts', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          fy('2023-01-01', '2023-12-31', 400),
+          q('2024-01-01', '2024-03-31', 110, '2024-05-01'),
+          q('2024-04-01', '2024-06-30', 120, '2024-08-01'),
+          q('2024-01-01', '2024-06-30', 230, '2024-08-01'), // Six months YTD
+        ],
+      })
+    );
+
+    const annual = incomeStatements.filter((s) => s.period === 'annual');
+    const quarterly = incomeStatements.filter((s) => s.period === 'quarterly');
+
+    expect(annual.map((s) => s.revenue)).toEqual([400]);
+    expect(quarterly.map((s) => s.revenue)).toEqual([120, 110]);
+    expect(quarterly[0]?.date).toEqual(new Date('2024-06-30'));
+  });
+
+  it('should keep the most recently filed value for a period', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        NetIncomeLoss: [
+          fy('2023-01-01', '2023-12-31', 50, '2024-02-01'),
+          fy('2023-01-01', '2023-12-31', 45, '2024-06-01', '10-K/A'),
+          // Comparative in the following year's 10-K repeats the restated value
+          fy('2023-01-01', '2023-12-31', 45, '2025-02-01'),
+        ],
+      })
+    );
+
+    expect(incomeStatements).toHaveLength(1);
+    expect(incomeStatements[0]?.netIncome).toBe(45);
+  });
+
+  it('should ignore facts from non-periodic forms', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          fy('2023-01-01', '2023-12-31', 400),
+          fy('2023-01-01', '2023-12-31', 999, '2024-09-01', 'S-1'),
+        ],
+      })
+    );
+
+    expect(incomeStatements[0]?.revenue).toBe(400);
+  });
+
+  it('should fall back through revenue tags per period', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [fy('2017-01-01', '2017-12-31', 300, '2018-02-01')],
+        RevenueFromContractWithCustomerExcludingAssessedTax: [
+          fy('2018-01-01', '2018-12-31', 350, '2019-02-01'),
+        ],
+      })
+    );
+
+    expect(incomeStatements.map((s) => s.revenue)).toEqual([350, 300]);
+  });
+
+  it('should fill every income statement field', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [fy(...period, 1000)],
+        CostOfGoodsAndServicesSold: [fy(...period, 600)],
+        OperatingExpenses: [fy(...period, 150)],
+        OperatingIncomeLoss: [fy(...period, 250)],
+        NetIncomeLoss: [fy(...period, 200)],
+        EarningsPerShareBasic: { unit: 'USD/shares', facts: [fy(...period, 2.5)] },
+        EarningsPerShareDiluted: { unit: 'USD/shares', facts: [fy(...period, 2.4)] },
+      })
+    );
+
+    expect(incomeStatements[0]).toEqual({
+      date: new Date('2023-12-31'),
+      period: 'annual',
+      revenue: 1000,
+      costOfRevenue: 600,
+      grossProfit: 400, // Derived
+      operatingExpenses: 150,
+      operatingIncome: 250,
+      netIncome: 200,
+      eps: 2.5,
+      epsDiluted: 2.4,
+    });
+  });
+
+  it('should fill balance sheet fields including summed debt and cash', () => {
+    const { balanceSheets } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [fy('2023-01-01', '2023-12-31', 1000)],
+        Assets: [instant('2023-12-31', 5000, '2024-02-01'), instant('2024-03-31', 5100, '2024-05-01', '10-Q')],
+        AssetsCurrent: [instant('2023-12-31', 2000, '2024-02-01')],
+        Liabilities: [instant('2023-12-31', 3000, '2024-02-01')],
+        LiabilitiesCurrent: [instant('2023-12-31', 1000, '2024-02-01')],
+        StockholdersEquity: [instant('2023-12-31', 2000, '2024-02-01')],
+        LongTermDebtNoncurrent: [instant('2023-12-31', 900, '2024-02-01')],
+        LongTermDebtCurrent: [instant('2023-12-31', 100, '2024-02-01')],
+        CommercialPaper: [instant('2023-12-31', 50, '2024-02-01')],
+        CashAndCashEquivalentsAtCarryingValue: [instant('2023-12-31', 700, '2024-02-01')],
+      })
+    );
+
+    const annual = balanceSheets.filter((s) => s.period === 'annual');
+    expect(annual).toEqual([
+      {
+        date: new Date('2023-12-31'),
+        period: 'annual',
+        totalAssets: 5000,
+        currentAssets: 2000,
+        totalLiabilities: 3000,
+        currentLiabilities: 1000,
+        shareholdersEquity: 2000,
+        totalDebt: 1050,
+        cash: 700,
+      },
+    ]);
+
+    const quarterly = balanceSheets.filter((s) => s.period === 'quarterly');
+    expect(quarterly.map((s) => s.totalAssets)).toEqual([5100, 5000]);
+  });
+
+  it('should fill cash flow fields and derive free cash flow', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const { cashFlows } = buildFinancialStatements(
+      companyFacts({
+        NetCashProvidedByUsedInOperatingActivities: [fy(...period, 500)],
+        NetCashProvidedByUsedInInvestingActivities: [fy(...period, -200)],
+        NetCashProvidedByUsedInFinancingActivities: [fy(...period, -100)],
+        PaymentsToAcquirePropertyPlantAndEquipment: [fy(...period, 120)],
+      })
+    );
+
+    expect(cashFlows[0]).toEqual({
+      date: new Date('2023-12-31'),
+      period: 'annual',
+      operatingCashFlow: 500,
+      investingCashFlow: -200,
+      financingCashFlow: -100,
+      freeCashFlow: 380,
+      capitalExpenditures: 120,
+    });
+  });
+
+  it('should derive the fourth quarter from the annual and three quarterly figures', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          q('2023-01-01', '2023-03-31', 100, '2023-05-01'),
+          q('2023-04-01', '2023-06-30', 110, '2023-08-01'),
+          q('2023-07-01', '2023-09-30', 120, '2023-11-01'),
+          fy('2023-01-01', '2023-12-31', 460),
+        ],
+      })
+    );
+
+    const quarterly = incomeStatements.filter((s) => s.period === 'quarterly');
+    expect(quarterly.map((s) => s.revenue)).toEqual([130, 120, 110, 100]);
+    expect(quarterly[0]?.date).toEqual(new Date('2023-12-31'));
+  });
+
+  it('should not derive a fourth quarter when a quarter is missing', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          q('2023-01-01', '2023-03-31', 100, '2023-05-01'),
+          q('2023-07-01', '2023-09-30', 120, '2023-11-01'),
+          fy('2023-01-01', '2023-12-31', 460),
+        ],
+      })
+    );
+
+    const quarterly = incomeStatements.filter((s) => s.period === 'quarterly');
+    expect(quarterly.map((s) => s.revenue)).toEqual([120, 100]);
+  });
+
+  it('should sum the last four consecutive quarters into TTM statements', () => {
+    const { incomeStatements, cashFlows, balanceSheets } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          q('2023-01-01', '2023-03-31', 100, '2023-05-01'),
+          q('2023-04-01', '2023-06-30', 110, '2023-08-01'),
+          q('2023-07-01', '2023-09-30', 120, '2023-11-01'),
+          fy('2023-01-01', '2023-12-31', 460),
+          q('2024-01-01', '2024-03-31', 140, '2024-05-01'),
+        ],
+        // 10-Q cash flows are year-to-date: three, six and nine months
+        NetCashProvidedByUsedInOperatingActivities: [
+          q('2023-01-01', '2023-03-31', 5, '2023-05-01'),
+          q('2023-01-01', '2023-06-30', 15, '2023-08-01'),
+          q('2023-01-01', '2023-09-30', 35, '2023-11-01'),
+          fy('2023-01-01', '2023-12-31', 65),
+          q('2024-01-01', '2024-03-31', 40, '2024-05-01'),
+        ],
+        Assets: [instant('2024-03-31', 5100, '2024-05-01', '10-Q')],
+      })
+    );
+
+    const ttm = incomeStatements.filter((s) => s.period === 'ttm');
+    expect(ttm.map((s) => s.revenue)).toEqual([500, 460]);
+    expect(ttm[0]?.date).toEqual(new Date('2024-03-31'));
+
+    expect(
+      cashFlows.filter((s) => s.period === 'quarterly').map((s) => s.operatingCashFlow)
+    ).toEqual([40, 30, 20, 10, 5]);
+    expect(cashFlows.filter((s) => s.period === 'ttm').map((s) => s.operatingCashFlow)).toEqual([100, 65]);
+    expect(balanceSheets.filter((s) => s.period === 'ttm').map((s) => s.totalAssets)).toEqual([5100]);
+  });
+
+  it('should not sum quarters separated by a gap into TTM', () => {
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        Revenues: [
+          q('2022-07-01', '2022-09-30', 90, '2022-11-01'),
+          q('2023-04-01', '2023-06-30', 110, '2023-08-01'),
+          q('2023-07-01', '2023-09-30', 120, '2023-11-01'),
+          q('2023-10-01', '2023-12-31', 130, '2024-02-01'),
+        ],
+      })
+    );
+
+    expect(incomeStatements.filter((s) => s.period === 'ttm')).toEqual([]);
+  });
+
+  it('should source bank revenue from interest and noninterest income', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        InterestAndDividendIncomeOperating: [fy(...period, 900)],
+        NoninterestIncome: [fy(...period, 300)],
+        InterestExpense: [fy(...period, 400)],
+        NetIncomeLoss: [fy(...period, 200)],
+      })
+    );
+
+    // Interest expense is subtracted through its -1 sign
+    expect(incomeStatements[0]?.revenue).toBe(800);
+  });
+
+  it('should skip sums with unreported components', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const { incomeStatements } = buildFinancialStatements(
+      companyFacts({
+        PremiumsEarnedNet: [fy(...period, 700)],
+        RealEstateRevenueNet: [fy(...period, 650)],
+      })
+    );
+
+    expect(incomeStatements[0]?.revenue).toBe(650);
+  });
+
+  it('should try per-company concepts before the standard mapping', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const tags = {
+      Revenues: [fy(...period, 500)],
+      RevenuesNetOfInterestExpense: [fy(...period, 1500)],
+    };
+
+    expect(buildFinancialStatements(companyFacts(tags))
+      .incomeStatements[0]?.revenue).toBe(500);
+    expect(buildFinancialStatements(companyFacts(tags, 'us-gaap', '0000019617'))
+      .incomeStatements[0]?.revenue).toBe(1500);
+  });
+
+  it('should read ifrs-full facts in the reporting currency', () => {
+    const period = ['2023-01-01', '2023-12-31'] as const;
+    const { currency, incomeStatements, balanceSheets } = buildFinancialStatements(
+      companyFacts(
+        {
+          Revenue: { unit: 'EUR', facts: [fy(...period, 1000, '2024-03-01', '20-F')] },
+          ProfitLossAttributableToOwnersOfParent: {
+            unit: 'EUR',
+            facts: [fy(...period, 120, '2024-03-01', '20-F')],
+          },
+          BasicEarningsLossPerShare: {
+            unit: 'EUR/shares',
+            facts: [fy(...period, 1.2, '2024-03-01', '20-F')],
+          },
+          Assets: { unit: 'EUR', facts: [instant('2023-12-31', 4000, '2024-03-01', '20-F')] },
+        },
+        'ifrs-full'
+      )
+    );
+
+    expect(currency).toBe('EUR');
+    expect(incomeStatements[0]).toMatchObject({ revenue: 1000, netIncome: 120, eps: 1.2 });
+    expect(balanceSheets[0]?.totalAssets).toBe(4000);
+  });
+});
@@ -2,10 +2,18 @@
  * Ticker to CIK (Central Index Key) lookup for SEC EDGAR.
  */
 
-import type { CIK, TickerCIKMapping } from './types';
+import type {
+  CIK,
+  CompanySearchOptions,
+  CompanySearchResult,
+  TickerCIKMapping,
+} from './types';
+import { CompanyTickersExchangeResponseSchema } from './types';
 import { MemoryCache } from './cache';
+import type { SearchEntry } from './company-search';
+import { matchCompany, normalizeTicker, searchEntry } from './company-search';
 
-const SEC_TICKER_JSON_URL = 'https://www.sec.gov/files/company_tickers.json';
+const SEC_TICKER_JSON_URL = 'https://www.sec.gov/files/company_tickers_exchange.json';
 const USER_AGENT = 'Open Financial Terminal (https://github.com/borealBytes/open-fin-terminal)';
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
@@ -15,15 +23,17 @@ const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 export class CIKLookup {
   private cache = new MemoryCache();
   private mappingCache: Map<string, TickerCIKMapping> | null = null;
+  private tickersByCIK: Map<CIK, string[]> | null = null;
+  private searchEntries: SearchEntry[] | null = null;
 
   /**
    * Look up CIK by ticker symbol.
    * 
-   * @param ticker - Stock ticker (e.g., "AAPL")
+   * @param ticker - Stock ticker (e.g., "AAPL", "BRK.B")
    * @returns CIK with leading zeros, or null if not found
    */
   async getCIK(ticker: string): Promise<CIK | null> {
-    const normalizedTicker = ticker.toUpperCase().trim();
+    const normalizedTicker = normalizeTicker(ticker);
 
     // Check cache first
     const cached = this.cache.get<CIK>(`cik:${normalizedTicker}`);
@@ -31,12 +41,7 @@ export class CIKLookup {
       return cached;
     }
 
-    // Load ticker mappings if not already loaded
-    if (!this.mappingCache) {
-      await this.loadTickerMappings();
-    }
-
-    const mapping = this.mappingCache?.get(normalizedTicker);
+    const mapping = await this.getMapping(normalizedTicker);
     if (!mapping) {
       return null;
     }
@@ -46,6 +51,68 @@ export class CIKLookup {
     return mapping.cik;
   }
 
+  /**
+   * Look up the full mapping (CIK, company title, exchange) for a ticker.
+   *
+   * Share-class punctuation is normalized to SEC form, so "BRK.B",
+   * "BRK/B" and "BRK-B" resolve alike.
+   * 
+   * @param ticker - Stock ticker (e.g., "AAPL")
+   * @returns Mapping, or null if not found
+   */
+  async getMapping(ticker: string): Promise<TickerCIKMapping | null> {
+    // Load ticker mappings if not already loaded
+    if (!this.mappingCache) {
+      await this.loadTickerMappings();
+    }
+
+    return this.mappingCache?.get(normalizeTicker(ticker)) ?? null;
+  }
+
+  /**
+   * Search companies by ticker, company-name prefix and fuzzy name.
+   *
+   * Results are ranked by match strength (exact ticker, ticker prefix,
+   * name prefix, later name word, fuzzy), then by SEC listing order,
+   * which puts larger companies first.
+   *
+   * @param query - Ticker or company name, possibly partial or misspelled
+   * @param options - Search options
+   * @returns Matches, best first
+   */
+  async search(query: string, options: CompanySearchOptions = {}): Promise<CompanySearchResult[]> {
+    const { limit = 10 } = options;
+
+    if (!this.searchEntries) {
+      await this.loadTickerMappings();
+    }
+
+    const results: CompanySearchResult[] = [];
+    for (const entry of this.searchEntries ?? []) {
+      const match = matchCompany(query, entry);
+      if (match) {
+        results.push({ ...entry.mapping, ...match });
+      }
+    }
+
+    // Array.prototype.sort is stable, so ties keep listing order
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Look up the tickers for a CIK (reverse lookup).
+   * 
+   * @param cik - CIK (with or without leading zeros)
+   * @returns Tickers in SEC listing order (primary first), empty if none
+   */
+  async getTickers(cik: string | number): Promise<string[]> {
+    if (!this.mappingCache) {
+      await this.loadTickerMappings();
+    }
+
+    return this.tickersByCIK?.get(this.formatCIK(cik)) ?? [];
+  }
+
   /**
    * Format CIK with leading zeros (10 digits).
    * 
@@ -58,7 +125,7 @@ export class CIKLookup {
   }
 
   /**
-   * Load ticker to CIK mappings from SEC.
+   * Load ticker to CIK mappings, with exchanges, from SEC.
    */
   private async loadTickerMappings(): Promise<void> {
     try {
@@ -73,24 +140,37 @@ export class CIKLookup {
         throw new Error(`SEC ticker lookup failed: ${response.status} ${response.statusText}`);
       }
 
-      const data = await response.json() as Record<string, {
-        cik_str: number;
-        ticker: string;
-        title: string;
-      }>;
+      // Validate response structure
+      const data = CompanyTickersExchangeResponseSchema.parse(await response.json());
+      const column = (field: string) => data.fields.indexOf(field);
+      const [cikColumn, nameColumn, tickerColumn, exchangeColumn] =
+        ['cik', 'name', 'ticker', 'exchange'].map(column);
 
       this.mappingCache = new Map();
+      this.tickersByCIK = new Map();
+      this.searchEntries = [];
 
       // Convert to map for O(1) lookups
-      for (const entry of Object.values(data)) {
-        const cik = this.formatCIK(entry.cik_str);
-        const ticker = entry.ticker.toUpperCase();
-        
-        this.mappingCache.set(ticker, {
+      for (const row of data.data) {
+        const rawCik = row[cikColumn!];
+        const rawTicker = row[tickerColumn!];
+        if (rawCik == null || typeof rawTicker !== 'string') {
+          continue;
+        }
+
+        const cik = this.formatCIK(rawCik);
+        const ticker = normalizeTicker(rawTicker);
+        const exchange = row[exchangeColumn!];
+        const mapping: TickerCIKMapping = {
           ticker,
           cik,
-          title: entry.title,
-        });
+          title: String(row[nameColumn!] ?? ''),
+          exchange: typeof exchange === 'string' ? exchange : undefined,
+        };
+
+        this.mappingCache.set(ticker, mapping);
+        this.tickersByCIK.set(cik, [...(this.tickersByCIK.get(cik) ?? []), ticker]);
+        this.searchEntries.push(searchEntry(mapping));
       }
     } catch (error) {
       console.error('Failed to load SEC ticker mappings:', error);
@@ -104,5 +184,7 @@ export class CIKLookup {
   clearCache(): void {
     this.cache.clear();
     this.mappingCache = null;
+    this.tickersByCIK = null;
+    this.searchEntries = null;
   }
 }
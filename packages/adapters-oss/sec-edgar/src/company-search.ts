@@ -0,0 +1,185 @@
+/**
+ * Company search over the SEC ticker list.
+ *
+ * Ranks companies on ticker, company-name prefix and fuzzy name matches
+ * for symbol autocomplete.
+ */
+
+import type { CompanyMatchType, TickerCIKMapping } from './types';
+
+/**
+ * Minimum similarity (0-1) for a fuzzy match.
+ */
+const FUZZY_THRESHOLD = 0.7;
+
+/**
+ * Shortest query that is matched fuzzily; shorter typos match too much.
+ */
+const FUZZY_MIN_LENGTH = 3;
+
+/**
+ * A ticker mapping prepared for matching.
+ */
+export interface SearchEntry {
+  mapping: TickerCIKMapping;
+  /** Ticker without share-class punctuation (e.g. "BRKB") */
+  compactTicker: string;
+  /** Normalized company name (see {@link normalizeCompanyName}) */
+  name: string;
+  words: string[];
+}
+
+/**
+ * Normalize a ticker to SEC form: uppercase, share classes separated by
+ * a hyphen ("brk.b", "BRK/B" and "BRK B" all become "BRK-B").
+ */
+export function normalizeTicker(ticker: string): string {
+  return ticker.trim().toUpperCase().replace(/[.\/\s_]+/g, '-');
+}
+
+/**
+ * Normalize a company name for matching: uppercase, "&" spelled out,
+ * punctuation removed ("Procter & Gamble Co." becomes "PROCTER AND GAMBLE CO").
+ */
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Prepare a ticker mapping for matching.
+ */
+export function searchEntry(mapping: TickerCIKMapping): SearchEntry {
+  const name = normalizeCompanyName(mapping.title);
+  return {
+    mapping,
+    compactTicker: compact(mapping.ticker),
+    name,
+    words: name.split(' ').filter(Boolean),
+  };
+}
+
+/**
+ * Match a query against a company.
+ *
+ * Scores: exact ticker 100, ticker prefix 80-90, name prefix 70, prefix
+ * of a later word in the name 60, fuzzy name or ticker 35-50.
+ *
+ * @returns The strongest match, or null if the company does not match
+ */
+export function matchCompany(
+  query: string,
+  entry: SearchEntry
+): { matchType: CompanyMatchType; score: number } | null {
+  const name = normalizeCompanyName(query);
+  const ticker = compact(query);
+  if (!name) {
+    return null;
+  }
+
+  if (ticker === entry.compactTicker) {
+    return { matchType: 'ticker', score: 100 };
+  }
+  if (!name.includes(' ') && entry.compactTicker.startsWith(ticker)) {
+    return {
+      matchType: 'tickerPrefix',
+      score: Math.max(80, 90 - (entry.compactTicker.length - ticker.length)),
+    };
+  }
+  if (entry.name.startsWith(name)) {
+    return { matchType: 'namePrefix', score: 70 };
+  }
+  if (entry.name.includes(` ${name}`)) {
+    return { matchType: 'nameWord', score: 60 };
+  }
+
+  if (name.length < FUZZY_MIN_LENGTH) {
+    return null;
+  }
+  const similarity = Math.max(
+    nameSimilarity(name, entry.words),
+    fuzzySimilarity(ticker, entry.compactTicker)
+  );
+  return similarity >= FUZZY_THRESHOLD
+    ? { matchType: 'fuzzy', score: Math.round(50 * similarity) }
+    : null;
+}
+
+/**
+ * Best similarity between a query and runs of consecutive name words with
+ * as many words as the query, comparing whole runs and runs cut to the
+ * query's length (for partially typed names).
+ */
+function nameSimilarity(query: string, words: string[]): number {
+  const wordCount = query.split(' ').length;
+  let best = 0;
+  for (let i = 0; i + wordCount <= words.length; i++) {
+    const run = words.slice(i, i + wordCount).join(' ');
+    best = Math.max(
+      best,
+      fuzzySimilarity(query, run),
+      fuzzySimilarity(query, run.slice(0, query.length))
+    );
+  }
+  return best;
+}
+
+/**
+ * Similarity of a query and a candidate, or 0 without computing the edit
+ * distance when the candidate cannot reach {@link FUZZY_THRESHOLD}.
+ *
+ * Search runs this against every company, so candidates are first
+ * required to start with the query's first letter (typos rarely fall on
+ * it) and to be close enough in length: the edit distance is at least
+ * the difference in length.
+ */
+function fuzzySimilarity(query: string, candidate: string): number {
+  const length = Math.max(query.length, candidate.length);
+  if (
+    query[0] !== candidate[0] ||
+    Math.abs(query.length - candidate.length) > (1 - FUZZY_THRESHOLD) * length
+  ) {
+    return 0;
+  }
+  return similarityRatio(query, candidate);
+}
+
+/**
+ * 1 minus the edit distance (with adjacent transpositions) relative to
+ * the longer string.
+ */
+function similarityRatio(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0]![j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = rows[i]!;
+    const prev = rows[i - 1]!;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j]!, rows[i - 2]![j - 2]! + 1);
+      }
+    }
+  }
+  return rows[a.length]![b.length]!;
+}
+
+function compact(ticker: string): string {
+  return ticker.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
@@ -0,0 +1,283 @@
+/**
+ * XBRL concept mapping for SEC EDGAR company facts.
+ *
+ * Declares, for every standard statement line, the ordered list of
+ * us-gaap and ifrs-full concepts it can be sourced from. The first
+ * source reported for a period wins, so more specific concepts come
+ * first and industry-specific fallbacks (banks, REITs, insurers) last.
+ */
+
+import type {
+  IncomeStatement,
+  BalanceSheet,
+  CashFlowStatement,
+} from '@open-fin-terminal/shared';
+import type { CIK } from './types';
+
+/**
+ * XBRL taxonomies read from company facts.
+ *
+ * us-gaap covers domestic filers; ifrs-full covers foreign private
+ * issuers filing 20-F/40-F.
+ */
+export type Taxonomy = 'us-gaap' | 'ifrs-full';
+
+/**
+ * A single XBRL concept.
+ */
+export interface ConceptTag {
+  taxonomy: Taxonomy;
+  tag: string;
+  /**
+   * Multiplier converting the reported value to the field's sign
+   * convention (default: 1). Use -1 for concepts reported with the
+   * opposite sign, e.g. an expense subtracted in a sum.
+   */
+  sign?: 1 | -1;
+}
+
+/**
+ * A sum of concepts reported for the same period.
+ */
+export interface ConceptSum {
+  sum: ConceptTag[];
+  /**
+   * Sum whichever components are reported instead of requiring all of
+   * them (default: false)
+   */
+  partial?: boolean;
+}
+
+/**
+ * Where a field value can come from: one concept or a sum of concepts.
+ */
+export type ConceptSource = ConceptTag | ConceptSum;
+
+/**
+ * How a statement line is sourced from XBRL concepts.
+ */
+export interface ConceptMapping {
+  /** Sources in priority order; the first reported for a period wins */
+  sources: ConceptSource[];
+  /** Kind of unit the values are reported in (default: 'monetary') */
+  unit?: 'monetary' | 'perShare';
+}
+
+export type IncomeField = Exclude<keyof IncomeStatement, 'date' | 'period'>;
+export type BalanceField = Exclude<keyof BalanceSheet, 'date' | 'period'>;
+export type CashFlowField = Exclude<keyof CashFlowStatement, 'date' | 'period'>;
+
+/**
+ * Concept mappings for every statement line.
+ */
+export interface ConceptMap {
+  income: Record<IncomeField, ConceptMapping>;
+  balance: Record<BalanceField, ConceptMapping>;
+  cashFlow: Record<CashFlowField, ConceptMapping>;
+}
+
+/**
+ * Additional sources for a company, tried before the standard ones.
+ */
+export interface CompanyConcepts {
+  income?: Partial<Record<IncomeField, ConceptSource[]>>;
+  balance?: Partial<Record<BalanceField, ConceptSource[]>>;
+  cashFlow?: Partial<Record<CashFlowField, ConceptSource[]>>;
+}
+
+const gaap = (tag: string, sign?: 1 | -1): ConceptTag => ({ taxonomy: 'us-gaap', tag, sign });
+const ifrs = (tag: string, sign?: 1 | -1): ConceptTag => ({ taxonomy: 'ifrs-full', tag, sign });
+
+/**
+ * Standard concept mapping.
+ *
+ * Sign conventions follow the statements: expenses, capital expenditures
+ * and debt are positive; cash flows are negative for net outflows.
+ * Gross profit and free cash flow are derived when no source is reported.
+ */
+export const CONCEPT_MAP: ConceptMap = {
+  income: {
+    revenue: {
+      sources: [
+        gaap('Revenues'),
+        gaap('RevenueFromContractWithCustomerExcludingAssessedTax'),
+        gaap('RevenueFromContractWithCustomerIncludingAssessedTax'),
+        gaap('SalesRevenueNet'),
+        // Banks
+        gaap('RevenuesNetOfInterestExpense'),
+        { sum: [gaap('InterestIncomeExpenseNet'), gaap('NoninterestIncome')] },
+        {
+          sum: [
+            gaap('InterestAndDividendIncomeOperating'),
+            gaap('NoninterestIncome'),
+            gaap('InterestExpense', -1),
+          ],
+        },
+        // REITs
+        gaap('RealEstateRevenueNet'),
+        gaap('OperatingLeasesIncomeStatementLeaseRevenue'),
+        gaap('OperatingLeaseLeaseIncome'),
+        // Insurers
+        { sum: [gaap('PremiumsEarnedNet'), gaap('NetInvestmentIncome')] },
+        ifrs('Revenue'),
+        ifrs('RevenueFromContractsWithCustomers'),
+      ],
+    },
+    costOfRevenue: {
+      sources: [
+        gaap('CostOfRevenue'),
+        gaap('CostOfGoodsAndServicesSold'),
+        gaap('CostOfGoodsSold'),
+        ifrs('CostOfSales'),
+      ],
+    },
+    grossProfit: { sources: [gaap('GrossProfit'), ifrs('GrossProfit')] },
+    operatingExpenses: { sources: [gaap('OperatingExpenses')] },
+    operatingIncome: {
+      sources: [gaap('OperatingIncomeLoss'), ifrs('ProfitLossFromOperatingActivities')],
+    },
+    netIncome: {
+      sources: [
+        gaap('NetIncomeLoss'),
+        gaap('ProfitLoss'),
+        gaap('NetIncomeLossAvailableToCommonStockholdersBasic'),
+        ifrs('ProfitLossAttributableToOwnersOfParent'),
+        ifrs('ProfitLoss'),
+      ],
+    },
+    eps: {
+      sources: [gaap('EarningsPerShareBasic'), ifrs('BasicEarningsLossPerShare')],
+      unit: 'perShare',
+    },
+    epsDiluted: {
+      sources: [gaap('EarningsPerShareDiluted'), ifrs('DilutedEarningsLossPerShare')],
+      unit: 'perShare',
+    },
+  },
+  balance: {
+    totalAssets: { sources: [gaap('Assets'), ifrs('Assets')] },
+    currentAssets: { sources: [gaap('AssetsCurrent'), ifrs('CurrentAssets')] },
+    totalLiabilities: { sources: [gaap('Liabilities'), ifrs('Liabilities')] },
+    currentLiabilities: { sources: [gaap('LiabilitiesCurrent'), ifrs('CurrentLiabilities')] },
+    shareholdersEquity: {
+      sources: [
+        gaap('StockholdersEquity'),
+        gaap('StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest'),
+        ifrs('EquityAttributableToOwnersOfParent'),
+        ifrs('Equity'),
+      ],
+    },
+    totalDebt: {
+      sources: [
+        {
+          sum: [
+            gaap('LongTermDebtNoncurrent'),
+            gaap('LongTermDebtCurrent'),
+            gaap('CommercialPaper'),
+            gaap('ShortTermBorrowings'),
+          ],
+          partial: true,
+        },
+        gaap('LongTermDebt'),
+        gaap('DebtInstrumentCarryingAmount'),
+        { sum: [ifrs('NoncurrentBorrowings'), ifrs('CurrentBorrowings')], partial: true },
+        ifrs('Borrowings'),
+      ],
+    },
+    cash: {
+      sources: [
+        gaap('CashAndCashEquivalentsAtCarryingValue'),
+        gaap('CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents'),
+        gaap('CashAndDueFromBanks'),
+        ifrs('CashAndCashEquivalents'),
+      ],
+    },
+  },
+  cashFlow: {
+    operatingCashFlow: {
+      sources: [
+        gaap('NetCashProvidedByUsedInOperatingActivities'),
+        ifrs('CashFlowsFromUsedInOperatingActivities'),
+      ],
+    },
+    investingCashFlow: {
+      sources: [
+        gaap('NetCashProvidedByUsedInInvestingActivities'),
+        ifrs('CashFlowsFromUsedInInvestingActivities'),
+      ],
+    },
+    financingCashFlow: {
+      sources: [
+        gaap('NetCashProvidedByUsedInFinancingActivities'),
+        ifrs('CashFlowsFromUsedInFinancingActivities'),
+      ],
+    },
+    capitalExpenditures: {
+      sources: [
+        gaap('PaymentsToAcquirePropertyPlantAndEquipment'),
+        gaap('PaymentsToAcquireProductiveAssets'),
+        ifrs('PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities'),
+        ifrs('PurchaseOfPropertyPlantAndEquipment'),
+      ],
+    },
+    freeCashFlow: { sources: [] }, // Derived: operating cash flow - capex
+  },
+};
+
+/**
+ * Per-company sources keyed by 10-digit CIK, for filers whose statement
+ * lines use concepts the standard mapping would miss or rank too low.
+ */
+export const COMPANY_CONCEPTS: Record<CIK, CompanyConcepts> = {
+  // JPMorgan Chase: "Total net revenue" is reported net of interest expense
+  '0000019617': {
+    income: { revenue: [gaap('RevenuesNetOfInterestExpense')] },
+  },
+  // Bank of America: "Total revenue, net of interest expense"
+  '0000070858': {
+    income: { revenue: [gaap('RevenuesNetOfInterestExpense')] },
+  },
+};
+
+/**
+ * Build the concept mapping for a company: its own sources first, then
+ * the standard ones.
+ *
+ * @param company - Per-company sources, if any
+ * @param base - Standard mapping (default: CONCEPT_MAP)
+ */
+export function resolveConceptMap(
+  company: CompanyConcepts | undefined,
+  base: ConceptMap = CONCEPT_MAP
+): ConceptMap {
+  if (!company) {
+    return base;
+  }
+
+  return {
+    income: prependSources(base.income, company.income),
+    balance: prependSources(base.balance, company.balance),
+    cashFlow: prependSources(base.cashFlow, company.cashFlow),
+  };
+}
+
+/**
+ * Check whether a source is a sum of concepts.
+ */
+export function isConceptSum(source: ConceptSource): source is ConceptSum {
+  return 'sum' in source;
+}
+
+function prependSources<F extends string>(
+  mappings: Record<F, ConceptMapping>,
+  extra: Partial<Record<F, ConceptSource[]>> | undefined
+): Record<F, ConceptMapping> {
+  const result = { ...mappings };
+  for (const field of Object.keys(extra ?? {}) as F[]) {
+    const sources = extra?.[field];
+    if (sources) {
+      result[field] = { ...mappings[field], sources: [...sources, ...mappings[field].sources] };
+    }
+  }
+  return result;
+}
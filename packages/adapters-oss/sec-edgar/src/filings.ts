@@ -0,0 +1,74 @@
+/**
+ * Filings index from SEC EDGAR submissions.
+ *
+ * Turns the submissions API's columnar filing lists into typed filings
+ * and applies form/date filters.
+ */
+
+import type { CIK, Filing, FilingsParams, SubmissionsFilingColumns } from './types';
+
+const SEC_ARCHIVES_BASE = 'https://www.sec.gov/Archives/edgar/data';
+
+/**
+ * Convert columnar submissions data into filings.
+ *
+ * @param cik - Company CIK (10 digits)
+ * @param columns - Filing columns from the submissions API
+ * @returns Filings in the order listed (most recent first)
+ */
+export function parseFilings(cik: CIK, columns: SubmissionsFilingColumns): Filing[] {
+  return columns.accessionNumber.map((accessionNumber, i) => {
+    const primaryDocument = columns.primaryDocument[i] ?? '';
+    const reportDate = columns.reportDate[i];
+    const description = columns.primaryDocDescription[i];
+
+    return {
+      cik,
+      accessionNumber,
+      form: columns.form[i] ?? '',
+      filingDate: new Date(columns.filingDate[i] ?? ''),
+      reportDate: reportDate ? new Date(reportDate) : undefined,
+      primaryDocument,
+      description: description || undefined,
+      primaryDocumentUrl: primaryDocumentUrl(cik, accessionNumber, primaryDocument),
+    };
+  });
+}
+
+/**
+ * Build the archive URL of a filing's primary document.
+ *
+ * @example
+ * primaryDocumentUrl('0000320193', '0000320193-23-000106', 'aapl-20230930.htm')
+ * // https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/aapl-20230930.htm
+ */
+export function primaryDocumentUrl(cik: CIK, accessionNumber: string, primaryDocument: string): string {
+  return `${filingDirectoryUrl(cik, accessionNumber)}/${primaryDocument}`;
+}
+
+/**
+ * Build the archive URL of a filing's directory (holding `index.json`
+ * and every document in the filing).
+ */
+export function filingDirectoryUrl(cik: CIK, accessionNumber: string): string {
+  return `${SEC_ARCHIVES_BASE}/${Number(cik)}/${accessionNumber.replace(/-/g, '')}`;
+}
+
+/**
+ * Apply form, date and limit filters, most recent first.
+ */
+export function filterFilings(
+  filings: Filing[],
+  params: Pick<FilingsParams, 'forms' | 'from' | 'to' | 'limit'>
+): Filing[] {
+  const { forms, from, to, limit } = params;
+  const formSet = forms ? new Set(forms.map((form) => form.toUpperCase())) : null;
+
+  const filtered = filings
+    .filter((filing) => !formSet || formSet.has(filing.form.toUpperCase()))
+    .filter((filing) => !from || filing.filingDate >= from)
+    .filter((filing) => !to || filing.filingDate <= to)
+    .sort((a, b) => b.filingDate.getTime() - a.filingDate.getTime());
+
+  return limit === undefined ? filtered : filtered.slice(0, limit);
+}
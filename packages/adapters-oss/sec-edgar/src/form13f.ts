@@ -0,0 +1,207 @@
+/**
+ * SEC Form 13F-HR (institutional holdings) parsing and aggregation.
+ */
+
+import type {
+  CIK,
+  Filing,
+  FilingIndex,
+  Holding13F,
+  Holdings13FReport,
+  InstitutionalHolder,
+} from './types';
+import { elements, number, stripNamespacePrefixes, text } from './xml';
+
+/**
+ * First filing date on which 13F values are reported in dollars; earlier
+ * filings report thousands of dollars.
+ */
+const VALUES_IN_DOLLARS_FROM = new Date('2023-01-03');
+
+/**
+ * A 13F-HR filing's parsed contents.
+ */
+export interface Parsed13F {
+  filing: Filing;
+  holdings: Holding13F[];
+  /** Set for amendments: "RESTATEMENT" replaces, "NEW HOLDINGS" adds */
+  amendmentType?: string;
+}
+
+/**
+ * Pick the information table document from a 13F filing's directory.
+ *
+ * The cover page is always `primary_doc.xml`; the information table is
+ * the other XML document, whose name varies by filer.
+ */
+export function informationTableDocument(index: FilingIndex): string | undefined {
+  return index.directory.item
+    .map((item) => item.name)
+    .find((name) => /\.xml$/i.test(name) && name.toLowerCase() !== 'primary_doc.xml');
+}
+
+/**
+ * Read the amendment type from a 13F cover page (`primary_doc.xml`).
+ */
+export function parseAmendmentType(xml: string): string | undefined {
+  return text(stripNamespacePrefixes(xml), 'amendmentType')?.toUpperCase();
+}
+
+/**
+ * Parse a 13F information table.
+ *
+ * @param xml - Information table XML
+ * @param filingDate - Filing date (values before 2023-01-03 are in thousands)
+ * @returns Holdings with values in dollars
+ */
+export function parseInformationTable(xml: string, filingDate: Date): Holding13F[] {
+  const multiplier = filingDate < VALUES_IN_DOLLARS_FROM ? 1000 : 1;
+
+  return elements(stripNamespacePrefixes(xml), 'infoTable').map((row) => {
+    const putCall = text(row, 'putCall')?.toLowerCase();
+    const amount = elements(row, 'shrsOrPrnAmt')[0] ?? '';
+
+    return {
+      cusip: (text(row, 'cusip') ?? '').toUpperCase(),
+      issuer: text(row, 'nameOfIssuer') ?? '',
+      titleOfClass: text(row, 'titleOfClass') ?? '',
+      value: (number(text(row, 'value')) ?? 0) * multiplier,
+      shares: number(text(amount, 'sshPrnamt')) ?? 0,
+      shareType: text(amount, 'sshPrnamtType') === 'PRN' ? 'PRN' : 'SH',
+      putCall: putCall === 'put' || putCall === 'call' ? putCall : undefined,
+      investmentDiscretion: text(row, 'investmentDiscretion'),
+    };
+  });
+}
+
+/**
+ * Combine a quarter's original filing and amendments into one report.
+ *
+ * Filings are applied in filing order: restatements replace the holdings
+ * so far, "new holdings" amendments add to them.
+ */
+export function buildQuarterReport(
+  filerCik: CIK,
+  filerName: string,
+  reportDate: Date,
+  parts: Parsed13F[]
+): Holdings13FReport {
+  const ordered = [...parts].sort(
+    (a, b) => a.filing.filingDate.getTime() - b.filing.filingDate.getTime()
+  );
+
+  let holdings: Holding13F[] = [];
+  for (const part of ordered) {
+    holdings = part.amendmentType === 'NEW HOLDINGS'
+      ? [...holdings, ...part.holdings]
+      : part.holdings;
+  }
+
+  const latest = ordered[ordered.length - 1];
+  return {
+    filerCik,
+    filerName,
+    reportDate,
+    filingDate: latest ? latest.filing.filingDate : reportDate,
+    accessionNumbers: ordered.map((part) => part.filing.accessionNumber),
+    holdings,
+    totalValue: holdings.reduce((total, holding) => total + holding.value, 0),
+  };
+}
+
+/**
+ * Compare a filer's position in a security across its two latest reports.
+ *
+ * Option rows (puts and calls) are excluded; rows for the same security
+ * (e.g. split by investment discretion) are summed.
+ *
+ * @param reports - The filer's reports, most recent first
+ * @param matches - Whether a holding is the security
+ * @returns The position, or null if the filer held it in neither quarter
+ */
+export function holderPosition(
+  reports: Holdings13FReport[],
+  matches: (holding: Holding13F) => boolean
+): InstitutionalHolder | null {
+  const [latest, previous] = reports;
+  if (!latest) {
+    return null;
+  }
+
+  const position = (report: Holdings13FReport | undefined) => {
+    const rows = (report?.holdings ?? []).filter((h) => !h.putCall && matches(h));
+    return {
+      held: rows.length > 0,
+      shares: rows.reduce((total, h) => total + h.shares, 0),
+      value: rows.reduce((total, h) => total + h.value, 0),
+    };
+  };
+
+  const current = position(latest);
+  const prior = position(previous);
+  if (!current.held && !prior.held) {
+    return null;
+  }
+
+  const sharesChange = current.shares - prior.shares;
+  let change: InstitutionalHolder['change'];
+  if (!current.held) change = 'exited';
+  else if (!prior.held) change = 'new';
+  else if (sharesChange > 0) change = 'increased';
+  else if (sharesChange < 0) change = 'decreased';
+  else change = 'unchanged';
+
+  return {
+    filerCik: latest.filerCik,
+    filerName: latest.filerName,
+    reportDate: latest.reportDate,
+    shares: current.shares,
+    value: current.value,
+    previousShares: prior.shares,
+    sharesChange,
+    change,
+  };
+}
+
+/**
+ * Whether a 13F issuer name refers to the company with the given SEC title.
+ *
+ * Compares names with punctuation and common corporate suffixes removed
+ * (e.g. "APPLE INC" and "Apple Inc." both become "APPLE").
+ */
+export function issuerMatches(issuer: string, companyTitle: string): boolean {
+  const normalized = normalizeIssuer(issuer);
+  return normalized !== '' && normalized === normalizeIssuer(companyTitle);
+}
+
+const CORPORATE_SUFFIXES = new Set([
+  'INC',
+  'INCORPORATED',
+  'CORP',
+  'CORPORATION',
+  'CO',
+  'COMPANY',
+  'LTD',
+  'LIMITED',
+  'PLC',
+  'LLC',
+  'LP',
+  'NV',
+  'SA',
+  'AG',
+  'HLDGS',
+  'HOLDINGS',
+  'THE',
+  'DEL',
+  'NEW',
+]);
+
+function normalizeIssuer(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !CORPORATE_SUFFIXES.has(word))
+    .join(' ');
+}
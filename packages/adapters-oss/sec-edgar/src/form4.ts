@@ -0,0 +1,96 @@
+/**
+ * SEC Form 4 (statement of changes in beneficial ownership) parsing.
+ *
+ * Form 4 filings are small, flat XML documents read with the targeted
+ * element matching in ./xml.
+ */
+
+import type { InsiderRelationship, InsiderTransaction } from '@open-fin-terminal/shared';
+import type { Filing } from './types';
+import { elements, number, text, value } from './xml';
+
+/**
+ * URL of a Form 4 filing's raw XML.
+ *
+ * The submissions API lists the XSL-rendered HTML view (e.g.
+ * "xslF345X05/form4.xml"); the raw XML sits beside it without the
+ * stylesheet directory.
+ */
+export function form4XmlUrl(filing: Filing): string {
+  return filing.primaryDocumentUrl.replace(/\/xsl[^/]+\/([^/]+)$/, '/$1');
+}
+
+/**
+ * Parse the transactions reported in a Form 4 XML document.
+ *
+ * Transactions are attributed to the first reporting owner. Holdings-only
+ * rows (no transaction) are skipped. A company's Form 4 list also holds
+ * filings it made as the reporting owner of another issuer's shares;
+ * documents whose issuer CIK is not the filing's CIK have no transactions.
+ *
+ * @param xml - Form 4 XML
+ * @param symbol - Issuer symbol to attach to each transaction
+ * @param filing - Filing the document belongs to
+ * @returns Non-derivative transactions followed by derivative transactions
+ */
+export function parseForm4(xml: string, symbol: string, filing: Filing): InsiderTransaction[] {
+  const issuerCik = text(elements(xml, 'issuer')[0] ?? '', 'issuerCik');
+  if (issuerCik && Number(issuerCik) !== Number(filing.cik)) {
+    return [];
+  }
+
+  const owner = elements(xml, 'reportingOwner')[0] ?? '';
+  const insiderName = text(owner, 'rptOwnerName') ?? '';
+  const insiderCik = text(owner, 'rptOwnerCik');
+  const relationship = parseRelationship(elements(owner, 'reportingOwnerRelationship')[0] ?? '');
+
+  const rows = [
+    ...elements(xml, 'nonDerivativeTransaction').map((row) => ({ row, isDerivative: false })),
+    ...elements(xml, 'derivativeTransaction').map((row) => ({ row, isDerivative: true })),
+  ];
+
+  const transactions: InsiderTransaction[] = [];
+  for (const { row, isDerivative } of rows) {
+    const transactionDate = value(row, 'transactionDate');
+    const transactionCode = text(row, 'transactionCode');
+    const shares = number(value(row, 'transactionShares'));
+    if (!transactionDate || !transactionCode || shares === undefined) {
+      continue;
+    }
+
+    transactions.push({
+      symbol,
+      insiderName,
+      insiderCik,
+      relationship,
+      securityTitle: value(row, 'securityTitle') ?? '',
+      isDerivative,
+      transactionDate: new Date(transactionDate),
+      filingDate: filing.filingDate,
+      transactionCode,
+      acquiredDisposed: value(row, 'transactionAcquiredDisposedCode') === 'D' ? 'D' : 'A',
+      shares,
+      price: number(value(row, 'transactionPricePerShare')),
+      sharesOwnedAfter: number(value(row, 'sharesOwnedFollowingTransaction')),
+      ownership: value(row, 'directOrIndirectOwnership') === 'I' ? 'indirect' : 'direct',
+      accessionNumber: filing.accessionNumber,
+    });
+  }
+
+  return transactions;
+}
+
+function parseRelationship(xml: string): InsiderRelationship {
+  return {
+    isDirector: flag(text(xml, 'isDirector')),
+    isOfficer: flag(text(xml, 'isOfficer')),
+    officerTitle: text(xml, 'officerTitle'),
+    isTenPercentOwner: flag(text(xml, 'isTenPercentOwner')),
+    isOther: flag(text(xml, 'isOther')),
+    otherText: text(xml, 'otherText'),
+  };
+}
+
+function flag(raw: string | undefined): boolean {
+  return raw === '1' || raw?.toLowerCase() === 'true';
+}
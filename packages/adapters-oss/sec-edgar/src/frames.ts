@@ -0,0 +1,88 @@
+/**
+ * Cross-sectional datasets from the SEC EDGAR XBRL frames API.
+ *
+ * A frame holds one concept for every filer in a calendar period; frames
+ * are joined back to tickers and, for standard statement lines, merged
+ * across the concepts in the concept map.
+ */
+
+import type { ConceptMapping, ConceptTag } from './concepts';
+import { isConceptSum } from './concepts';
+import type { CIK, FrameDatum, FramesResponse } from './types';
+
+/**
+ * Calendar period formats accepted by the frames API.
+ */
+const FRAME_PERIOD = /^CY\d{4}(Q[1-4]I?)?$/;
+
+/**
+ * Check a frames API calendar period ("CY2024", "CY2024Q1", "CY2024Q1I").
+ */
+export function isFramePeriod(period: string): boolean {
+  return FRAME_PERIOD.test(period);
+}
+
+/**
+ * Frames API unit for a concept mapping (us-gaap filers report in USD).
+ */
+export function frameUnit(mapping: ConceptMapping): string {
+  return mapping.unit === 'perShare' ? 'USD-per-shares' : 'USD';
+}
+
+/**
+ * us-gaap concepts of a mapping that can be read from frames, in
+ * priority order. Sums need every component per company and are left out.
+ */
+export function frameTags(mapping: ConceptMapping): ConceptTag[] {
+  return mapping.sources.filter(
+    (source): source is ConceptTag => !isConceptSum(source) && source.taxonomy === 'us-gaap'
+  );
+}
+
+/**
+ * Convert a frames response into data joined to tickers.
+ *
+ * @param response - Frames API response
+ * @param tickersByCIK - Tickers per 10-digit CIK (primary first)
+ * @param sign - Multiplier applied to every value (default: 1)
+ */
+export function frameData(
+  response: FramesResponse,
+  tickersByCIK: Map<CIK, string[]>,
+  sign: 1 | -1 = 1
+): FrameDatum[] {
+  return response.data.map((datum) => {
+    const cik = String(datum.cik).padStart(10, '0');
+    const tickers = tickersByCIK.get(cik) ?? [];
+
+    return {
+      cik,
+      ticker: tickers[0],
+      tickers,
+      entityName: datum.entityName,
+      location: datum.loc,
+      end: new Date(datum.end),
+      value: datum.val * sign,
+      accessionNumber: datum.accn,
+      tag: response.tag,
+    };
+  });
+}
+
+/**
+ * Merge frames of alternative concepts: for each company, the first
+ * frame (in priority order) that has a value wins.
+ *
+ * @returns One datum per company, largest value first
+ */
+export function mergeFrameData(framesInPriorityOrder: FrameDatum[][]): FrameDatum[] {
+  const byCIK = new Map<CIK, FrameDatum>();
+  for (const data of framesInPriorityOrder) {
+    for (const datum of data) {
+      if (!byCIK.has(datum.cik)) {
+        byCIK.set(datum.cik, datum);
+      }
+    }
+  }
+  return Array.from(byCIK.values()).sort((a, b) => b.value - a.value);
+}
@@ -6,6 +6,10 @@
 
 export { SECEdgarAdapter } from './sec-edgar.adapter';
 export { CIKLookup } from './cik-lookup';
+export { SEC_SYMBOLOGY } from './symbology';
+export { normalizeTicker, normalizeCompanyName } from './company-search';
 export { TokenBucketLimiter } from './rate-limiter';
 export { MemoryCache } from './cache';
+export { CONCEPT_MAP, COMPANY_CONCEPTS, resolveConceptMap } from './concepts';
+export type * from './concepts';
 export type * from './types';
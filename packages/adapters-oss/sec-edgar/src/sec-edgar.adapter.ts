@@ -1,7 +1,8 @@
 /**
- * SEC EDGAR data adapter for company fundamentals.
+ * SEC EDGAR data adapter for company fundamentals and filings.
  * 
- * Fetches financial data from SEC EDGAR's Company Facts API.
+ * Fetches financial data from SEC EDGAR's Company Facts API and filing
+ * indexes from the Submissions API.
  * 
  * @see https://www.sec.gov/edgar/sec-api-documentation
  */
@@ -13,29 +14,84 @@ import type {
   QuoteParams,
   HistoricalPriceParams,
   FundamentalsParams,
+  InsiderTransactionsParams,
 } from '@open-fin-terminal/adapters';
 import { AdapterError } from '@open-fin-terminal/adapters';
-import type { Quote, HistoricalPrice, Fundamentals, IncomeStatement, BalanceSheet, CashFlowStatement } from '@open-fin-terminal/shared';
+import type {
+  Quote,
+  HistoricalPrice,
+  Fundamentals,
+  Period,
+  InsiderTransaction,
+} from '@open-fin-terminal/shared';
+import { toProviderSymbol } from '@open-fin-terminal/shared';
 import { CIKLookup } from './cik-lookup';
 import { TokenBucketLimiter } from './rate-limiter';
 import { MemoryCache } from './cache';
-import type { CompanyFactsResponse, UnitFact } from './types';
-import { CompanyFactsResponseSchema } from './types';
+import { buildFinancialStatements } from './statements';
+import { filingDirectoryUrl, filterFilings, parseFilings } from './filings';
+import { form4XmlUrl, parseForm4 } from './form4';
+import {
+  buildQuarterReport,
+  holderPosition,
+  informationTableDocument,
+  issuerMatches,
+  parseAmendmentType,
+  parseInformationTable,
+} from './form13f';
+import type { Parsed13F } from './form13f';
+import { frameData, frameTags, frameUnit, isFramePeriod, mergeFrameData } from './frames';
+import { CONCEPT_MAP } from './concepts';
+import { SEC_SYMBOLOGY } from './symbology';
+import type { ConceptMapping } from './concepts';
+import type {
+  CIK,
+  CompanyFactsResponse,
+  FieldFrameParams,
+  Filing,
+  FilingsParams,
+  Frame,
+  FrameDatum,
+  FrameParams,
+  FramesResponse,
+  Holding13F,
+  Holdings13FReport,
+  InstitutionalHolder,
+  FilerHoldersParams,
+  InstitutionalHoldingsParams,
+  SubmissionsFilingColumns,
+  SubmissionsResponse,
+} from './types';
+import {
+  CompanyFactsResponseSchema,
+  FilingIndexSchema,
+  FramesResponseSchema,
+  SubmissionsFileSchema,
+  SubmissionsResponseSchema,
+} from './types';
 
 const SEC_API_BASE = 'https://data.sec.gov';
 const USER_AGENT = 'Open Financial Terminal (https://github.com/borealBytes/open-fin-terminal)';
 const FACTS_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SUBMISSIONS_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+const FORM4_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days (filed documents don't change)
+const DEFAULT_INSIDER_LIMIT = 100;
+const FORM13F_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEFAULT_13F_QUARTERS = 4;
+const FRAMES_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const SUBMISSIONS_FILE_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours (older filings rarely change)
 const HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
 
 /**
- * SEC EDGAR adapter for fundamental data.
+ * SEC EDGAR adapter for fundamental data and filings.
  * 
- * Provides access to company fundamentals from SEC filings.
+ * Provides access to company fundamentals and filing indexes from SEC filings.
  */
 export class SECEdgarAdapter implements DataAdapter {
   readonly name = 'sec-edgar';
   readonly type = 'built-in' as const;
   readonly requiresSetup = false;
+  readonly symbology = SEC_SYMBOLOGY;
 
   private cikLookup = new CIKLookup();
   private rateLimiter = new TokenBucketLimiter({ tokensPerSecond: 10, capacity: 10 });
@@ -102,7 +158,9 @@ export class SECEdgarAdapter implements DataAdapter {
       economic: false,
       forex: false,
       crypto: false,
-      news: false,
+      news: true,
+      insiderTransactions: true,
+      corporateActions: false,
       realtime: false,
     };
   }
@@ -131,6 +189,9 @@ export class SECEdgarAdapter implements DataAdapter {
 
   /**
    * Get fundamental data from SEC EDGAR.
+   *
+   * Quarterly histories include derived fourth quarters (10-K minus the
+   * three 10-Qs); TTM statements sum the last four quarters.
    */
   async getFundamentals(params: FundamentalsParams): Promise<Fundamentals> {
     const { symbol } = params;
@@ -139,19 +200,11 @@ export class SECEdgarAdapter implements DataAdapter {
     const cacheKey = `fundamentals:${symbol.toUpperCase()}`;
     const cached = this.cache.get<Fundamentals>(cacheKey);
     if (cached) {
-      return cached;
+      return this.selectStatements(cached, params);
     }
 
     try {
-      // Look up CIK
-      const cik = await this.cikLookup.getCIK(symbol);
-      if (!cik) {
-        throw new AdapterError(
-          `Ticker ${symbol} not found in SEC database`,
-          this.name,
-          'INVALID_REQUEST'
-        );
-      }
+      const cik = await this.resolveCIK(symbol);
 
       // Fetch company facts
       const facts = await this.fetchCompanyFacts(cik);
@@ -160,7 +213,7 @@ export class SECEdgarAdapter implements DataAdapter {
       // Cache result
       this.cache.set(cacheKey, fundamentals, FACTS_CACHE_TTL);
 
-      return fundamentals;
+      return this.selectStatements(fundamentals, params);
     } catch (error) {
       if (error instanceof AdapterError) {
         throw error;
@@ -174,20 +227,469 @@ export class SECEdgarAdapter implements DataAdapter {
     }
   }
 
+  /**
+   * Get a company's filings index, most recent first.
+   *
+   * The submissions API lists at least the last year of filings; when
+   * `from` reaches further back, the older submissions files covering the
+   * range are loaded as well.
+   */
+  async getFilings(params: FilingsParams): Promise<Filing[]> {
+    const { symbol } = params;
+
+    try {
+      const cik = await this.resolveCIK(symbol);
+      return await this.listFilings(cik, params);
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR filings for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Fetch the text of a filing's primary document (usually HTML).
+   */
+  async getFilingDocument(filing: Filing): Promise<string> {
+    try {
+      const response = await this.fetchFromSEC(filing.primaryDocumentUrl, 'text/html, text/plain, */*');
+      return await response.text();
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR filing ${filing.accessionNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get insider transactions from a company's Form 4 filings, most recent first.
+   *
+   * Form 4 filings (including amendments) are read newest first until
+   * `limit` transactions have been collected.
+   */
+  async getInsiderTransactions(params: InsiderTransactionsParams): Promise<InsiderTransaction[]> {
+    const { symbol, from, to, limit = DEFAULT_INSIDER_LIMIT } = params;
+
+    try {
+      const filings = await this.getFilings({ symbol, forms: ['4', '4/A'], from, to });
+      const transactions: InsiderTransaction[] = [];
+
+      for (const filing of filings) {
+        if (transactions.length >= limit) {
+          break;
+        }
+
+        const cacheKey = `form4:${filing.accessionNumber}`;
+        let parsed = this.cache.get<InsiderTransaction[]>(cacheKey);
+        if (!parsed) {
+          const response = await this.fetchFromSEC(form4XmlUrl(filing), 'application/xml');
+          parsed = parseForm4(await response.text(), symbol.toUpperCase(), filing);
+          this.cache.set(cacheKey, parsed, FORM4_CACHE_TTL);
+        }
+        transactions.push(...parsed);
+      }
+
+      return transactions
+        .sort((a, b) => b.transactionDate.getTime() - a.transactionDate.getTime())
+        .slice(0, limit);
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR insider transactions for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get a filer's 13F-HR holdings, one report per quarter, most recent first.
+   *
+   * Amendments are folded into their quarter: restatements replace the
+   * holdings, "new holdings" amendments add to them. Values are in dollars
+   * (pre-2023 filings, reported in thousands, are converted).
+   */
+  async getInstitutionalHoldings(params: InstitutionalHoldingsParams): Promise<Holdings13FReport[]> {
+    const { from, to, limit = DEFAULT_13F_QUARTERS } = params;
+    const filerCik = this.cikLookup.formatCIK(params.cik);
+
+    try {
+      const submissions = await this.fetchSubmissions(filerCik);
+      const filings = await this.listFilings(filerCik, { forms: ['13F-HR', '13F-HR/A'], from });
+
+      // Group by quarter end, most recent first
+      const quarters = new Map<string, Filing[]>();
+      for (const filing of filings) {
+        if (!filing.reportDate) continue;
+        if ((from && filing.reportDate < from) || (to && filing.reportDate > to)) continue;
+        const key = filing.reportDate.toISOString();
+        quarters.set(key, [...(quarters.get(key) ?? []), filing]);
+      }
+      const quarterKeys = Array.from(quarters.keys()).sort().reverse().slice(0, limit);
+
+      const reports: Holdings13FReport[] = [];
+      for (const key of quarterKeys) {
+        const parts: Parsed13F[] = [];
+        for (const filing of quarters.get(key) ?? []) {
+          parts.push(await this.fetch13F(filing));
+        }
+        reports.push(buildQuarterReport(filerCik, submissions.name, new Date(key), parts));
+      }
+
+      return reports;
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR 13F holdings for CIK ${filerCik}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Filter a caller-supplied list of 13F filers to those holding a
+   * security, with how their positions changed from the previous quarter,
+   * largest holders first.
+   *
+   * This does not find every holder: EDGAR has no index of 13F filers by
+   * security, and reading every filer's information table each quarter
+   * is thousands of requests. Filers that held the security in neither
+   * of their two latest quarters are omitted.
+   */
+  async getHoldersAmongFilers(params: FilerHoldersParams): Promise<InstitutionalHolder[]> {
+    const { symbol, filers, cusip } = params;
+
+    if (filers.length === 0) {
+      throw new AdapterError(
+        'No 13F filers given: pass the CIKs of the filers to check for holdings',
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const company = await this.cikLookup.getMapping(this.secTicker(symbol));
+    if (!company) {
+      throw new AdapterError(
+        `Ticker ${symbol} not found in SEC database`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const matches = cusip
+      ? (holding: Holding13F) => holding.cusip === cusip.toUpperCase()
+      : (holding: Holding13F) => issuerMatches(holding.issuer, company.title);
+
+    const holders: InstitutionalHolder[] = [];
+    for (const filer of filers) {
+      const reports = await this.getInstitutionalHoldings({ cik: filer, limit: 2 });
+      const position = holderPosition(reports, matches);
+      if (position) {
+        holders.push(position);
+      }
+    }
+
+    return holders.sort((a, b) => b.shares - a.shares);
+  }
+
+  /**
+   * Get one XBRL concept for every filer in a calendar period, joined to
+   * tickers (e.g. `Revenues` in USD for CY2024).
+   */
+  async getFrame(params: FrameParams): Promise<Frame> {
+    const { taxonomy = 'us-gaap', tag, unit = 'USD', period } = params;
+    this.assertFramePeriod(period);
+
+    try {
+      const response = await this.fetchFrame(taxonomy, tag, unit, period);
+      if (!response) {
+        throw new AdapterError(
+          `No ${taxonomy}:${tag} (${unit}) data for ${period}`,
+          this.name,
+          'INVALID_REQUEST'
+        );
+      }
+
+      return {
+        period,
+        unit,
+        label: response.label || undefined,
+        data: await this.joinTickers(response),
+      };
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR frame ${taxonomy}:${tag} for ${period}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get a standard statement line (e.g. income revenue) for every us-gaap
+   * filer in a calendar period, largest value first.
+   *
+   * Each company's value comes from the first concept in the concept map
+   * it reported, so companies tagging revenue differently line up.
+   */
+  async getFieldFrame(params: FieldFrameParams): Promise<Frame> {
+    const { statement, field, period } = params;
+    this.assertFramePeriod(period);
+
+    const mappings: Record<string, ConceptMapping> = CONCEPT_MAP[statement];
+    const mapping = mappings[field];
+    if (!mapping) {
+      throw new AdapterError(`Unknown ${statement} field ${field}`, this.name, 'INVALID_REQUEST');
+    }
+    const unit = frameUnit(mapping);
+
+    try {
+      const frames: FrameDatum[][] = [];
+      for (const tag of frameTags(mapping)) {
+        const response = await this.fetchFrame('us-gaap', tag.tag, unit, period);
+        if (response) {
+          frames.push(await this.joinTickers(response, tag.sign));
+        }
+      }
+
+      return { period, unit, data: mergeFrameData(frames) };
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch SEC EDGAR ${statement} ${field} frame for ${period}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Reject calendar periods the frames API does not accept.
+   */
+  private assertFramePeriod(period: string): void {
+    if (!isFramePeriod(period)) {
+      throw new AdapterError(
+        `Invalid frame period ${period} (expected e.g. CY2024, CY2024Q1 or CY2024Q1I)`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+  }
+
+  /**
+   * Join frame data to tickers via the CIK lookup.
+   */
+  private async joinTickers(response: FramesResponse, sign?: 1 | -1): Promise<FrameDatum[]> {
+    const tickersByCIK = new Map<CIK, string[]>();
+    for (const datum of response.data) {
+      const cik = this.cikLookup.formatCIK(datum.cik);
+      tickersByCIK.set(cik, await this.cikLookup.getTickers(cik));
+    }
+    return frameData(response, tickersByCIK, sign);
+  }
+
+  /**
+   * Look up a ticker's CIK, rejecting unknown tickers.
+   */
+  private async resolveCIK(symbol: string): Promise<CIK> {
+    const cik = await this.cikLookup.getCIK(this.secTicker(symbol));
+    if (!cik) {
+      throw new AdapterError(
+        `Ticker ${symbol} not found in SEC database`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+    return cik;
+  }
+
+  /**
+   * Translate a canonical symbol to its SEC ticker ("BRK.B" -> "BRK-B").
+   */
+  private secTicker(symbol: string): string {
+    const ticker = toProviderSymbol(symbol, this.symbology);
+    if (!ticker) {
+      throw new AdapterError(
+        `${symbol} is not a US-listed security with SEC filings`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+    return ticker;
+  }
+
+  /**
+   * List a company's filings, loading older submissions files when `from`
+   * reaches back past the recent filings.
+   */
+  private async listFilings(cik: CIK, params: Omit<FilingsParams, 'symbol'>): Promise<Filing[]> {
+    const { from, to } = params;
+    const submissions = await this.fetchSubmissions(cik);
+    const filings = parseFilings(cik, submissions.filings.recent);
+
+    if (from) {
+      for (const file of submissions.filings.files) {
+        const overlaps = new Date(file.filingTo) >= from && (!to || new Date(file.filingFrom) <= to);
+        if (overlaps) {
+          filings.push(...parseFilings(cik, await this.fetchSubmissionsFile(file.name)));
+        }
+      }
+    }
+
+    const unique = new Map(filings.map((filing) => [filing.accessionNumber, filing]));
+    return filterFilings(Array.from(unique.values()), params);
+  }
+
+  /**
+   * Fetch and parse a 13F-HR filing's information table (and, for
+   * amendments, the amendment type from its cover page).
+   */
+  private async fetch13F(filing: Filing): Promise<Parsed13F> {
+    const cacheKey = `13f:${filing.accessionNumber}`;
+    const cached = this.cache.get<Parsed13F>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const directory = filingDirectoryUrl(filing.cik, filing.accessionNumber);
+    const indexResponse = await this.fetchFromSEC(`${directory}/index.json`);
+    const index = FilingIndexSchema.parse(await indexResponse.json());
+
+    const tableDocument = informationTableDocument(index);
+    if (!tableDocument) {
+      throw new Error(`No information table in 13F filing ${filing.accessionNumber}`);
+    }
+    const tableResponse = await this.fetchFromSEC(`${directory}/${tableDocument}`, 'application/xml');
+    const holdings = parseInformationTable(await tableResponse.text(), filing.filingDate);
+
+    let amendmentType: string | undefined;
+    if (filing.form.endsWith('/A')) {
+      const coverResponse = await this.fetchFromSEC(`${directory}/primary_doc.xml`, 'application/xml');
+      amendmentType = parseAmendmentType(await coverResponse.text());
+    }
+
+    const parsed = { filing, holdings, amendmentType };
+    this.cache.set(cacheKey, parsed, FORM13F_CACHE_TTL);
+    return parsed;
+  }
+
+  /**
+   * Fetch a company's submissions (filings index) from SEC EDGAR.
+   */
+  private async fetchSubmissions(cik: CIK): Promise<SubmissionsResponse> {
+    const cacheKey = `submissions:${cik}`;
+    const cached = this.cache.get<SubmissionsResponse>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.fetchFromSEC(`${SEC_API_BASE}/submissions/CIK${cik}.json`);
+    const submissions = SubmissionsResponseSchema.parse(await response.json());
+
+    this.cache.set(cacheKey, submissions, SUBMISSIONS_CACHE_TTL);
+    return submissions;
+  }
+
+  /**
+   * Fetch an additional submissions file holding older filings.
+   */
+  private async fetchSubmissionsFile(name: string): Promise<SubmissionsFilingColumns> {
+    const cacheKey = `submissions-file:${name}`;
+    const cached = this.cache.get<SubmissionsFilingColumns>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.fetchFromSEC(`${SEC_API_BASE}/submissions/${name}`);
+    const columns = SubmissionsFileSchema.parse(await response.json());
+
+    this.cache.set(cacheKey, columns, SUBMISSIONS_FILE_CACHE_TTL);
+    return columns;
+  }
+
+  /**
+   * Fetch a frame from SEC EDGAR, or null if the concept has no data for
+   * the period.
+   */
+  private async fetchFrame(
+    taxonomy: string,
+    tag: string,
+    unit: string,
+    period: string
+  ): Promise<FramesResponse | null> {
+    const cacheKey = `frame:${taxonomy}/${tag}/${unit}/${period}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get<FramesResponse>(cacheKey);
+    }
+
+    const url = `${SEC_API_BASE}/api/xbrl/frames/${taxonomy}/${tag}/${unit}/${period}.json`;
+    // The frames API answers 404 for concepts with no data in a period
+    const response = await this.fetchFromSEC(url, 'application/json', true);
+    const frame = response ? FramesResponseSchema.parse(await response.json()) : null;
+
+    this.cache.set(cacheKey, frame, FRAMES_CACHE_TTL);
+    return frame;
+  }
+
   /**
    * Fetch company facts from SEC EDGAR.
    */
   private async fetchCompanyFacts(cik: string): Promise<CompanyFactsResponse> {
+    const url = `${SEC_API_BASE}/api/xbrl/companyfacts/CIK${cik}.json`;
+    const response = await this.fetchFromSEC(url);
+    const data = await response.json();
+
+    // Validate response structure
+    const validated = CompanyFactsResponseSchema.parse(data);
+    return validated as CompanyFactsResponse;
+  }
+
+  /**
+   * Make a rate-limited request to SEC EDGAR with the required User-Agent.
+   *
+   * With `notFoundAsNull`, a 404 resolves to null instead of failing.
+   */
+  private fetchFromSEC(url: string, accept?: string): Promise<Response>;
+  private fetchFromSEC(url: string, accept: string, notFoundAsNull: true): Promise<Response | null>;
+  private async fetchFromSEC(
+    url: string,
+    accept = 'application/json',
+    notFoundAsNull = false
+  ): Promise<Response | null> {
     // Wait for rate limit
     await this.rateLimiter.waitFor(1);
 
-    const url = `${SEC_API_BASE}/api/xbrl/companyfacts/CIK${cik}.json`;
-
     try {
       const response = await fetch(url, {
         headers: {
           'User-Agent': USER_AGENT,
-          'Accept': 'application/json',
+          'Accept': accept,
         },
       });
 
@@ -199,15 +701,15 @@ export class SECEdgarAdapter implements DataAdapter {
         );
       }
 
+      if (response.status === 404 && notFoundAsNull) {
+        return null;
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
-
-      // Validate response structure
-      const validated = CompanyFactsResponseSchema.parse(data);
-      return validated as CompanyFactsResponse;
+      return response;
     } catch (error) {
       if (error instanceof AdapterError) {
         throw error;
@@ -218,109 +720,72 @@ export class SECEdgarAdapter implements DataAdapter {
 
   /**
    * Parse company facts into Fundamentals format.
+   *
+   * Histories include every annual, quarterly and TTM period; the
+   * single-statement fields hold the most recent annual figures.
    */
   private parseCompanyFacts(facts: CompanyFactsResponse): Fundamentals {
-    const usGaap = facts.facts['us-gaap'];
-    if (!usGaap) {
+    if (!facts.facts['us-gaap'] && !facts.facts['ifrs-full']) {
       throw new AdapterError(
-        'No US-GAAP data found in SEC filing',
+        'No US-GAAP or IFRS data found in SEC filing',
         this.name,
         'INVALID_REQUEST'
       );
     }
 
-    // Extract most recent annual values
-    const revenue = this.getMostRecentAnnualValue(usGaap['Revenues'] || usGaap['RevenueFromContractWithCustomerExcludingAssessedTax']);
-    const netIncome = this.getMostRecentAnnualValue(usGaap['NetIncomeLoss']);
-    const totalAssets = this.getMostRecentAnnualValue(usGaap['Assets']);
-    const totalLiabilities = this.getMostRecentAnnualValue(usGaap['Liabilities']);
-    const shareholdersEquity = this.getMostRecentAnnualValue(usGaap['StockholdersEquity']);
-    const operatingCashFlow = this.getMostRecentAnnualValue(usGaap['NetCashProvidedByUsedInOperatingActivities']);
-
-    // Build income statement if we have data
-    let incomeStatement: IncomeStatement | undefined;
-    if (revenue || netIncome) {
-      const latestDate = this.getLatestFiscalYearEnd(usGaap);
-      incomeStatement = {
-        date: latestDate,
-        period: 'annual' as const,
-        revenue: revenue?.val ?? 0,
-        netIncome: netIncome?.val ?? 0,
-      };
-    }
-
-    // Build balance sheet if we have data
-    let balanceSheet: BalanceSheet | undefined;
-    if (totalAssets || totalLiabilities || shareholdersEquity) {
-      const latestDate = this.getLatestFiscalYearEnd(usGaap);
-      balanceSheet = {
-        date: latestDate,
-        period: 'annual' as const,
-        totalAssets: totalAssets?.val ?? 0,
-        totalLiabilities: totalLiabilities?.val ?? 0,
-        shareholdersEquity: shareholdersEquity?.val ?? 0,
-      };
-    }
-
-    // Build cash flow statement if we have data
-    let cashFlow: CashFlowStatement | undefined;
-    if (operatingCashFlow) {
-      const latestDate = this.getLatestFiscalYearEnd(usGaap);
-      cashFlow = {
-        date: latestDate,
-        period: 'annual' as const,
-        operatingCashFlow: operatingCashFlow.val,
-      };
-    }
+    const { currency, incomeStatements, balanceSheets, cashFlows } =
+      buildFinancialStatements(facts);
+    const latestAnnual = <T extends { period: string }>(statements: T[]) =>
+      statements.find((s) => s.period === 'annual');
 
     return {
       symbol: facts.entityName,
+      currency,
       profile: {
         name: facts.entityName,
       },
-      incomeStatement,
-      balanceSheet,
-      cashFlow,
+      incomeStatement: latestAnnual(incomeStatements),
+      balanceSheet: latestAnnual(balanceSheets),
+      cashFlow: latestAnnual(cashFlows),
+      incomeStatements,
+      balanceSheets,
+      cashFlows,
     };
   }
 
   /**
-   * Get most recent annual value from a fact set.
+   * Narrow parsed fundamentals to the requested period, TTM and limit.
+   *
+   * With `ttm`, TTM statements are included alongside the requested period.
    */
-  private getMostRecentAnnualValue(factSet: any): UnitFact | null {
-    if (!factSet?.units) return null;
-
-    // SEC uses "USD" for currency values
-    const usdFacts = factSet.units['USD'] || factSet.units['shares'];
-    if (!usdFacts || !Array.isArray(usdFacts)) return null;
-
-    // Filter to annual reports (10-K)
-    const annualFacts = usdFacts.filter((f: UnitFact) => f.form === '10-K');
-    if (annualFacts.length === 0) return null;
-
-    // Sort by fiscal year (descending) and return most recent
-    annualFacts.sort((a: UnitFact, b: UnitFact) => {
-      const dateA = new Date(a.end).getTime();
-      const dateB = new Date(b.end).getTime();
-      return dateB - dateA;
-    });
-
-    return annualFacts[0] || null;
-  }
+  private selectStatements(fundamentals: Fundamentals, params: FundamentalsParams): Fundamentals {
+    const { period, limit, ttm } = params;
 
-  /**
-   * Get latest fiscal year end date.
-   */
-  private getLatestFiscalYearEnd(usGaap: Record<string, any>): Date {
-    // Try to find any annual data point to get the fiscal year end
-    for (const factSet of Object.values(usGaap)) {
-      const recent = this.getMostRecentAnnualValue(factSet);
-      if (recent) {
-        return new Date(recent.end);
+    const select = <T extends { period: Period }>(statements: T[] = []): T[] => {
+      const included = statements.filter((s) =>
+        s.period === 'ttm' ? ttm || period === 'ttm' : !period || s.period === period
+      );
+      if (limit === undefined) {
+        return included;
       }
-    }
+      const counts = new Map<Period, number>();
+      return included.filter((s) => {
+        const count = (counts.get(s.period) ?? 0) + 1;
+        counts.set(s.period, count);
+        return count <= limit;
+      });
+    };
+    const latest = <T extends { period: Period }>(statements: T[] = []) =>
+      statements.find((s) => s.period === (period ?? 'annual'));
 
-    // Fallback to current date if no data found
-    return new Date();
+    return {
+      ...fundamentals,
+      incomeStatement: latest(fundamentals.incomeStatements),
+      balanceSheet: latest(fundamentals.balanceSheets),
+      cashFlow: latest(fundamentals.cashFlows),
+      incomeStatements: select(fundamentals.incomeStatements),
+      balanceSheets: select(fundamentals.balanceSheets),
+      cashFlows: select(fundamentals.cashFlows),
+    };
   }
 }
@@ -0,0 +1,471 @@
+/**
+ * Financial statement histories from SEC EDGAR company facts.
+ *
+ * Builds annual, quarterly and trailing-twelve-month income statements,
+ * balance sheets and cash flow statements from every period a company
+ * has filed.
+ */
+
+import type {
+  IncomeStatement,
+  BalanceSheet,
+  CashFlowStatement,
+  Period,
+} from '@open-fin-terminal/shared';
+import type { CompanyFactsResponse, FactSet, UnitFact } from './types';
+import type { ConceptMap, ConceptMapping, ConceptSum, ConceptTag, Taxonomy } from './concepts';
+import { COMPANY_CONCEPTS, isConceptSum, resolveConceptMap } from './concepts';
+
+/**
+ * Periodic report forms whose facts are used (including amendments).
+ */
+const REPORT_FORMS = /^(10-K|10-KT|10-Q|10-QT|20-F|40-F)(\/A)?$/;
+
+/** Duration ranges (days) for annual and quarterly facts */
+const ANNUAL_DAYS = { min: 350, max: 380 };
+const QUARTER_DAYS = { min: 80, max: 100 };
+
+/** Days from a fiscal year end back past its third quarter end */
+const FISCAL_YEAR_QUARTERS_DAYS = 320;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Values for one statement line, keyed by period end date (YYYY-MM-DD).
+ */
+type Series = Record<Period, Map<string, number>>;
+
+/**
+ * Company facts grouped by taxonomy, then concept.
+ */
+type TaxonomyFacts = Partial<Record<Taxonomy, Record<string, FactSet>>>;
+
+/**
+ * Complete statement histories, most recent first.
+ */
+export interface FinancialStatements {
+  /** ISO 4217 currency the monetary values are reported in */
+  currency: string;
+  incomeStatements: IncomeStatement[];
+  balanceSheets: BalanceSheet[];
+  cashFlows: CashFlowStatement[];
+}
+
+/**
+ * Build annual, quarterly and TTM statement histories from company facts.
+ *
+ * Every statement line is sourced through the XBRL concept mapping (see
+ * `CONCEPT_MAP`), with the company's own sources from `COMPANY_CONCEPTS`
+ * tried first. us-gaap and ifrs-full facts are both read, so foreign
+ * private issuers filing 20-F/40-F are covered in their reporting
+ * currency.
+ *
+ * Facts are de-duplicated by reporting period (start/end date), keeping
+ * the most recently filed value so amended and restated figures win.
+ * Duration facts are classified by length (roughly one year or one
+ * quarter). 10-Q cash flows are reported year-to-date (three, six and
+ * nine months), so quarters not reported on their own are derived as
+ * the difference between consecutive year-to-date figures. Instant facts are
+ * annual when they fall on a fiscal year end and are always included
+ * in the quarterly history.
+ *
+ * Fourth quarters are rarely reported directly, so a missing Q4 flow is
+ * derived as the 10-K figure minus the fiscal year's three 10-Q figures.
+ * TTM flows sum the last four consecutive quarters; TTM balance sheets
+ * are the quarter-end balance sheet on the same date.
+ *
+ * @param facts - Company facts response
+ * @param conceptMap - Concept mapping (default: standard mapping plus the company's own sources)
+ * @returns Statements sorted by date (most recent first), all periods mixed
+ */
+export function buildFinancialStatements(
+  facts: CompanyFactsResponse,
+  conceptMap: ConceptMap = resolveConceptMap(COMPANY_CONCEPTS[String(facts.cik).padStart(10, '0')])
+): FinancialStatements {
+  const taxonomyFacts: TaxonomyFacts = {
+    'us-gaap': facts.facts['us-gaap'],
+    'ifrs-full': facts.facts['ifrs-full'],
+  };
+  const currency = reportingCurrency(taxonomyFacts, conceptMap);
+
+  const income = collectFields(taxonomyFacts, conceptMap.income, currency, 'duration');
+  const cashFlow = collectFields(taxonomyFacts, conceptMap.cashFlow, currency, 'duration');
+
+  // Fiscal year ends are the end dates of annual duration facts
+  const fiscalYearEnds = new Set<string>();
+  for (const series of [...Object.values(income), ...Object.values(cashFlow)]) {
+    for (const end of series.annual.keys()) {
+      fiscalYearEnds.add(end);
+    }
+  }
+
+  const balance = collectFields(
+    taxonomyFacts,
+    conceptMap.balance,
+    currency,
+    'instant',
+    fiscalYearEnds
+  );
+
+  for (const series of [...Object.values(income), ...Object.values(cashFlow)]) {
+    deriveFourthQuarter(series);
+  }
+
+  deriveDifference(income.grossProfit, income.revenue, income.costOfRevenue);
+  deriveDifference(
+    cashFlow.freeCashFlow,
+    cashFlow.operatingCashFlow,
+    cashFlow.capitalExpenditures
+  );
+
+  const ttmDates = new Set<string>();
+  for (const series of [...Object.values(income), ...Object.values(cashFlow)]) {
+    deriveTrailingTwelveMonths(series);
+    for (const end of series.ttm.keys()) {
+      ttmDates.add(end);
+    }
+  }
+  for (const series of Object.values(balance)) {
+    for (const end of ttmDates) {
+      const val = series.quarterly.get(end);
+      if (val !== undefined) {
+        series.ttm.set(end, val);
+      }
+    }
+  }
+
+  return {
+    currency,
+    incomeStatements: assemble(income, (date, period, v) => ({
+      date,
+      period,
+      revenue: v.revenue ?? 0,
+      costOfRevenue: v.costOfRevenue,
+      grossProfit: v.grossProfit,
+      operatingExpenses: v.operatingExpenses,
+      operatingIncome: v.operatingIncome,
+      netIncome: v.netIncome ?? 0,
+      eps: v.eps,
+      epsDiluted: v.epsDiluted,
+    })),
+    balanceSheets: assemble(balance, (date, period, v) => ({
+      date,
+      period,
+      totalAssets: v.totalAssets ?? 0,
+      currentAssets: v.currentAssets,
+      totalLiabilities: v.totalLiabilities ?? 0,
+      currentLiabilities: v.currentLiabilities,
+      shareholdersEquity: v.shareholdersEquity ?? 0,
+      totalDebt: v.totalDebt,
+      cash: v.cash,
+    })),
+    cashFlows: assemble(cashFlow, (date, period, v) => ({
+      date,
+      period,
+      operatingCashFlow: v.operatingCashFlow ?? 0,
+      investingCashFlow: v.investingCashFlow,
+      financingCashFlow: v.financingCashFlow,
+      freeCashFlow: v.freeCashFlow,
+      capitalExpenditures: v.capitalExpenditures,
+    })),
+  };
+}
+
+/**
+ * Pick the reporting currency: the currency unit most monetary facts use.
+ */
+function reportingCurrency(facts: TaxonomyFacts, conceptMap: ConceptMap): string {
+  const counts = new Map<string, number>();
+
+  for (const mapping of [
+    ...Object.values<ConceptMapping>(conceptMap.income),
+    ...Object.values<ConceptMapping>(conceptMap.balance),
+    ...Object.values<ConceptMapping>(conceptMap.cashFlow),
+  ]) {
+    if (mapping.unit === 'perShare') {
+      continue;
+    }
+    for (const tag of mapping.sources.flatMap((source) => (isConceptSum(source) ? source.sum : [source]))) {
+      for (const [unit, unitFacts] of Object.entries(lookup(facts, tag)?.units ?? {})) {
+        if (/^[A-Z]{3}$/.test(unit) && Array.isArray(unitFacts)) {
+          counts.set(unit, (counts.get(unit) ?? 0) + unitFacts.length);
+        }
+      }
+    }
+  }
+
+  let currency = 'USD';
+  let most = 0;
+  for (const [unit, count] of counts) {
+    if (count > most) {
+      currency = unit;
+      most = count;
+    }
+  }
+  return currency;
+}
+
+/**
+ * Collect series for every field of a statement.
+ */
+function collectFields<F extends string>(
+  facts: TaxonomyFacts,
+  mappings: Record<F, ConceptMapping>,
+  currency: string,
+  kind: 'duration' | 'instant',
+  fiscalYearEnds?: Set<string>
+): Record<F, Series> {
+  const result = {} as Record<F, Series>;
+
+  for (const field of Object.keys(mappings) as F[]) {
+    const mapping = mappings[field];
+    const unit = mapping.unit === 'perShare' ? `${currency}/shares` : currency;
+    const series = emptySeries();
+
+    // Sources in priority order fill periods not yet covered
+    for (const source of mapping.sources) {
+      const sourced = isConceptSum(source)
+        ? sumSeries(facts, source, unit, kind, fiscalYearEnds)
+        : tagSeries(facts, source, unit, kind, fiscalYearEnds);
+      for (const period of ['annual', 'quarterly'] as const) {
+        for (const [end, val] of sourced[period]) {
+          if (!series[period].has(end)) {
+            series[period].set(end, val);
+          }
+        }
+      }
+    }
+
+    result[field] = series;
+  }
+
+  return result;
+}
+
+/**
+ * Sum component concepts per period.
+ *
+ * Unless the sum is partial, a period is only included when every
+ * component is reported for it.
+ */
+function sumSeries(
+  facts: TaxonomyFacts,
+  source: ConceptSum,
+  unit: string,
+  kind: 'duration' | 'instant',
+  fiscalYearEnds?: Set<string>
+): Series {
+  const series = emptySeries();
+  const components = source.sum.map((tag) => tagSeries(facts, tag, unit, kind, fiscalYearEnds));
+
+  for (const period of ['annual', 'quarterly'] as const) {
+    const ends = new Set(components.flatMap((component) => Array.from(component[period].keys())));
+    for (const end of ends) {
+      const values = components.map((component) => component[period].get(end));
+      if (!source.partial && values.some((val) => val === undefined)) {
+        continue;
+      }
+      series[period].set(end, values.reduce<number>((total, val) => total + (val ?? 0), 0));
+    }
+  }
+
+  return series;
+}
+
+/**
+ * Extract de-duplicated, classified values for a single concept.
+ */
+function tagSeries(
+  facts: TaxonomyFacts,
+  tag: ConceptTag,
+  unit: string,
+  kind: 'duration' | 'instant',
+  fiscalYearEnds?: Set<string>
+): Series {
+  const series = emptySeries();
+  const unitFacts = lookup(facts, tag)?.units?.[unit];
+  if (!Array.isArray(unitFacts)) {
+    return series;
+  }
+
+  const sign = tag.sign ?? 1;
+  const yearToDate = new Map<string, Array<[string, number]>>();
+  for (const fact of latestByPeriod(unitFacts)) {
+    const val = fact.val * sign;
+    if (kind === 'instant') {
+      if (fiscalYearEnds?.has(fact.end)) {
+        series.annual.set(fact.end, val);
+      }
+      series.quarterly.set(fact.end, val);
+      continue;
+    }
+
+    const period = classifyDuration(fact);
+    if (period) {
+      series[period].set(fact.end, val);
+    }
+    if (fact.start) {
+      const cumulative = yearToDate.get(fact.start) ?? [];
+      cumulative.push([fact.end, val]);
+      yearToDate.set(fact.start, cumulative);
+    }
+  }
+
+  deriveYearToDateQuarters(series, yearToDate);
+  return series;
+}
+
+/**
+ * Derive quarters missing from `series` as the difference between
+ * consecutive year-to-date values (facts sharing a start date) whose
+ * ends are one quarter apart, e.g. six months minus three months.
+ */
+function deriveYearToDateQuarters(
+  series: Series,
+  yearToDate: Map<string, Array<[string, number]>>
+): void {
+  for (const cumulative of yearToDate.values()) {
+    cumulative.sort(([a], [b]) => a.localeCompare(b));
+    for (let i = 1; i < cumulative.length; i++) {
+      const [previousEnd, previous] = cumulative[i - 1];
+      const [end, val] = cumulative[i];
+      const days = (Date.parse(end) - Date.parse(previousEnd)) / DAY_MS;
+      if (days >= QUARTER_DAYS.min && days <= QUARTER_DAYS.max && !series.quarterly.has(end)) {
+        series.quarterly.set(end, val - previous);
+      }
+    }
+  }
+}
+
+/**
+ * Find the fact set for a concept.
+ */
+function lookup(facts: TaxonomyFacts, tag: ConceptTag): FactSet | undefined {
+  return facts[tag.taxonomy]?.[tag.tag];
+}
+
+/**
+ * Keep the most recently filed fact for each reporting period.
+ */
+function latestByPeriod(facts: UnitFact[]): UnitFact[] {
+  const byPeriod = new Map<string, UnitFact>();
+
+  for (const fact of facts) {
+    if (fact.form && !REPORT_FORMS.test(fact.form)) {
+      continue;
+    }
+
+    const key = `${fact.start ?? ''}|${fact.end}`;
+    const existing = byPeriod.get(key);
+    if (!existing || (fact.filed ?? '') > (existing.filed ?? '')) {
+      byPeriod.set(key, fact);
+    }
+  }
+
+  return Array.from(byPeriod.values());
+}
+
+/**
+ * Classify a duration fact as annual or quarterly by its length.
+ *
+ * Facts without a start date fall back to the fiscal period label.
+ */
+function classifyDuration(fact: UnitFact): Period | null {
+  if (!fact.start) {
+    if (fact.fp === 'FY') return 'annual';
+    if (fact.fp && /^Q[1-4]$/.test(fact.fp)) return 'quarterly';
+    return null;
+  }
+
+  const days = (Date.parse(fact.end) - Date.parse(fact.start)) / DAY_MS;
+  if (days >= ANNUAL_DAYS.min && days <= ANNUAL_DAYS.max) return 'annual';
+  if (days >= QUARTER_DAYS.min && days <= QUARTER_DAYS.max) return 'quarterly';
+  return null; // Year-to-date or other non-standard duration
+}
+
+/**
+ * Derive missing fourth-quarter values as the annual value minus the
+ * three quarters ending earlier in the same fiscal year.
+ */
+function deriveFourthQuarter(series: Series): void {
+  for (const [end, annual] of series.annual) {
+    if (series.quarterly.has(end)) {
+      continue;
+    }
+
+    const yearEnd = Date.parse(end);
+    const earlier = Array.from(series.quarterly).filter(([quarterEnd]) => {
+      const time = Date.parse(quarterEnd);
+      return time < yearEnd && time > yearEnd - FISCAL_YEAR_QUARTERS_DAYS * DAY_MS;
+    });
+
+    if (earlier.length === 3) {
+      const sum = earlier.reduce((total, [, val]) => total + val, 0);
+      series.quarterly.set(end, annual - sum);
+    }
+  }
+}
+
+/**
+ * Sum each run of four consecutive quarters into a TTM value dated at
+ * the last quarter's end.
+ */
+function deriveTrailingTwelveMonths(series: Series): void {
+  const quarters = Array.from(series.quarterly).sort(([a], [b]) => a.localeCompare(b));
+
+  for (let i = 3; i < quarters.length; i++) {
+    const window = quarters.slice(i - 3, i + 1);
+    const span = (Date.parse(window[3][0]) - Date.parse(window[0][0])) / DAY_MS;
+    if (span >= 3 * QUARTER_DAYS.min && span <= 3 * QUARTER_DAYS.max) {
+      series.ttm.set(window[3][0], window.reduce((total, [, val]) => total + val, 0));
+    }
+  }
+}
+
+/**
+ * Fill `target` with `minuend - subtrahend` for periods it lacks.
+ */
+function deriveDifference(target: Series, minuend: Series, subtrahend: Series): void {
+  for (const period of ['annual', 'quarterly'] as const) {
+    for (const [end, a] of minuend[period]) {
+      const b = subtrahend[period].get(end);
+      if (b !== undefined && !target[period].has(end)) {
+        target[period].set(end, a - b);
+      }
+    }
+  }
+}
+
+/**
+ * Turn per-field series into statements, one per period end date.
+ */
+function assemble<F extends string, S extends { date: Date }>(
+  fields: Record<F, Series>,
+  build: (date: Date, period: Period, values: Partial<Record<F, number>>) => S
+): S[] {
+  const statements: S[] = [];
+
+  for (const period of ['annual', 'quarterly', 'ttm'] as const) {
+    const byDate = new Map<string, Partial<Record<F, number>>>();
+    for (const field of Object.keys(fields) as F[]) {
+      for (const [end, val] of fields[field][period]) {
+        const values: Partial<Record<F, number>> = byDate.get(end) ?? {};
+        values[field] = val;
+        byDate.set(end, values);
+      }
+    }
+
+    for (const [end, values] of byDate) {
+      statements.push(build(new Date(end), period, values));
+    }
+  }
+
+  return statements.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Create an empty series.
+ */
+function emptySeries(): Series {
+  return { annual: new Map(), quarterly: new Map(), ttm: new Map() };
+}
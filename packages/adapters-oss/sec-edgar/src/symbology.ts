@@ -0,0 +1,17 @@
+/**
+ * SEC EDGAR symbol conventions.
+ */
+
+import type { SymbologyRules } from '@open-fin-terminal/shared';
+import { usListingSuffixes } from '@open-fin-terminal/shared';
+
+/**
+ * SEC EDGAR symbology: US-listed tickers as in company_tickers.json
+ * ("AAPL", "BRK-B"). Indices, pairs and foreign listings have no CIK.
+ */
+export const SEC_SYMBOLOGY: SymbologyRules = {
+  case: 'upper',
+  shareClassSeparator: '-',
+  listingSuffixes: usListingSuffixes(''),
+  defaultSuffix: '',
+};
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import type { IncomeField, BalanceField, CashFlowField } from './concepts';
 
 /**
  * CIK (Central Index Key) - SEC's unique identifier for companies
@@ -19,6 +20,7 @@ export interface CompanyFactsResponse {
   entityName: string;
   facts: {
     'us-gaap'?: Record<string, FactSet>;
+    'ifrs-full'?: Record<string, FactSet>;
     'dei'?: Record<string, FactSet>;
     [key: string]: Record<string, FactSet> | undefined;
   };
@@ -37,6 +39,7 @@ export interface FactSet {
  * Individual fact value with context
  */
 export interface UnitFact {
+  start?: string; // YYYY-MM-DD (duration facts only)
   end: string; // YYYY-MM-DD
   val: number;
   accn?: string; // Accession number
@@ -57,6 +60,41 @@ export interface TickerCIKMapping {
   exchange?: string;
 }
 
+/**
+ * SEC company_tickers_exchange.json response: rows of `fields` values
+ */
+export interface CompanyTickersExchangeResponse {
+  fields: string[];
+  data: Array<Array<string | number | null>>;
+}
+
+export const CompanyTickersExchangeResponseSchema = z.object({
+  fields: z.array(z.string()),
+  data: z.array(z.array(z.union([z.string(), z.number(), z.null()]))),
+});
+
+/**
+ * How a company search result matched the query, strongest first
+ */
+export type CompanyMatchType = 'ticker' | 'tickerPrefix' | 'namePrefix' | 'nameWord' | 'fuzzy';
+
+/**
+ * Company search options
+ */
+export interface CompanySearchOptions {
+  /** Maximum results (default: 10) */
+  limit?: number;
+}
+
+/**
+ * Company search result, ranked by score
+ */
+export interface CompanySearchResult extends TickerCIKMapping {
+  matchType: CompanyMatchType;
+  /** Relevance, 0-100 */
+  score: number;
+}
+
 /**
  * Parsed fundamental data from SEC EDGAR
  */
@@ -92,6 +130,355 @@ export const CompanyFactsResponseSchema = z.object({
   facts: z.record(z.record(z.any())),
 });
 
+/**
+ * Columnar filing list from the submissions API; entry i of every array
+ * describes the same filing
+ */
+export interface SubmissionsFilingColumns {
+  accessionNumber: string[];
+  filingDate: string[]; // YYYY-MM-DD
+  reportDate: string[]; // YYYY-MM-DD or empty
+  form: string[];
+  primaryDocument: string[];
+  primaryDocDescription: string[];
+}
+
+/**
+ * Submissions API response structure from SEC EDGAR
+ * https://data.sec.gov/submissions/CIK{CIK}.json
+ */
+export interface SubmissionsResponse {
+  cik: string;
+  name: string;
+  tickers: string[];
+  exchanges: string[];
+  filings: {
+    /** At least the last year of filings (up to 1,000) */
+    recent: SubmissionsFilingColumns;
+    /** Older filings, split into additional JSON files */
+    files: Array<{
+      name: string; // e.g. "CIK0000320193-submissions-001.json"
+      filingCount: number;
+      filingFrom: string; // YYYY-MM-DD
+      filingTo: string; // YYYY-MM-DD
+    }>;
+  };
+}
+
+const SubmissionsFilingColumnsSchema = z.object({
+  accessionNumber: z.array(z.string()),
+  filingDate: z.array(z.string()),
+  reportDate: z.array(z.string()),
+  form: z.array(z.string()),
+  primaryDocument: z.array(z.string()),
+  primaryDocDescription: z.array(z.string()),
+});
+
+/**
+ * Zod schema for SubmissionsResponse validation
+ */
+export const SubmissionsResponseSchema = z.object({
+  cik: z.union([z.string(), z.number()]).transform(String),
+  name: z.string(),
+  tickers: z.array(z.string()),
+  exchanges: z.array(z.string().nullable()).transform((values) => values.map((v) => v ?? '')),
+  filings: z.object({
+    recent: SubmissionsFilingColumnsSchema,
+    files: z.array(
+      z.object({
+        name: z.string(),
+        filingCount: z.number(),
+        filingFrom: z.string(),
+        filingTo: z.string(),
+      })
+    ),
+  }),
+});
+
+/**
+ * Zod schema for an additional submissions file (filing columns only)
+ */
+export const SubmissionsFileSchema = SubmissionsFilingColumnsSchema;
+
+/**
+ * Filing directory listing from EDGAR archives
+ * https://www.sec.gov/Archives/edgar/data/{CIK}/{accession}/index.json
+ */
+export interface FilingIndex {
+  directory: {
+    name: string;
+    item: Array<{
+      name: string;
+      type: string;
+      size: string;
+    }>;
+  };
+}
+
+/**
+ * Zod schema for FilingIndex validation
+ */
+export const FilingIndexSchema = z.object({
+  directory: z.object({
+    name: z.string(),
+    item: z.array(
+      z.object({
+        name: z.string(),
+        type: z.string(),
+        size: z.union([z.string(), z.number()]).transform(String),
+      })
+    ),
+  }),
+});
+
+/**
+ * A filing in a company's EDGAR filings index
+ */
+export interface Filing {
+  /** Company CIK */
+  cik: CIK;
+  /** Accession number (e.g. "0000320193-23-000106") */
+  accessionNumber: string;
+  /** Form type (e.g. "10-K", "8-K", "4") */
+  form: string;
+  /** Date the filing was made */
+  filingDate: Date;
+  /** Period the filing reports on, if any */
+  reportDate?: Date;
+  /** File name of the primary document */
+  primaryDocument: string;
+  /** Description of the primary document */
+  description?: string;
+  /** URL of the primary document */
+  primaryDocumentUrl: string;
+}
+
+/**
+ * Filters for a company's filings index
+ */
+export interface FilingsParams {
+  /** Stock symbol or ticker */
+  symbol: string;
+  /** Form types to include, matched exactly (e.g. ["10-K", "10-K/A"]) */
+  forms?: string[];
+  /** Earliest filing date (inclusive) */
+  from?: Date;
+  /** Latest filing date (inclusive) */
+  to?: Date;
+  /** Maximum number of filings to return (most recent first) */
+  limit?: number;
+}
+
+/**
+ * A position in a 13F-HR information table
+ */
+export interface Holding13F {
+  /** CUSIP of the security */
+  cusip: string;
+  /** Issuer name as reported (e.g. "APPLE INC") */
+  issuer: string;
+  /** Class of security (e.g. "COM") */
+  titleOfClass: string;
+  /** Market value in US dollars */
+  value: number;
+  /** Number of shares, or principal amount for debt */
+  shares: number;
+  /** Whether `shares` is a share count ("SH") or principal amount ("PRN") */
+  shareType: 'SH' | 'PRN';
+  /** Set for option positions */
+  putCall?: 'put' | 'call';
+  /** Investment discretion (e.g. "SOLE", "DFND") */
+  investmentDiscretion?: string;
+}
+
+/**
+ * A filer's 13F-HR holdings for one quarter
+ */
+export interface Holdings13FReport {
+  /** Filer (institutional manager) CIK */
+  filerCik: CIK;
+  /** Filer name */
+  filerName: string;
+  /** Quarter end the holdings are reported as of */
+  reportDate: Date;
+  /** Date the (latest) filing for the quarter was made */
+  filingDate: Date;
+  /** Accession numbers of the filings the holdings come from, original first */
+  accessionNumbers: string[];
+  /** Holdings table */
+  holdings: Holding13F[];
+  /** Total market value in US dollars */
+  totalValue: number;
+}
+
+/**
+ * Parameters for a filer's 13F-HR holdings
+ */
+export interface InstitutionalHoldingsParams {
+  /** Filer (institutional manager) CIK, with or without leading zeros */
+  cik: string;
+  /** Earliest quarter end (inclusive) */
+  from?: Date;
+  /** Latest quarter end (inclusive) */
+  to?: Date;
+  /** Maximum number of quarters to return, most recent first (default: 4) */
+  limit?: number;
+}
+
+/**
+ * How a filer's position changed from the previous quarter
+ */
+export type PositionChange = 'new' | 'increased' | 'decreased' | 'unchanged' | 'exited';
+
+/**
+ * A filer's position in a security, compared with the previous quarter
+ */
+export interface InstitutionalHolder {
+  /** Filer (institutional manager) CIK */
+  filerCik: CIK;
+  /** Filer name */
+  filerName: string;
+  /** Quarter end of the latest report */
+  reportDate: Date;
+  /** Shares held at the latest quarter end (0 if exited) */
+  shares: number;
+  /** Market value in US dollars at the latest quarter end */
+  value: number;
+  /** Shares held at the previous quarter end (0 if new) */
+  previousShares: number;
+  /** Change in shares from the previous quarter */
+  sharesChange: number;
+  /** Kind of change from the previous quarter */
+  change: PositionChange;
+}
+
+/**
+ * Parameters for filtering 13F filers to the holders of a security
+ */
+export interface FilerHoldersParams {
+  /** Stock symbol or ticker */
+  symbol: string;
+  /** Filer CIKs to check (at least one; EDGAR has no index of 13F filers by security) */
+  filers: string[];
+  /**
+   * CUSIP of the security. Recommended: without it holdings are matched
+   * by issuer name, which can miss or conflate share classes.
+   */
+  cusip?: string;
+}
+
+/**
+ * Frames API response structure from SEC EDGAR: one concept for every
+ * filer in a calendar period
+ * https://data.sec.gov/api/xbrl/frames/{taxonomy}/{tag}/{unit}/{period}.json
+ */
+export interface FramesResponse {
+  taxonomy: string;
+  tag: string;
+  ccp: string; // Calendar period (e.g. "CY2024", "CY2024Q1", "CY2024Q4I")
+  uom: string;
+  label: string;
+  description: string;
+  pts: number;
+  data: Array<{
+    accn: string;
+    cik: number;
+    entityName: string;
+    loc?: string; // e.g. "US-CA"
+    start?: string; // YYYY-MM-DD (duration frames only)
+    end: string; // YYYY-MM-DD
+    val: number;
+  }>;
+}
+
+/**
+ * Zod schema for FramesResponse validation
+ */
+export const FramesResponseSchema = z.object({
+  taxonomy: z.string(),
+  tag: z.string(),
+  ccp: z.string(),
+  uom: z.string(),
+  label: z.string().nullable().transform((v) => v ?? ''),
+  description: z.string().nullable().transform((v) => v ?? ''),
+  pts: z.number(),
+  data: z.array(
+    z.object({
+      accn: z.string(),
+      cik: z.number(),
+      entityName: z.string(),
+      loc: z.string().optional(),
+      start: z.string().optional(),
+      end: z.string(),
+      val: z.number(),
+    })
+  ),
+});
+
+/**
+ * Parameters for a single-concept frame
+ */
+export interface FrameParams {
+  /** XBRL taxonomy (default: 'us-gaap') */
+  taxonomy?: 'us-gaap' | 'ifrs-full' | 'dei';
+  /** Concept name (e.g. "Revenues") */
+  tag: string;
+  /** Unit of measure (default: 'USD'; e.g. 'USD-per-shares', 'shares') */
+  unit?: string;
+  /**
+   * Calendar period: "CY2024" (annual), "CY2024Q1" (quarterly) or
+   * "CY2024Q1I" (instant, for balance sheet items)
+   */
+  period: string;
+}
+
+/**
+ * One company's value in a cross-sectional dataset
+ */
+export interface FrameDatum {
+  /** Company CIK */
+  cik: CIK;
+  /** Primary ticker, if the company has one */
+  ticker?: string;
+  /** All tickers for the company */
+  tickers: string[];
+  /** Company name */
+  entityName: string;
+  /** Location code (e.g. "US-CA") */
+  location?: string;
+  /** End of the reported period */
+  end: Date;
+  /** Reported value */
+  value: number;
+  /** Accession number of the filing the value comes from */
+  accessionNumber: string;
+  /** Concept the value was reported under */
+  tag: string;
+}
+
+/**
+ * A cross-sectional dataset: one value per company for a calendar period
+ */
+export interface Frame {
+  /** Calendar period (e.g. "CY2024") */
+  period: string;
+  /** Unit of measure */
+  unit: string;
+  /** Concept label (single-concept frames) */
+  label?: string;
+  /** One entry per company */
+  data: FrameDatum[];
+}
+
+/**
+ * Parameters for a cross-sectional dataset of a standard statement line,
+ * sourced through the concept map
+ */
+export type FieldFrameParams =
+  | { statement: 'income'; field: IncomeField; period: string }
+  | { statement: 'balance'; field: BalanceField; period: string }
+  | { statement: 'cashFlow'; field: CashFlowField; period: string };
+
 /**
  * Cache entry with TTL
  */
@@ -0,0 +1,63 @@
+/**
+ * Minimal XML reading for SEC filings.
+ *
+ * EDGAR ownership and 13F documents are small, flat XML, so values are read
+ * with targeted element matching rather than a full XML parser.
+ */
+
+/**
+ * Remove namespace prefixes from element names (e.g. `<ns1:infoTable>`).
+ */
+export function stripNamespacePrefixes(xml: string): string {
+  return xml.replace(/<(\/?)[A-Za-z_][\w.-]*:/g, '<$1');
+}
+
+/**
+ * Contents of every `<tag>` element (the tag must not nest in itself).
+ */
+export function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1] ?? '');
+}
+
+/**
+ * Trimmed text of the first `<tag>` element, if non-empty.
+ */
+export function text(xml: string, tag: string): string | undefined {
+  const content = elements(xml, tag)[0];
+  const decoded = content === undefined ? '' : decodeEntities(content.replace(/<[^>]*>/g, '')).trim();
+  return decoded || undefined;
+}
+
+/**
+ * Text of a `<tag><value>...</value></tag>` element.
+ *
+ * Elements carrying only a footnote reference (Form 4) have no value.
+ */
+export function value(xml: string, tag: string): string | undefined {
+  const content = elements(xml, tag)[0];
+  return content === undefined ? undefined : text(content, 'value');
+}
+
+/**
+ * Parse a number, ignoring thousands separators.
+ */
+export function number(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const parsed = Number(raw.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Decode XML character and entity references.
+ */
+export function decodeEntities(raw: string): string {
+  return raw
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -5,4 +5,5 @@
  */
 
 export { StooqAdapter } from './stooq.adapter';
+export { STOOQ_SYMBOLOGY } from './symbology';
 export type * from './types';
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { StooqAdapter } from './stooq.adapter'
 const LIVE = process.env.LIVE_TESTS === 'true'
 
@@ -32,4 +32,135 @@ describe('StooqAdapter (Mocked)', () => {
     expect(adapter).toBeDefined()
     expect(typeof adapter.getHistoricalPrices).toBe('function')
   })
+
+  it('should report forex support', () => {
+    expect(new StooqAdapter().getCapabilities().forex).toBe(true)
+  })
+})
+
+describe('StooqAdapter symbology', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const mockCsvEndpoint = (body = 'Date,Open,High,Low,Close,Volume\n2024-01-02,10,11,9,10.5,1000\n') => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      text: async () => body,
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it.each([
+    ['AAPL', 's=aapl.us&'],
+    ['BRK.B', 's=brk-b.us&'],
+    ['XLON:VOD', 's=vod.uk&'],
+    ['^SPX', 's=%5Espx&'],
+    ['EUR/USD', 's=eurusd&'],
+    ['XETR:SAP', 's=sap.de&'],
+    ['XTKS:7203', 's=7203.jp&'],
+    ['XWAR:PKN', 's=pkn&'],
+    ['/CL', 's=cl.f&'],
+    ['US10Y', 's=10usy.b&'],
+  ])('requests %s as the Stooq symbol', async (symbol, query) => {
+    const fetchMock = mockCsvEndpoint()
+    const adapter = new StooqAdapter()
+
+    const prices = await adapter.getHistoricalPrices({ symbol, from: new Date('2024-01-01'), to: new Date('2024-01-31') })
+
+    expect(String(fetchMock.mock.calls[0]![0])).toContain(query)
+    expect(prices).toHaveLength(1)
+  })
+
+  it('rejects symbols Stooq cannot represent', async () => {
+    const fetchMock = mockCsvEndpoint()
+    const adapter = new StooqAdapter()
+
+    await expect(
+      adapter.getHistoricalPrices({ symbol: 'BTC/USD', from: new Date('2024-01-01'), to: new Date('2024-01-31') })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('StooqAdapter intervals and responses', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const range = { from: '2024-01-01', to: '2024-12-31' }
+
+  const mockBody = (body: string) => {
+    const fetchMock = vi.fn(async () => ({ ok: true, text: async () => body }))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it.each([
+    [undefined, 'i=d'],
+    ['1wk', 'i=w'],
+    ['1mo', 'i=m'],
+    ['q', 'i=q'],
+    ['1y', 'i=y'],
+  ])('requests %s bars as %s', async (interval, query) => {
+    const fetchMock = mockBody('Date,Open,High,Low,Close,Volume\n2024-01-31,10,11,9,10.5,1000\n')
+    const adapter = new StooqAdapter()
+
+    await adapter.getHistoricalPrices({ symbol: 'AAPL', ...range, interval })
+
+    expect(String(fetchMock.mock.calls[0]![0])).toContain(query)
+  })
+
+  it('rejects intraday intervals as unsupported', async () => {
+    const fetchMock = mockBody('')
+    const adapter = new StooqAdapter()
+
+    await expect(
+      adapter.getHistoricalPrices({ symbol: 'AAPL', ...range, interval: '5m' })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('parses series without a Volume column', async () => {
+    mockBody('Date,Open,High,Low,Close\r\n2024-01-02,1.1036,1.1046,1.0939,1.0942\r\n')
+    const adapter = new StooqAdapter()
+
+    const prices = await adapter.getHistoricalPrices({ symbol: 'EUR/USD', ...range })
+
+    expect(prices).toEqual([
+      {
+        date: new Date('2024-01-02'),
+        ohlcv: { open: 1.1036, high: 1.1046, low: 1.0939, close: 1.0942, volume: 0 },
+      },
+    ])
+  })
+
+  it('raises INVALID_REQUEST for "No data" responses', async () => {
+    mockBody('No data')
+    const adapter = new StooqAdapter()
+
+    await expect(adapter.getHistoricalPrices({ symbol: 'NOPE', ...range })).rejects.toMatchObject({
+      name: 'AdapterError',
+      code: 'INVALID_REQUEST',
+    })
+  })
+
+  it('raises RATE_LIMITED when the daily hits limit is exceeded', async () => {
+    mockBody('Exceeded the daily hits limit')
+    const adapter = new StooqAdapter()
+
+    await expect(adapter.getHistoricalPrices({ symbol: 'AAPL', ...range })).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+    })
+  })
+
+  it('wraps other non-CSV responses as UNKNOWN', async () => {
+    mockBody('<html>Service unavailable</html>')
+    const adapter = new StooqAdapter()
+
+    await expect(adapter.getHistoricalPrices({ symbol: 'AAPL', ...range })).rejects.toMatchObject({
+      code: 'UNKNOWN',
+    })
+  })
 })
@@ -1,7 +1,9 @@
 /**
  * Stooq CSV data adapter.
  * 
- * Provides historical price data from Stooq CSV files.
+ * Provides historical price data from Stooq CSV files: US, UK, German,
+ * Japanese and Polish equities, indices, FX, commodity futures and bond
+ * yields, in daily to yearly bars.
  * Used as fallback when Yahoo Finance is unavailable.
  */
 
@@ -15,11 +17,31 @@ import type {
 } from '@open-fin-terminal/adapters';
 import { AdapterError } from '@open-fin-terminal/adapters';
 import type { Quote, HistoricalPrice, Fundamentals, OHLCV } from '@open-fin-terminal/shared';
+import { toProviderSymbol } from '@open-fin-terminal/shared';
+import { STOOQ_SYMBOLOGY } from './symbology';
 
 const STOOQ_CSV_BASE = 'https://stooq.com/q/d/l';
 const USER_AGENT = 'Open Financial Terminal (https://github.com/borealBytes/open-fin-terminal)';
 const HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
 
+/**
+ * Stooq bar intervals (the `i` parameter) by requested interval.
+ */
+const STOOQ_INTERVALS: Record<string, string> = {
+  d: 'd',
+  '1d': 'd',
+  w: 'w',
+  '1w': 'w',
+  '1wk': 'w',
+  m: 'm',
+  '1mo': 'm',
+  q: 'q',
+  '1q': 'q',
+  '3mo': 'q',
+  y: 'y',
+  '1y': 'y',
+};
+
 /**
  * Stooq adapter for CSV historical data.
  * 
@@ -29,6 +51,7 @@ export class StooqAdapter implements DataAdapter {
   readonly name = 'stooq';
   readonly type = 'built-in' as const;
   readonly requiresSetup = false;
+  readonly symbology = STOOQ_SYMBOLOGY;
 
   private lastHealthCheck: HealthCheck | null = null;
 
@@ -89,9 +112,11 @@ export class StooqAdapter implements DataAdapter {
       fundamentals: false,
       options: false,
       economic: false,
-      forex: false,
+      forex: true,
       crypto: false,
       news: false,
+      insiderTransactions: false,
+      corporateActions: false,
       realtime: false,
     };
   }
@@ -109,20 +134,39 @@ export class StooqAdapter implements DataAdapter {
 
   /**
    * Get historical price data from Stooq CSV.
+   *
+   * Intervals are daily to yearly (`1d`, `1wk`, `1mo`, `3mo`, `1y`, or
+   * Stooq's `d`/`w`/`m`/`q`/`y`); intraday intervals are unsupported.
    */
   async getHistoricalPrices(params: HistoricalPriceParams): Promise<HistoricalPrice[]> {
-    const { symbol, from, to } = params;
+    const { symbol, from, to, interval = '1d' } = params;
+
+    const stooqInterval = STOOQ_INTERVALS[interval];
+    if (!stooqInterval) {
+      throw new AdapterError(
+        `Stooq does not provide ${interval} bars`,
+        this.name,
+        'UNSUPPORTED_OPERATION'
+      );
+    }
 
     try {
-      // Stooq uses .us suffix for US stocks
-      const stooqSymbol = symbol.toLowerCase() + '.us';
+      // e.g. "aapl.us", "vod.uk", "^spx", "eurusd"
+      const stooqSymbol = toProviderSymbol(symbol, this.symbology);
+      if (!stooqSymbol) {
+        throw new AdapterError(
+          `Stooq has no symbol for ${symbol}`,
+          this.name,
+          'INVALID_REQUEST'
+        );
+      }
 
       // Format dates as YYYYMMDD
       const fromDate = new Date(from).toISOString().split('T')[0].replace(/-/g, '');
       const toDate = new Date(to).toISOString().split('T')[0].replace(/-/g, '');
 
       const response = await fetch(
-        `${STOOQ_CSV_BASE}/?s=${stooqSymbol}&d1=${fromDate}&d2=${toDate}&i=d`,
+        `${STOOQ_CSV_BASE}/?s=${encodeURIComponent(stooqSymbol)}&d1=${fromDate}&d2=${toDate}&i=${stooqInterval}`,
         {
           headers: { 'User-Agent': USER_AGENT },
         }
@@ -133,11 +177,9 @@ export class StooqAdapter implements DataAdapter {
       }
 
       const csvText = await response.text();
-      
-      // Parse CSV
-      const prices = this.parseCSV(csvText);
+      this.checkResponse(csvText, symbol);
 
-      return prices;
+      return this.parseCSV(csvText);
     } catch (error) {
       if (error instanceof AdapterError) {
         throw error;
@@ -162,31 +204,66 @@ export class StooqAdapter implements DataAdapter {
     );
   }
 
+  /**
+   * Raise typed errors for Stooq's plain-text responses, which are
+   * served with HTTP 200 in place of CSV.
+   */
+  private checkResponse(body: string, symbol: string): void {
+    const text = body.trim();
+
+    if (/^no data/i.test(text)) {
+      throw new AdapterError(
+        `No Stooq data for ${symbol}`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
+    if (/exceeded the daily hits limit/i.test(text)) {
+      throw new AdapterError(
+        'Stooq daily request limit exceeded',
+        this.name,
+        'RATE_LIMITED'
+      );
+    }
+    if (!text.startsWith('Date,')) {
+      throw new Error(`Unexpected Stooq response: ${text.slice(0, 80)}`);
+    }
+  }
+
   /**
    * Parse Stooq CSV format.
+   *
+   * Columns are read by header name; FX and yield series have no
+   * Volume column, so volume is 0 for them.
    */
   private parseCSV(csvText: string): HistoricalPrice[] {
-    const lines = csvText.trim().split('\n');
+    const lines = csvText.trim().split(/\r?\n/);
     
     if (lines.length < 2) {
       return [];
     }
 
+    const header = lines[0]!.split(',');
+    const field = (parts: string[], name: string) => {
+      const index = header.indexOf(name);
+      return index < 0 ? undefined : parts[index];
+    };
+
     // Skip header row
     const dataLines = lines.slice(1);
     const prices: HistoricalPrice[] = [];
 
     for (const line of dataLines) {
       const parts = line.split(',');
-      
-      if (parts.length < 6) {
-        continue; // Skip invalid rows
-      }
-
-      const [date, open, high, low, close, volume] = parts;
+      const date = field(parts, 'Date');
+      const open = field(parts, 'Open');
+      const high = field(parts, 'High');
+      const low = field(parts, 'Low');
+      const close = field(parts, 'Close');
+      const volume = field(parts, 'Volume');
 
       // Skip rows with invalid data
-      if (!date || !open || !high || !low || !close || !volume) {
+      if (!date || !open || !high || !low || !close) {
         continue;
       }
 
@@ -195,7 +272,7 @@ export class StooqAdapter implements DataAdapter {
         high: parseFloat(high),
         low: parseFloat(low),
         close: parseFloat(close),
-        volume: parseInt(volume, 10)
+        volume: volume ? parseInt(volume, 10) : 0
       };
 
       prices.push({
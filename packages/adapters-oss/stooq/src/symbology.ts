@@ -0,0 +1,34 @@
+/**
+ * Stooq symbol conventions.
+ */
+
+import type { SymbologyRules } from '@open-fin-terminal/shared';
+import { usListingSuffixes } from '@open-fin-terminal/shared';
+
+/**
+ * Stooq symbology: "brk-b.us", "vod.uk", "sap.de", "7203.jp", "pkn"
+ * (Warsaw listings have no suffix), "^spx", "eurusd", "cl.f", "10usy.b".
+ */
+export const STOOQ_SYMBOLOGY: SymbologyRules = {
+  case: 'lower',
+  shareClassSeparator: '-',
+  listingSuffixes: {
+    ...usListingSuffixes('.us'),
+    XLON: '.uk',
+    XETR: '.de',
+    XFRA: '.de',
+    XTKS: '.jp',
+    XHKG: '.hk',
+    XBUD: '.hu',
+    XWAR: '',
+  },
+  defaultSuffix: '.us',
+  index: '^{ticker}',
+  indexAliases: {
+    COMP: 'NDQ',
+    NKY: 'NKX',
+  },
+  fx: '{base}{quote}',
+  future: '{ticker}.f',
+  bond: '{tenor}{country}y.b',
+};
@@ -5,4 +5,5 @@
  */
 
 export { YahooFinanceAdapter } from './yahoo-finance.adapter';
+export { YAHOO_SYMBOLOGY } from './symbology';
 export type * from './types';
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { chunkRange, intradayLimits, sessionTagger, tradingSession } from './intraday'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('intradayLimits', () => {
+  it('should map 1h to Yahoo 60m bars', () => {
+    expect(intradayLimits('1h')?.yahooInterval).toBe('60m')
+  })
+
+  it('should not limit daily and longer intervals', () => {
+    expect(intradayLimits('1d')).toBeUndefined()
+    expect(intradayLimits('1wk')).toBeUndefined()
+  })
+})
+
+describe('chunkRange', () => {
+  const now = new Date('2024-06-30T00:00:00Z')
+
+  it('should split long ranges into windows Yahoo accepts', () => {
+    const windows = chunkRange(new Date(now.getTime() - 20 * DAY), now, intradayLimits('1m')!, now)
+
+    expect(windows).toHaveLength(3)
+    expect(windows[0]![0]).toEqual(new Date(now.getTime() - 20 * DAY))
+    expect(windows[0]![1].getTime() - windows[0]![0].getTime()).toBe(7 * DAY)
+    expect(windows[2]![1]).toEqual(now)
+  })
+
+  it('should clip the range to the history Yahoo keeps', () => {
+    const windows = chunkRange(new Date(now.getTime() - 90 * DAY), now, intradayLimits('5m')!, now)
+
+    expect(windows).toHaveLength(1)
+    expect(now.getTime() - windows[0]![0].getTime()).toBeLessThan(60 * DAY)
+  })
+
+  it('should return no windows for ranges older than Yahoo keeps', () => {
+    const to = new Date(now.getTime() - 40 * DAY)
+    expect(chunkRange(new Date(to.getTime() - DAY), to, intradayLimits('1m')!, now)).toEqual([])
+  })
+})
+
+describe('tradingSession', () => {
+  // New York in summer: UTC-4
+  const gmtoffset = -4 * 3600
+  const at = (utc: string) => Date.parse(utc) / 1000
+
+  it('should tag bars by exchange-local time', () => {
+    expect(tradingSession(at('2024-06-28T12:00:00Z'), gmtoffset)).toBe('pre')
+    expect(tradingSession(at('2024-06-28T13:30:00Z'), gmtoffset)).toBe('regular')
+    expect(tradingSession(at('2024-06-28T19:59:00Z'), gmtoffset)).toBe('regular')
+    expect(tradingSession(at('2024-06-28T20:00:00Z'), gmtoffset)).toBe('post')
+  })
+
+  it('should use the regular trading period when given', () => {
+    // London: 08:00-16:30 BST (UTC+1)
+    const regular = {
+      timezone: 'BST',
+      start: at('2024-06-28T07:00:00Z'),
+      end: at('2024-06-28T15:30:00Z'),
+      gmtoffset: 3600,
+    }
+
+    expect(tradingSession(at('2024-06-27T06:59:00Z'), 3600, regular)).toBe('pre')
+    expect(tradingSession(at('2024-06-27T07:00:00Z'), 3600, regular)).toBe('regular')
+    expect(tradingSession(at('2024-06-27T15:30:00Z'), 3600, regular)).toBe('post')
+  })
+})
+
+describe('sessionTagger', () => {
+  const at = (utc: string) => Date.parse(utc) / 1000
+  const regular = (start: string, end: string, gmtoffset: number) => ({
+    timezone: gmtoffset === -5 * 3600 ? 'EST' : 'EDT',
+    start: at(start),
+    end: at(end),
+    gmtoffset,
+  })
+  // Requested after US DST started on 2024-03-10: current offset is UTC-4
+  const meta = {
+    symbol: 'AAPL',
+    currency: 'USD',
+    regularMarketPrice: 170,
+    dataGranularity: '5m',
+    gmtoffset: -4 * 3600,
+    currentTradingPeriod: {
+      pre: regular('2024-03-11T08:00:00Z', '2024-03-11T13:30:00Z', -4 * 3600),
+      regular: regular('2024-03-11T13:30:00Z', '2024-03-11T20:00:00Z', -4 * 3600),
+      post: regular('2024-03-11T20:00:00Z', '2024-03-12T00:00:00Z', -4 * 3600),
+    },
+  }
+
+  it("should tag bars by their own day's trading period across a DST change", () => {
+    const tagOf = sessionTagger({
+      ...meta,
+      tradingPeriods: [
+        [regular('2024-03-08T14:30:00Z', '2024-03-08T21:00:00Z', -5 * 3600)],
+        [regular('2024-03-11T13:30:00Z', '2024-03-11T20:00:00Z', -4 * 3600)],
+      ],
+    })
+
+    // 09:00 and 15:30 EST on the Friday before the change
+    expect(tagOf(at('2024-03-08T14:00:00Z'))).toBe('pre')
+    expect(tagOf(at('2024-03-08T20:30:00Z'))).toBe('regular')
+    expect(tagOf(at('2024-03-08T21:00:00Z'))).toBe('post')
+    // 09:30 EDT on the Monday after
+    expect(tagOf(at('2024-03-11T13:30:00Z'))).toBe('regular')
+  })
+
+  it('should read extended-hours trading periods', () => {
+    const tagOf = sessionTagger({
+      ...meta,
+      tradingPeriods: {
+        pre: [[regular('2024-03-08T09:00:00Z', '2024-03-08T14:30:00Z', -5 * 3600)]],
+        regular: [[regular('2024-03-08T14:30:00Z', '2024-03-08T21:00:00Z', -5 * 3600)]],
+        post: [[regular('2024-03-08T21:00:00Z', '2024-03-09T01:00:00Z', -5 * 3600)]],
+      },
+    })
+
+    expect(tagOf(at('2024-03-08T14:00:00Z'))).toBe('pre')
+  })
+
+  it("should fall back to the exchange timezone's offset on each bar's date", () => {
+    const tagOf = sessionTagger({ ...meta, exchangeTimezoneName: 'America/New_York' })
+
+    expect(tagOf(at('2024-03-08T14:00:00Z'))).toBe('pre')
+    expect(tagOf(at('2024-03-08T14:30:00Z'))).toBe('regular')
+    expect(tagOf(at('2024-03-11T13:30:00Z'))).toBe('regular')
+  })
+
+  it('should use the current offset when nothing else is known', () => {
+    const tagOf = sessionTagger({ ...meta, exchangeTimezoneName: 'Not/AZone' })
+    expect(tagOf(at('2024-03-11T13:30:00Z'))).toBe('regular')
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Yahoo Finance intraday rules: interval limits, range chunking and
+ * trading-session tagging.
+ */
+
+import type { TradingSession } from '@open-fin-terminal/shared';
+import type { YahooChartResult, YahooTradingPeriod } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Yahoo's limits per intraday interval: how far back bars are kept and
+ * the longest range one request may span.
+ */
+interface IntradayLimits {
+  /** Yahoo interval name */
+  yahooInterval: string;
+  /** Days of history kept */
+  lookbackDays: number;
+  /** Longest range per request, in days */
+  windowDays: number;
+}
+
+const INTRADAY_LIMITS: Record<string, IntradayLimits> = {
+  '1m': { yahooInterval: '1m', lookbackDays: 30, windowDays: 7 },
+  '2m': { yahooInterval: '2m', lookbackDays: 60, windowDays: 60 },
+  '5m': { yahooInterval: '5m', lookbackDays: 60, windowDays: 60 },
+  '15m': { yahooInterval: '15m', lookbackDays: 60, windowDays: 60 },
+  '30m': { yahooInterval: '30m', lookbackDays: 60, windowDays: 60 },
+  '60m': { yahooInterval: '60m', lookbackDays: 730, windowDays: 730 },
+  '1h': { yahooInterval: '60m', lookbackDays: 730, windowDays: 730 },
+};
+
+/**
+ * US regular session (09:30-16:00), used when the response has no
+ * trading period
+ */
+const DEFAULT_REGULAR_SESSION = { start: 9.5 * 3600, end: 16 * 3600 };
+
+/**
+ * Limits for an intraday interval, or undefined for daily and longer.
+ */
+export function intradayLimits(interval: string): IntradayLimits | undefined {
+  return INTRADAY_LIMITS[interval];
+}
+
+/**
+ * Split a range into windows Yahoo accepts for an intraday interval.
+ *
+ * The start is moved up to the oldest bar Yahoo keeps.
+ *
+ * @returns Consecutive [from, to] windows, oldest first; empty if the
+ *   whole range is older than Yahoo keeps
+ */
+export function chunkRange(
+  from: Date,
+  to: Date,
+  limits: IntradayLimits,
+  now: Date = new Date()
+): Array<[Date, Date]> {
+  // Stay a minute inside the lookback so the first request isn't rejected
+  const oldest = now.getTime() - limits.lookbackDays * DAY_MS + 60_000;
+  const start = Math.max(from.getTime(), oldest);
+  const end = Math.min(to.getTime(), now.getTime());
+  const windowMs = limits.windowDays * DAY_MS;
+
+  const windows: Array<[Date, Date]> = [];
+  for (let windowStart = start; windowStart < end; windowStart += windowMs) {
+    windows.push([new Date(windowStart), new Date(Math.min(windowStart + windowMs, end))]);
+  }
+  return windows;
+}
+
+/**
+ * Session tagger for the bars of a chart response.
+ *
+ * `meta.gmtoffset` and `meta.currentTradingPeriod` describe the exchange
+ * as of the request, so on their own they misread bars from before a
+ * daylight saving change. Each bar is compared with its own day's regular
+ * period from `meta.tradingPeriods`; days without one use the hours of
+ * the current period at the bar date's offset in the exchange timezone.
+ */
+export function sessionTagger(
+  meta: YahooChartResult['meta']
+): (timestamp: number) => TradingSession {
+  const periods = new Map<number, YahooTradingPeriod>();
+  for (const period of regularTradingPeriods(meta.tradingPeriods)) {
+    periods.set(localDay(period.start, period.gmtoffset), period);
+  }
+
+  return (timestamp) => {
+    const zoneOffset = meta.exchangeTimezoneName
+      ? timezoneOffset(timestamp, meta.exchangeTimezoneName)
+      : undefined;
+    const gmtoffset = zoneOffset ?? meta.gmtoffset ?? 0;
+    const period = periods.get(localDay(timestamp, gmtoffset));
+    return period
+      ? tradingSession(timestamp, period.gmtoffset, period)
+      : tradingSession(timestamp, gmtoffset, meta.currentTradingPeriod?.regular);
+  };
+}
+
+/**
+ * Tag a bar with its trading session in exchange-local time.
+ *
+ * @param timestamp - Bar start (Unix seconds)
+ * @param gmtoffset - Exchange offset from UTC in seconds on the bar's date
+ * @param regular - Regular trading period whose exchange-local hours apply
+ */
+export function tradingSession(
+  timestamp: number,
+  gmtoffset: number,
+  regular?: YahooTradingPeriod
+): TradingSession {
+  const session = regular
+    ? { start: localSeconds(regular.start, regular.gmtoffset), end: localSeconds(regular.end, regular.gmtoffset) }
+    : DEFAULT_REGULAR_SESSION;
+  const local = localSeconds(timestamp, gmtoffset);
+
+  if (local < session.start) return 'pre';
+  if (local >= session.end) return 'post';
+  return 'regular';
+}
+
+/**
+ * Seconds since exchange-local midnight.
+ */
+function localSeconds(timestamp: number, gmtoffset: number): number {
+  return (((timestamp + gmtoffset) % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+}
+
+/**
+ * Days since the epoch in exchange-local time.
+ */
+function localDay(timestamp: number, gmtoffset: number): number {
+  return Math.floor((timestamp + gmtoffset) / DAY_SECONDS);
+}
+
+function regularTradingPeriods(
+  tradingPeriods: YahooChartResult['meta']['tradingPeriods']
+): YahooTradingPeriod[] {
+  if (!tradingPeriods) {
+    return [];
+  }
+  return (Array.isArray(tradingPeriods) ? tradingPeriods : tradingPeriods.regular).flat();
+}
+
+/** Formatters by IANA timezone; null for zones the runtime doesn't know */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * Offset from UTC in seconds of an IANA timezone at a moment, or
+ * undefined if the timezone is unknown.
+ */
+function timezoneOffset(timestamp: number, timeZone: string): number | undefined {
+  let formatter = zoneFormatters.get(timeZone);
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      formatter = null;
+    }
+    zoneFormatters.set(timeZone, formatter);
+  }
+  if (!formatter) {
+    return undefined;
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(timestamp * 1000)).map((part) => [part.type, Number(part.value)])
+  );
+  const local = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+  return local / 1000 - Math.floor(timestamp);
+}
@@ -0,0 +1,57 @@
+/**
+ * Yahoo Finance symbol conventions.
+ */
+
+import type { SymbologyRules } from '@open-fin-terminal/shared';
+import { usListingSuffixes } from '@open-fin-terminal/shared';
+
+/**
+ * Yahoo Finance symbology: "BRK-B", "VOD.L", "^GSPC", "EURUSD=X", "BTC-USD",
+ * "CL=F".
+ */
+export const YAHOO_SYMBOLOGY: SymbologyRules = {
+  case: 'upper',
+  shareClassSeparator: '-',
+  listingSuffixes: {
+    ...usListingSuffixes(''),
+    XLON: '.L',
+    XETR: '.DE',
+    XFRA: '.F',
+    XPAR: '.PA',
+    XAMS: '.AS',
+    XBRU: '.BR',
+    XMIL: '.MI',
+    XMAD: '.MC',
+    XSWX: '.SW',
+    XSTO: '.ST',
+    XOSL: '.OL',
+    XCSE: '.CO',
+    XHEL: '.HE',
+    XWAR: '.WA',
+    XTSE: '.TO',
+    XTSX: '.V',
+    XTKS: '.T',
+    XHKG: '.HK',
+    XASX: '.AX',
+    XNSE: '.NS',
+    XBOM: '.BO',
+    XKRX: '.KS',
+    XSHG: '.SS',
+    XSHE: '.SZ',
+    BVMF: '.SA',
+    XMEX: '.MX',
+  },
+  defaultSuffix: '',
+  index: '^{ticker}',
+  indexAliases: {
+    SPX: 'GSPC',
+    COMP: 'IXIC',
+    UKX: 'FTSE',
+    DAX: 'GDAXI',
+    CAC: 'FCHI',
+    NKY: 'N225',
+  },
+  fx: '{base}{quote}=X',
+  crypto: '{base}-{quote}',
+  future: '{ticker}=F',
+};
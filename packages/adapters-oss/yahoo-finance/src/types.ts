@@ -4,73 +4,348 @@
 
 import { z } from 'zod';
 
+/**
+ * Yahoo market state. `PREPRE` and `POSTPOST` are the overnight hours
+ * outside the extended sessions.
+ */
+export type YahooMarketState = 'PREPRE' | 'PRE' | 'REGULAR' | 'POST' | 'POSTPOST' | 'CLOSED';
+
+/**
+ * Single quote in a Yahoo Finance quote response
+ */
+export interface YahooQuoteResult {
+  symbol: string;
+  regularMarketPrice: number;
+  /** Time of the last regular-session trade (Unix seconds) */
+  regularMarketTime: number;
+  regularMarketChange?: number;
+  regularMarketChangePercent?: number;
+  regularMarketPreviousClose?: number;
+  regularMarketOpen?: number;
+  regularMarketDayHigh?: number;
+  regularMarketDayLow?: number;
+  regularMarketVolume?: number;
+  /** 0 when there is no bid */
+  bid?: number;
+  /** 0 when there is no ask */
+  ask?: number;
+  /** In round lots for US equities */
+  bidSize?: number;
+  /** In round lots for US equities */
+  askSize?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  marketCap?: number;
+  trailingPE?: number;
+  currency?: string;
+  marketState?: YahooMarketState;
+}
+
 /**
  * Yahoo Finance quote response
  */
 export interface YahooQuoteResponse {
   quoteResponse: {
-    result: Array<{
-      symbol: string;
-      regularMarketPrice: number;
-      regularMarketChange: number;
-      regularMarketChangePercent: number;
-      regularMarketPreviousClose: number;
-      regularMarketOpen: number;
-      regularMarketDayHigh: number;
-      regularMarketDayLow: number;
-      regularMarketVolume: number;
-      fiftyTwoWeekHigh?: number;
-      fiftyTwoWeekLow?: number;
-      marketCap?: number;
-      currency?: string;
-    }>;
+    /** Rows are validated one at a time with {@link YahooQuoteResultSchema} */
+    result: unknown[];
+    error: null | { code: string; description: string };
+  };
+}
+
+/**
+ * Single contract in a Yahoo Finance options response
+ */
+export interface YahooOptionContract {
+  contractSymbol: string;
+  strike: number;
+  currency?: string;
+  lastPrice?: number;
+  bid?: number;
+  ask?: number;
+  volume?: number;
+  openInterest?: number;
+  /** Decimal (0.25 = 25%) */
+  impliedVolatility?: number;
+  inTheMoney?: boolean;
+  /** Unix seconds */
+  expiration: number;
+  /** Unix seconds */
+  lastTradeDate?: number;
+}
+
+/**
+ * Single result in a Yahoo Finance options response
+ */
+export interface YahooOptionChainResult {
+  underlyingSymbol: string;
+  /** Every listed expiration (Unix seconds, 00:00 UTC) */
+  expirationDates: number[];
+  quote?: YahooQuoteResult;
+  /** Contracts of the requested (default: nearest) expiration */
+  options: Array<{
+    expirationDate: number;
+    calls: YahooOptionContract[];
+    puts: YahooOptionContract[];
+  }>;
+}
+
+/**
+ * Yahoo Finance options response
+ */
+export interface YahooOptionChainResponse {
+  optionChain: {
+    result: YahooOptionChainResult[];
     error: null | { code: string; description: string };
   };
 }
 
+/**
+ * Trading period in a chart response's metadata (Unix seconds)
+ */
+export interface YahooTradingPeriod {
+  timezone: string;
+  start: number;
+  end: number;
+  gmtoffset: number;
+}
+
+/**
+ * Single result in a Yahoo Finance chart response
+ */
+export interface YahooChartResult {
+  meta: {
+    symbol: string;
+    currency: string;
+    regularMarketPrice: number;
+    dataGranularity: string;
+    /** Exchange offset from UTC in seconds */
+    gmtoffset?: number;
+    exchangeTimezoneName?: string;
+    currentTradingPeriod?: {
+      pre: YahooTradingPeriod;
+      regular: YahooTradingPeriod;
+      post: YahooTradingPeriod;
+    };
+    /**
+     * Trading periods of each day in an intraday range: regular periods
+     * only, or every session when extended hours were requested
+     */
+    tradingPeriods?: YahooTradingPeriod[][] | {
+      pre?: YahooTradingPeriod[][];
+      regular: YahooTradingPeriod[][];
+      post?: YahooTradingPeriod[][];
+    };
+  };
+  /** Bar start times (Unix seconds); absent when the range has no bars */
+  timestamp?: number[];
+  indicators: {
+    /** Arrays are absent when the range has no bars */
+    quote: Array<{
+      open?: (number | null)[];
+      high?: (number | null)[];
+      low?: (number | null)[];
+      close?: (number | null)[];
+      volume?: (number | null)[];
+    }>;
+    /** Split- and dividend-adjusted closes (daily and longer intervals) */
+    adjclose?: Array<{
+      adjclose: (number | null)[];
+    }>;
+  };
+  /** Requested with `events=div,splits`; keyed by Unix timestamp */
+  events?: {
+    dividends?: Record<string, YahooDividendEvent>;
+    splits?: Record<string, YahooSplitEvent>;
+  };
+}
+
+/**
+ * Dividend event in a chart response
+ */
+export interface YahooDividendEvent {
+  amount: number;
+  /** Ex-dividend date (Unix seconds) */
+  date: number;
+}
+
+/**
+ * Split event in a chart response
+ */
+export interface YahooSplitEvent {
+  /** Effective date (Unix seconds) */
+  date: number;
+  numerator: number;
+  denominator: number;
+  /** e.g. "4:1" */
+  splitRatio: string;
+}
+
 /**
  * Yahoo Finance chart (historical) response
  */
 export interface YahooChartResponse {
   chart: {
-    result: Array<{
-      meta: {
-        symbol: string;
-        currency: string;
-        regularMarketPrice: number;
-        dataGranularity: string;
-      };
-      timestamp: number[];
-      indicators: {
-        quote: Array<{
-          open: (number | null)[];
-          high: (number | null)[];
-          low: (number | null)[];
-          close: (number | null)[];
-          volume: (number | null)[];
-        }>;
-      };
-    }>;
+    /** Null when `error` is set */
+    result: YahooChartResult[] | null;
     error: null | { code: string; description: string };
   };
 }
 
+const YahooErrorSchema = z.object({
+  code: z.string(),
+  description: z.string(),
+});
+
+const YahooMarketStateSchema = z.enum(['PREPRE', 'PRE', 'REGULAR', 'POST', 'POSTPOST', 'CLOSED']);
+
+/**
+ * Zod schema for a single quote
+ */
+export const YahooQuoteResultSchema: z.ZodType<YahooQuoteResult> = z.object({
+  symbol: z.string(),
+  regularMarketPrice: z.number(),
+  regularMarketTime: z.number(),
+  regularMarketChange: z.number().optional(),
+  regularMarketChangePercent: z.number().optional(),
+  regularMarketPreviousClose: z.number().optional(),
+  regularMarketOpen: z.number().optional(),
+  regularMarketDayHigh: z.number().optional(),
+  regularMarketDayLow: z.number().optional(),
+  regularMarketVolume: z.number().optional(),
+  bid: z.number().optional(),
+  ask: z.number().optional(),
+  bidSize: z.number().optional(),
+  askSize: z.number().optional(),
+  fiftyTwoWeekHigh: z.number().optional(),
+  fiftyTwoWeekLow: z.number().optional(),
+  marketCap: z.number().optional(),
+  trailingPE: z.number().optional(),
+  currency: z.string().optional(),
+  marketState: YahooMarketStateSchema.optional(),
+});
+
 /**
  * Zod schema for quote response validation
  */
-export const YahooQuoteResponseSchema = z.object({
+export const YahooQuoteResponseSchema: z.ZodType<YahooQuoteResponse> = z.object({
   quoteResponse: z.object({
-    result: z.array(z.any()),
-    error: z.nullable(z.any()),
+    result: z.array(z.unknown()),
+    error: YahooErrorSchema.nullable(),
+  }),
+});
+
+const YahooOptionContractSchema = z.object({
+  contractSymbol: z.string(),
+  strike: z.number(),
+  currency: z.string().optional(),
+  lastPrice: z.number().optional(),
+  bid: z.number().optional(),
+  ask: z.number().optional(),
+  volume: z.number().optional(),
+  openInterest: z.number().optional(),
+  impliedVolatility: z.number().optional(),
+  inTheMoney: z.boolean().optional(),
+  expiration: z.number(),
+  lastTradeDate: z.number().optional(),
+});
+
+/**
+ * Zod schema for options response validation
+ */
+export const YahooOptionChainResponseSchema: z.ZodType<YahooOptionChainResponse> = z.object({
+  optionChain: z.object({
+    result: z.array(
+      z.object({
+        underlyingSymbol: z.string(),
+        expirationDates: z.array(z.number()),
+        quote: YahooQuoteResultSchema.optional(),
+        options: z.array(
+          z.object({
+            expirationDate: z.number(),
+            calls: z.array(YahooOptionContractSchema),
+            puts: z.array(YahooOptionContractSchema),
+          })
+        ),
+      })
+    ),
+    error: YahooErrorSchema.nullable(),
+  }),
+});
+
+const YahooTradingPeriodSchema = z.object({
+  timezone: z.string(),
+  start: z.number(),
+  end: z.number(),
+  gmtoffset: z.number(),
+});
+
+const NullableSeriesSchema = z.array(z.number().nullable());
+
+/**
+ * Zod schema for a single chart result
+ */
+export const YahooChartResultSchema: z.ZodType<YahooChartResult> = z.object({
+  meta: z.object({
+    symbol: z.string(),
+    currency: z.string(),
+    regularMarketPrice: z.number(),
+    dataGranularity: z.string(),
+    gmtoffset: z.number().optional(),
+    exchangeTimezoneName: z.string().optional(),
+    currentTradingPeriod: z
+      .object({
+        pre: YahooTradingPeriodSchema,
+        regular: YahooTradingPeriodSchema,
+        post: YahooTradingPeriodSchema,
+      })
+      .optional(),
+    tradingPeriods: z
+      .union([
+        z.array(z.array(YahooTradingPeriodSchema)),
+        z.object({
+          pre: z.array(z.array(YahooTradingPeriodSchema)).optional(),
+          regular: z.array(z.array(YahooTradingPeriodSchema)),
+          post: z.array(z.array(YahooTradingPeriodSchema)).optional(),
+        }),
+      ])
+      .optional(),
+  }),
+  timestamp: z.array(z.number()).optional(),
+  indicators: z.object({
+    quote: z.array(
+      z.object({
+        open: NullableSeriesSchema.optional(),
+        high: NullableSeriesSchema.optional(),
+        low: NullableSeriesSchema.optional(),
+        close: NullableSeriesSchema.optional(),
+        volume: NullableSeriesSchema.optional(),
+      })
+    ),
+    adjclose: z.array(z.object({ adjclose: NullableSeriesSchema })).optional(),
   }),
+  events: z
+    .object({
+      dividends: z.record(z.object({ amount: z.number(), date: z.number() })).optional(),
+      splits: z
+        .record(
+          z.object({
+            date: z.number(),
+            numerator: z.number(),
+            denominator: z.number(),
+            splitRatio: z.string(),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
 });
 
 /**
  * Zod schema for chart response validation
  */
-export const YahooChartResponseSchema = z.object({
+export const YahooChartResponseSchema: z.ZodType<YahooChartResponse> = z.object({
   chart: z.object({
-    result: z.array(z.any()),
-    error: z.nullable(z.any()),
+    result: z.array(YahooChartResultSchema).nullable(),
+    error: YahooErrorSchema.nullable(),
   }),
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { YahooFinanceAdapter } from './yahoo-finance.adapter'
 
 const LIVE = process.env.LIVE_TESTS === 'true'
@@ -52,8 +52,592 @@ maybeDescribe('[LIVE] YahooFinanceAdapter', () => {
 })
 
 describe('YahooFinanceAdapter (Mocked)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const quoteResult = (symbol: string) => ({
+    symbol,
+    regularMarketPrice: 100,
+    regularMarketTime: 1704825000,
+    regularMarketChange: 1,
+    regularMarketChangePercent: 1,
+    regularMarketPreviousClose: 99,
+    regularMarketOpen: 99.5,
+    regularMarketDayHigh: 101,
+    regularMarketDayLow: 98,
+    regularMarketVolume: 1000,
+  })
+
+  const mockQuoteEndpoint = () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const symbols = decodeURIComponent(new URL(url).searchParams.get('symbols') ?? '').split(',')
+      return {
+        ok: true,
+        json: async () => ({
+          quoteResponse: {
+            result: symbols.filter((s) => s !== 'MISSING').map(quoteResult),
+            error: null,
+          },
+        }),
+      }
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
   it('should instantiate without error', () => {
     const adapter = new YahooFinanceAdapter()
     expect(adapter).toBeDefined()
   })
+
+  it('getQuotes: fetches several symbols in one request', async () => {
+    const fetchMock = mockQuoteEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const quotes = await adapter.getQuotes({ symbols: ['AAPL', 'MSFT', 'BRK-B'] })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0]![0]).toContain('symbols=AAPL%2CMSFT%2CBRK-B')
+    expect(quotes.map((q) => q.symbol)).toEqual(['AAPL', 'MSFT', 'BRK-B'])
+    expect(quotes[0]!.price).toBe(100)
+  })
+
+  it('getQuotes: chunks large watchlists', async () => {
+    const fetchMock = mockQuoteEndpoint()
+    const adapter = new YahooFinanceAdapter()
+    const symbols = Array.from({ length: 120 }, (_, i) => `S${i}`)
+
+    const quotes = await adapter.getQuotes({ symbols })
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(quotes).toHaveLength(120)
+    expect(quotes.map((q) => q.symbol)).toEqual(symbols)
+  })
+
+  it('getQuotes: omits symbols without data', async () => {
+    mockQuoteEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const quotes = await adapter.getQuotes({ symbols: ['AAPL', 'MISSING'] })
+
+    expect(quotes.map((q) => q.symbol)).toEqual(['AAPL'])
+  })
+
+  it('getQuotes: drops malformed rows without failing the batch', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        quoteResponse: {
+          result: [
+            quoteResult('AAPL'),
+            { symbol: 'HALTED', regularMarketTime: 1704825000 },
+            { ...quoteResult('MSFT'), regularMarketTime: undefined },
+            quoteResult('GOOG'),
+          ],
+          error: null,
+        },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    const quotes = await adapter.getQuotes({ symbols: ['AAPL', 'HALTED', 'MSFT', 'GOOG'] })
+
+    expect(quotes.map((q) => q.symbol)).toEqual(['AAPL', 'GOOG'])
+  })
+
+  it('getQuotes: translates canonical symbols and reports them as requested', async () => {
+    const fetchMock = mockQuoteEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const quotes = await adapter.getQuotes({ symbols: ['BRK.B', 'XLON:VOD', '^SPX'] })
+
+    expect(fetchMock.mock.calls[0]![0]).toContain('symbols=BRK-B%2CVOD.L%2C%5EGSPC')
+    expect(quotes.map((q) => q.symbol)).toEqual(['BRK.B', 'XLON:VOD', '^SPX'])
+  })
+
+  it('getQuote: rejects listings Yahoo has no suffix for', async () => {
+    mockQuoteEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(adapter.getQuote({ symbol: 'XXXX:ABC' })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    })
+  })
+
+  it('getQuote: maps the full quote with the exchange timestamp', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        quoteResponse: {
+          result: [
+            {
+              ...quoteResult('AAPL'),
+              bid: 99.9,
+              ask: 100.1,
+              bidSize: 8,
+              askSize: 10,
+              fiftyTwoWeekHigh: 199.62,
+              fiftyTwoWeekLow: 143.9,
+              marketCap: 2_900_000_000_000,
+              trailingPE: 29.4,
+              currency: 'USD',
+              marketState: 'POST',
+            },
+          ],
+          error: null,
+        },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    const quote = await adapter.getQuote({ symbol: 'AAPL' })
+
+    expect(quote).toEqual({
+      symbol: 'AAPL',
+      price: 100,
+      bid: 99.9,
+      ask: 100.1,
+      bidSize: 8,
+      askSize: 10,
+      volume: 1000,
+      previousClose: 99,
+      open: 99.5,
+      high: 101,
+      low: 98,
+      high52Week: 199.62,
+      low52Week: 143.9,
+      marketCap: 2_900_000_000_000,
+      peRatio: 29.4,
+      currency: 'USD',
+      marketState: 'post',
+      timestamp: new Date('2024-01-09T18:30:00Z'),
+      realtime: false,
+    })
+  })
+
+  it.each([
+    ['PREPRE', 'closed'],
+    ['PRE', 'pre'],
+    ['REGULAR', 'regular'],
+    ['POSTPOST', 'closed'],
+    ['CLOSED', 'closed'],
+  ])('getQuote: maps market state %s to %s', async (marketState, expected) => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        quoteResponse: { result: [{ ...quoteResult('AAPL'), marketState, bid: 0, ask: 0 }], error: null },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    const quote = await adapter.getQuote({ symbol: 'AAPL' })
+
+    expect(quote.marketState).toBe(expected)
+    // Yahoo reports 0 when there is no bid or ask
+    expect(quote.bid).toBeUndefined()
+    expect(quote.ask).toBeUndefined()
+  })
+
+  it('getQuote: rejects malformed quotes', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        quoteResponse: { result: [{ ...quoteResult('AAPL'), regularMarketPrice: 'n/a' }], error: null },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(adapter.getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+      name: 'AdapterError',
+      code: 'UNKNOWN',
+    })
+  })
+
+  it('getQuotes: wraps HTTP failures in AdapterError', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 500, statusText: 'Server Error' })))
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(adapter.getQuotes({ symbols: ['AAPL'] })).rejects.toMatchObject({
+      name: 'AdapterError',
+      code: 'UNKNOWN',
+    })
+  })
+})
+
+describe('YahooFinanceAdapter intraday (Mocked)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const DAY = 24 * 60 * 60 * 1000
+  const bar = { open: 10, high: 11, low: 9, close: 10.5, volume: 100 }
+
+  // One pre-market, one regular and one post-market bar on each day in range
+  const mockChartEndpoint = () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const params = new URL(url).searchParams
+      const period1 = Number(params.get('period1'))
+      const day = Math.floor(period1 / 86400) * 86400
+      const timestamp = [day + 12 * 3600, day + 14 * 3600, day + 21 * 3600]
+      return {
+        ok: true,
+        json: async () => ({
+          chart: {
+            result: [
+              {
+                meta: {
+                  symbol: 'AAPL',
+                  currency: 'USD',
+                  regularMarketPrice: 10,
+                  dataGranularity: params.get('interval'),
+                  gmtoffset: -4 * 3600,
+                },
+                timestamp,
+                indicators: {
+                  quote: [
+                    {
+                      open: timestamp.map(() => bar.open),
+                      high: timestamp.map(() => bar.high),
+                      low: timestamp.map(() => bar.low),
+                      close: timestamp.map(() => bar.close),
+                      volume: timestamp.map(() => bar.volume),
+                    },
+                  ],
+                },
+              },
+            ],
+            error: null,
+          },
+        }),
+      }
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('getHistoricalPrices: chunks long 1m ranges and stitches the windows', async () => {
+    const fetchMock = mockChartEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const prices = await adapter.getHistoricalPrices({
+      symbol: 'AAPL',
+      from: new Date(Date.now() - 10 * DAY).toISOString(),
+      to: new Date().toISOString(),
+      interval: '1m',
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('includePrePost=false')
+    expect(prices).toHaveLength(2)
+    expect(prices.every((p) => p.session === 'regular')).toBe(true)
+    expect(prices[0]!.date.getTime()).toBeLessThan(prices[1]!.date.getTime())
+  })
+
+  it('getHistoricalPrices: includes session-tagged extended hours on request', async () => {
+    const fetchMock = mockChartEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const prices = await adapter.getHistoricalPrices({
+      symbol: 'AAPL',
+      from: new Date(Date.now() - 2 * DAY).toISOString(),
+      to: new Date().toISOString(),
+      interval: '1h',
+      includeExtendedHours: true,
+    })
+
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('interval=60m')
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('includePrePost=true')
+    expect(prices.map((p) => p.session)).toEqual(['pre', 'regular', 'post'])
+  })
+
+  it('getHistoricalPrices: rejects intraday ranges older than Yahoo keeps', async () => {
+    const fetchMock = mockChartEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(
+      adapter.getHistoricalPrices({
+        symbol: 'AAPL',
+        from: new Date(Date.now() - 100 * DAY).toISOString(),
+        to: new Date(Date.now() - 90 * DAY).toISOString(),
+        interval: '5m',
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('getHistoricalPrices: leaves daily bars untagged', async () => {
+    mockChartEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const prices = await adapter.getHistoricalPrices({
+      symbol: 'AAPL',
+      from: new Date(Date.now() - 2 * DAY).toISOString(),
+      to: new Date().toISOString(),
+    })
+
+    expect(prices).toHaveLength(3)
+    expect(prices[0]!.session).toBeUndefined()
+  })
+
+  it('getHistoricalPrices: raises INVALID_REQUEST for chart errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        chart: {
+          result: null,
+          error: { code: 'Not Found', description: 'No data found, symbol may be delisted' },
+        },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(
+      adapter.getHistoricalPrices({ symbol: 'NOPE', from: new Date('2024-01-01'), to: new Date('2024-01-31') })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' })
+  })
+
+  it('getHistoricalPrices: returns no bars for empty ranges', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        chart: {
+          result: [
+            {
+              meta: { symbol: 'AAPL', currency: 'USD', regularMarketPrice: 100, dataGranularity: '1d' },
+              indicators: { quote: [{}] },
+            },
+          ],
+          error: null,
+        },
+      }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    const prices = await adapter.getHistoricalPrices({
+      symbol: 'AAPL',
+      from: new Date('2024-01-06'),
+      to: new Date('2024-01-07'),
+    })
+
+    expect(prices).toEqual([])
+  })
+})
+
+
+describe('YahooFinanceAdapter corporate actions (Mocked)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const at = (date: string) => Date.parse(date) / 1000
+
+  const chartWithEvents = {
+    chart: {
+      result: [
+        {
+          meta: { symbol: 'AAPL', currency: 'USD', regularMarketPrice: 100, dataGranularity: '1d', gmtoffset: -14400 },
+          timestamp: [at('2020-08-28T13:30:00Z'), at('2020-08-31T13:30:00Z')],
+          indicators: {
+            quote: [
+              {
+                open: [504, 127.6],
+                high: [505, 131],
+                low: [495, 126],
+                close: [499.23, 129.04],
+                volume: [46907500, 225702700],
+              },
+            ],
+            adjclose: [{ adjclose: [122.43, 126.55] }],
+          },
+          events: {
+            dividends: {
+              // Yahoo adjusts for later splits: 0.82 was paid before the 4:1 split
+              [at('2020-11-06T14:30:00Z')]: { amount: 0.205, date: at('2020-11-06T14:30:00Z') },
+              [at('2020-08-07T13:30:00Z')]: { amount: 0.205, date: at('2020-08-07T13:30:00Z') },
+            },
+            splits: {
+              [at('2020-08-31T13:30:00Z')]: {
+                date: at('2020-08-31T13:30:00Z'),
+                numerator: 4,
+                denominator: 1,
+                splitRatio: '4:1',
+              },
+            },
+          },
+        },
+      ],
+      error: null,
+    },
+  }
+
+  const mockChart = () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, json: async () => chartWithEvents }))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('should declare corporate actions support', () => {
+    expect(new YahooFinanceAdapter().getCapabilities().corporateActions).toBe(true)
+  })
+
+  it('getDividends: returns dividend events oldest first, per share as paid', async () => {
+    const fetchMock = mockChart()
+    const adapter = new YahooFinanceAdapter()
+
+    const dividends = await adapter.getDividends({ symbol: 'AAPL' })
+
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('events=div%2Csplits')
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('period1=0')
+    expect(String(fetchMock.mock.calls[0]![0])).toContain('interval=1mo')
+    expect(dividends).toEqual([
+      { symbol: 'AAPL', exDate: new Date('2020-08-07T13:30:00Z'), amount: expect.closeTo(0.82), currency: 'USD' },
+      { symbol: 'AAPL', exDate: new Date('2020-11-06T14:30:00Z'), amount: 0.205, currency: 'USD' },
+    ])
+  })
+
+  it('getDividends: unadjusts for splits after the requested range', async () => {
+    const fetchMock = mockChart()
+    const adapter = new YahooFinanceAdapter()
+
+    const dividends = await adapter.getDividends({ symbol: 'AAPL', from: '2020-08-01', to: '2020-08-15' })
+
+    expect(String(fetchMock.mock.calls[0]![0])).not.toContain(`period2=${at('2020-08-15')}`)
+    expect(dividends.map((d) => d.amount)).toEqual([expect.closeTo(0.82)])
+  })
+
+  it('getSplits: returns split events', async () => {
+    mockChart()
+    const adapter = new YahooFinanceAdapter()
+
+    const splits = await adapter.getSplits({ symbol: 'AAPL', from: '2020-01-01', to: '2020-12-31' })
+
+    expect(splits).toEqual([
+      { symbol: 'AAPL', date: new Date('2020-08-31T13:30:00Z'), numerator: 4, denominator: 1 },
+    ])
+  })
+
+  it('getHistoricalPrices: fills adjusted closes', async () => {
+    mockChart()
+    const adapter = new YahooFinanceAdapter()
+
+    const prices = await adapter.getHistoricalPrices({ symbol: 'AAPL', from: '2020-08-28', to: '2020-09-01' })
+
+    expect(prices.map((p) => p.adjustedClose)).toEqual([122.43, 126.55])
+  })
+})
+
+describe('YahooFinanceAdapter options (Mocked)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const contract = (type: 'C' | 'P', strike: number) => ({
+    contractSymbol: `AAPL240119${type}00${strike}000`,
+    strike,
+    currency: 'USD',
+    lastPrice: 5.2,
+    bid: 5.1,
+    ask: 5.3,
+    volume: 1200,
+    openInterest: 15000,
+    impliedVolatility: 0.2512,
+    inTheMoney: type === 'C',
+    expiration: 1705622400,
+    lastTradeDate: 1704900000,
+  })
+
+  const mockOptionsEndpoint = () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        optionChain: {
+          result: [
+            {
+              underlyingSymbol: 'AAPL',
+              expirationDates: [1705622400, 1706227200],
+              quote: { symbol: 'AAPL', regularMarketPrice: 185.6, regularMarketTime: 1704825000 },
+              options: [
+                {
+                  expirationDate: 1705622400,
+                  calls: [contract('C', 180)],
+                  puts: [contract('P', 190)],
+                },
+              ],
+            },
+          ],
+          error: null,
+        },
+      }),
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('should declare options support', () => {
+    expect(new YahooFinanceAdapter().getCapabilities().options).toBe(true)
+  })
+
+  it('getOptionChain: maps contracts and expirations', async () => {
+    const fetchMock = mockOptionsEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    const chain = await adapter.getOptionChain({ symbol: 'AAPL' })
+
+    expect(fetchMock.mock.calls[0]![0]).toBe('https://query1.finance.yahoo.com/v7/finance/options/AAPL')
+    expect(chain.underlyingPrice).toBe(185.6)
+    expect(chain.expirations).toEqual([new Date('2024-01-19'), new Date('2024-01-26')])
+    expect(chain.timestamp).toEqual(new Date('2024-01-09T18:30:00Z'))
+    expect(chain.calls).toEqual([
+      {
+        contractSymbol: 'AAPL240119C00180000',
+        underlying: 'AAPL',
+        type: 'call',
+        strike: 180,
+        expiration: new Date('2024-01-19'),
+        lastPrice: 5.2,
+        bid: 5.1,
+        ask: 5.3,
+        volume: 1200,
+        openInterest: 15000,
+        impliedVolatility: 0.2512,
+        inTheMoney: true,
+        lastTradeDate: new Date(1704900000 * 1000),
+      },
+    ])
+    expect(chain.puts.map((p) => [p.type, p.strike])).toEqual([['put', 190]])
+  })
+
+  it('getOptionChain: requests the given expiration', async () => {
+    const fetchMock = mockOptionsEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    await adapter.getOptionChain({ symbol: 'BRK.B', expiration: '2024-01-19' })
+
+    expect(fetchMock.mock.calls[0]![0]).toBe(
+      'https://query1.finance.yahoo.com/v7/finance/options/BRK-B?date=1705622400'
+    )
+  })
+
+  it('getOptionChain: rejects invalid expirations', async () => {
+    const fetchMock = mockOptionsEndpoint()
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(adapter.getOptionChain({ symbol: 'AAPL', expiration: 'soon' })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('getOptionChain: raises INVALID_REQUEST when there is no chain', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ optionChain: { result: [], error: null } }),
+    })))
+    const adapter = new YahooFinanceAdapter()
+
+    await expect(adapter.getOptionChain({ symbol: 'NOPE' })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    })
+  })
 })
@@ -1,7 +1,8 @@
 /**
  * Yahoo Finance data adapter.
  * 
- * Provides quotes and historical price data (delayed 15-20 minutes for free tier).
+ * Provides quotes, historical price data (delayed 15-20 minutes for free
+ * tier), dividends, splits and option chains.
  */
 
 import type {
@@ -9,17 +10,57 @@ import type {
   AdapterCapabilities,
   HealthCheck,
   QuoteParams,
+  BatchQuoteParams,
   HistoricalPriceParams,
   FundamentalsParams,
+  CorporateActionsParams,
+  OptionChainParams,
 } from '@open-fin-terminal/adapters';
 import { AdapterError } from '@open-fin-terminal/adapters';
-import type { Quote, HistoricalPrice, Fundamentals, OHLCV } from '@open-fin-terminal/shared';
-import type { YahooQuoteResponse, YahooChartResponse } from './types';
-import { YahooQuoteResponseSchema, YahooChartResponseSchema } from './types';
+import type {
+  Quote,
+  HistoricalPrice,
+  Fundamentals,
+  OHLCV,
+  Dividend,
+  StockSplit,
+  MarketState,
+  OptionChain,
+  OptionContract,
+  OptionType,
+} from '@open-fin-terminal/shared';
+import { toProviderSymbol } from '@open-fin-terminal/shared';
+import type {
+  YahooQuoteResult,
+  YahooChartResult,
+  YahooMarketState,
+  YahooOptionContract,
+} from './types';
+import {
+  YahooQuoteResultSchema,
+  YahooQuoteResponseSchema,
+  YahooChartResponseSchema,
+  YahooOptionChainResponseSchema,
+} from './types';
+import { YAHOO_SYMBOLOGY } from './symbology';
+import { chunkRange, intradayLimits, sessionTagger } from './intraday';
 
 const YAHOO_API_BASE = 'https://query1.finance.yahoo.com';
 const USER_AGENT = 'Open Financial Terminal (https://github.com/borealBytes/open-fin-terminal)';
 const HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
+const MAX_SYMBOLS_PER_REQUEST = 50; // Yahoo rejects overly long symbol lists
+
+/**
+ * Yahoo market states; the overnight hours count as closed
+ */
+const MARKET_STATES: Record<YahooMarketState, MarketState> = {
+  PREPRE: 'closed',
+  PRE: 'pre',
+  REGULAR: 'regular',
+  POST: 'post',
+  POSTPOST: 'closed',
+  CLOSED: 'closed',
+};
 
 /**
  * Yahoo Finance adapter for quotes and historical prices.
@@ -30,6 +71,7 @@ export class YahooFinanceAdapter implements DataAdapter {
   readonly name = 'yahoo-finance';
   readonly type = 'built-in' as const;
   readonly requiresSetup = false;
+  readonly symbology = YAHOO_SYMBOLOGY;
 
   private lastHealthCheck: HealthCheck | null = null;
 
@@ -88,11 +130,13 @@ export class YahooFinanceAdapter implements DataAdapter {
       quotes: true,
       historical: true,
       fundamentals: false,
-      options: false,
+      options: true,
       economic: false,
       forex: false,
       crypto: false,
       news: false,
+      insiderTransactions: false,
+      corporateActions: true,
       realtime: false, // Data is delayed 15-20 minutes
     };
   }
@@ -104,56 +148,134 @@ export class YahooFinanceAdapter implements DataAdapter {
     const { symbol } = params;
 
     try {
-      const response = await fetch(
-        `${YAHOO_API_BASE}/v7/finance/quote?symbols=${symbol}`,
-        {
-          headers: { 'User-Agent': USER_AGENT },
-        }
-      );
+      const { quotes, invalid } = await this.fetchQuoteResults([this.providerSymbol(symbol)]);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const quote = quotes[0];
+      if (!quote && invalid > 0) {
+        throw new AdapterError(`Malformed quote data for symbol ${symbol}`, this.name, 'UNKNOWN');
       }
-
-      const data = await response.json() as YahooQuoteResponse;
-      
-      // Validate response structure
-      YahooQuoteResponseSchema.parse(data);
-
-      if (data.quoteResponse.error) {
+      if (!quote) {
         throw new AdapterError(
-          `Yahoo Finance error: ${data.quoteResponse.error.description}`,
+          `No quote data found for symbol ${symbol}`,
           this.name,
           'INVALID_REQUEST'
         );
       }
 
-      const quote = data.quoteResponse.result[0];
-      if (!quote) {
+      return this.mapQuote(quote, symbol);
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch quote for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get quote data for several symbols.
+   *
+   * Symbols are sent in chunks of up to {@link MAX_SYMBOLS_PER_REQUEST}
+   * per request. Symbols Yahoo has no data for (or no spelling for) are
+   * omitted, as are malformed rows, so one bad symbol does not fail the
+   * whole batch.
+   */
+  async getQuotes(params: BatchQuoteParams): Promise<Quote[]> {
+    const { symbols } = params;
+
+    // Yahoo symbol -> requested symbol
+    const requested = new Map<string, string>();
+    for (const symbol of symbols) {
+      const providerSymbol = toProviderSymbol(symbol, this.symbology);
+      if (providerSymbol) {
+        requested.set(providerSymbol, symbol);
+      }
+    }
+
+    const providerSymbols = Array.from(requested.keys());
+    const chunks: string[][] = [];
+    for (let i = 0; i < providerSymbols.length; i += MAX_SYMBOLS_PER_REQUEST) {
+      chunks.push(providerSymbols.slice(i, i + MAX_SYMBOLS_PER_REQUEST));
+    }
+
+    try {
+      const results = await Promise.all(
+        chunks.map((chunk) => this.fetchQuoteResults(chunk))
+      );
+      return results.flatMap(({ quotes }) => quotes).map((result) =>
+        this.mapQuote(result, requested.get(result.symbol.toUpperCase()) ?? result.symbol)
+      );
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch quotes for ${symbols.length} symbols: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get historical price data.
+   *
+   * Intraday intervals (1m-1h) are limited by Yahoo in how far back bars
+   * are kept and how long a range one request may span: ranges are
+   * clipped to the available history, fetched in windows and stitched
+   * together. Intraday bars are tagged with their trading session;
+   * pre- and post-market bars are only included with
+   * `includeExtendedHours`.
+   */
+  async getHistoricalPrices(params: HistoricalPriceParams): Promise<HistoricalPrice[]> {
+    const { symbol, from, to, interval = '1d', includeExtendedHours = false } = params;
+
+    try {
+      const yahooSymbol = this.providerSymbol(symbol);
+      const limits = intradayLimits(interval);
+
+      if (!limits) {
+        return await this.fetchChart(yahooSymbol, new Date(from), new Date(to), interval, false);
+      }
+
+      const windows = chunkRange(new Date(from), new Date(to), limits);
+      if (windows.length === 0) {
         throw new AdapterError(
-          `No quote data found for symbol ${symbol}`,
+          `Yahoo Finance keeps ${interval} bars for the last ${limits.lookbackDays} days only`,
           this.name,
           'INVALID_REQUEST'
         );
       }
 
-      return {
-        symbol: quote.symbol,
-        price: quote.regularMarketPrice,
-        volume: quote.regularMarketVolume,
-        previousClose: quote.regularMarketPreviousClose,
-        open: quote.regularMarketOpen,
-        high: quote.regularMarketDayHigh,
-        low: quote.regularMarketDayLow,
-        timestamp: new Date(),
-        realtime: false,
-      };
+      // Windows are fetched one after another to stay gentle on rate limits
+      const byTime = new Map<number, HistoricalPrice>();
+      for (const [windowFrom, windowTo] of windows) {
+        const prices = await this.fetchChart(
+          yahooSymbol,
+          windowFrom,
+          windowTo,
+          limits.yahooInterval,
+          includeExtendedHours
+        );
+        for (const price of prices) {
+          byTime.set(price.date.getTime(), price);
+        }
+      }
+
+      return Array.from(byTime.values())
+        .filter((price) => includeExtendedHours || price.session === 'regular')
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
     } catch (error) {
       if (error instanceof AdapterError) {
         throw error;
       }
       throw new AdapterError(
-        `Failed to fetch quote for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to fetch historical prices for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         this.name,
         'UNKNOWN',
         error instanceof Error ? error : undefined
@@ -162,18 +284,100 @@ export class YahooFinanceAdapter implements DataAdapter {
   }
 
   /**
-   * Get historical price data.
+   * Get cash dividends from chart events, per share as paid.
+   *
+   * Yahoo reports dividends adjusted for every later split; amounts are
+   * converted back to what was paid per share at the time, as
+   * `adjustPrices` expects.
    */
-  async getHistoricalPrices(params: HistoricalPriceParams): Promise<HistoricalPrice[]> {
-    const { symbol, from, to, interval = '1d' } = params;
+  async getDividends(params: CorporateActionsParams): Promise<Dividend[]> {
+    const { symbol } = params;
 
     try {
-      // Convert dates to Unix timestamps
-      const period1 = Math.floor(new Date(from).getTime() / 1000);
-      const period2 = Math.floor(new Date(to).getTime() / 1000);
+      // Splits after the range still scale its dividends, so fetch through today
+      const result = await this.fetchEvents({ ...params, to: undefined });
+      const to = params.to ? new Date(params.to).getTime() : Infinity;
+      const splits = Object.values(result?.events?.splits ?? {});
+      const dividends = Object.values(result?.events?.dividends ?? {})
+        .filter((dividend) => dividend.date * 1000 <= to);
+
+      return dividends
+        .map((dividend) => ({
+          symbol,
+          exDate: new Date(dividend.date * 1000),
+          amount: splits
+            .filter((split) => split.date > dividend.date && split.numerator > 0 && split.denominator > 0)
+            .reduce((amount, split) => (amount * split.numerator) / split.denominator, dividend.amount),
+          currency: result?.meta.currency,
+        }))
+        .sort((a, b) => a.exDate.getTime() - b.exDate.getTime());
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch dividends for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get stock splits from chart events.
+   */
+  async getSplits(params: CorporateActionsParams): Promise<StockSplit[]> {
+    const { symbol } = params;
 
+    try {
+      const result = await this.fetchEvents(params);
+      const splits = Object.values(result?.events?.splits ?? {});
+
+      return splits
+        .map((split) => ({
+          symbol,
+          date: new Date(split.date * 1000),
+          numerator: split.numerator,
+          denominator: split.denominator,
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch splits for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the option chain for one expiration (default: the nearest).
+   */
+  async getOptionChain(params: OptionChainParams): Promise<OptionChain> {
+    const { symbol, expiration } = params;
+
+    let date = '';
+    if (expiration) {
+      // Yahoo keys expirations by 00:00 UTC of the expiration day
+      const time = Date.parse(expiration.slice(0, 10));
+      if (Number.isNaN(time)) {
+        throw new AdapterError(
+          `Invalid option expiration ${expiration}`,
+          this.name,
+          'INVALID_REQUEST'
+        );
+      }
+      date = `?date=${time / 1000}`;
+    }
+
+    try {
       const response = await fetch(
-        `${YAHOO_API_BASE}/v8/finance/chart/${symbol}?period1=${period1}&period2=${period2}&interval=${interval}`,
+        `${YAHOO_API_BASE}/v7/finance/options/${encodeURIComponent(this.providerSymbol(symbol))}${date}`,
         {
           headers: { 'User-Agent': USER_AGENT },
         }
@@ -183,70 +387,269 @@ export class YahooFinanceAdapter implements DataAdapter {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json() as YahooChartResponse;
-      
       // Validate response structure
-      YahooChartResponseSchema.parse(data);
+      const data = YahooOptionChainResponseSchema.parse(await response.json());
 
-      if (data.chart.error) {
+      if (data.optionChain.error) {
         throw new AdapterError(
-          `Yahoo Finance error: ${data.chart.error.description}`,
+          `Yahoo Finance error: ${data.optionChain.error.description}`,
           this.name,
           'INVALID_REQUEST'
         );
       }
 
-      const result = data.chart.result[0];
+      const result = data.optionChain.result[0];
       if (!result) {
-        return [];
+        throw new AdapterError(
+          `No option chain found for symbol ${symbol}`,
+          this.name,
+          'INVALID_REQUEST'
+        );
       }
 
-      const { timestamp, indicators } = result;
-      const quotes = indicators.quote[0];
+      const options = result.options[0];
+      return {
+        underlying: symbol,
+        underlyingPrice: result.quote?.regularMarketPrice,
+        expirations: result.expirationDates.map((time) => new Date(time * 1000)),
+        calls: (options?.calls ?? []).map((contract) => this.mapOptionContract(contract, symbol, 'call')),
+        puts: (options?.puts ?? []).map((contract) => this.mapOptionContract(contract, symbol, 'put')),
+        timestamp: result.quote ? new Date(result.quote.regularMarketTime * 1000) : new Date(),
+      };
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        throw error;
+      }
+      throw new AdapterError(
+        `Failed to fetch option chain for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'UNKNOWN',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Fetch chart data carrying the events in a corporate action range
+   * (default: full history to now).
+   *
+   * Only the events are used, so monthly bars keep the response small.
+   */
+  private async fetchEvents(params: CorporateActionsParams): Promise<YahooChartResult | null> {
+    const from = params.from ? new Date(params.from) : new Date(0);
+    const to = params.to ? new Date(params.to) : new Date();
+    return this.fetchChartResult(this.providerSymbol(params.symbol), from, to, '1mo', false);
+  }
+
+  /**
+   * Fetch one chart range and convert it to historical prices.
+   *
+   * @param interval - Yahoo interval name
+   * @param includePrePost - Request pre- and post-market bars
+   */
+  private async fetchChart(
+    yahooSymbol: string,
+    from: Date,
+    to: Date,
+    interval: string,
+    includePrePost: boolean
+  ): Promise<HistoricalPrice[]> {
+    const result = await this.fetchChartResult(yahooSymbol, from, to, interval, includePrePost);
+    return result ? this.mapChartResult(result, intradayLimits(interval) !== undefined) : [];
+  }
 
-      if (!quotes) {
-        return [];
+  /**
+   * Fetch one chart range, with dividend and split events.
+   *
+   * @returns The chart result, or null if Yahoo returned none
+   */
+  private async fetchChartResult(
+    yahooSymbol: string,
+    from: Date,
+    to: Date,
+    interval: string,
+    includePrePost: boolean
+  ): Promise<YahooChartResult | null> {
+    // Convert dates to Unix timestamps
+    const period1 = Math.floor(from.getTime() / 1000);
+    const period2 = Math.floor(to.getTime() / 1000);
+
+    const response = await fetch(
+      `${YAHOO_API_BASE}/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?period1=${period1}&period2=${period2}&interval=${interval}&includePrePost=${includePrePost}&events=div%2Csplits`,
+      {
+        headers: { 'User-Agent': USER_AGENT },
       }
+    );
 
-      // Transform to HistoricalPrice format
-      const prices: HistoricalPrice[] = [];
-      for (let i = 0; i < timestamp.length; i++) {
-        // Skip null entries
-        if (
-          quotes.open[i] === null ||
-          quotes.high[i] === null ||
-          quotes.low[i] === null ||
-          quotes.close[i] === null ||
-          quotes.volume[i] === null
-        ) {
-          continue;
-        }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Validate response structure
+    const data = YahooChartResponseSchema.parse(await response.json());
+
+    if (data.chart.error) {
+      throw new AdapterError(
+        `Yahoo Finance error: ${data.chart.error.description}`,
+        this.name,
+        'INVALID_REQUEST'
+      );
+    }
 
-        const ohlcv: OHLCV = {
-          open: quotes.open[i]!,
-          high: quotes.high[i]!,
-          low: quotes.low[i]!,
-          close: quotes.close[i]!,
-          volume: quotes.volume[i]!,
-        };
-        prices.push({
-          date: new Date(timestamp[i] * 1000),
-          ohlcv,
-        });
+    return data.chart.result?.[0] ?? null;
+  }
+
+  /**
+   * Map a chart result to historical prices, skipping incomplete bars.
+   *
+   * @param intraday - Tag bars with their trading session
+   */
+  private mapChartResult(result: YahooChartResult, intraday: boolean): HistoricalPrice[] {
+    const { meta, timestamp = [], indicators } = result;
+    const quotes = indicators.quote[0];
+    const adjustedCloses = indicators.adjclose?.[0]?.adjclose ?? [];
+
+    if (!quotes) {
+      return [];
+    }
+
+    const sessionOf = intraday ? sessionTagger(meta) : undefined;
+
+    // Transform to HistoricalPrice format
+    const prices: HistoricalPrice[] = [];
+    for (let i = 0; i < timestamp.length; i++) {
+      const open = quotes.open?.[i];
+      const high = quotes.high?.[i];
+      const low = quotes.low?.[i];
+      const close = quotes.close?.[i];
+      const volume = quotes.volume?.[i];
+
+      // Skip null entries
+      if (open == null || high == null || low == null || close == null || volume == null) {
+        continue;
       }
 
-      return prices;
-    } catch (error) {
-      if (error instanceof AdapterError) {
-        throw error;
+      const ohlcv: OHLCV = { open, high, low, close, volume };
+      prices.push({
+        date: new Date(timestamp[i]! * 1000),
+        ohlcv,
+        adjustedClose: adjustedCloses[i] ?? undefined,
+        session: sessionOf?.(timestamp[i]!),
+      });
+    }
+
+    return prices;
+  }
+
+  /**
+   * Fetch quote results for up to {@link MAX_SYMBOLS_PER_REQUEST} symbols.
+   *
+   * Rows are validated one at a time; malformed rows (e.g. no price for a
+   * halted or delisted symbol) are dropped and counted in `invalid`.
+   */
+  private async fetchQuoteResults(
+    symbols: string[]
+  ): Promise<{ quotes: YahooQuoteResult[]; invalid: number }> {
+    const response = await fetch(
+      `${YAHOO_API_BASE}/v7/finance/quote?symbols=${encodeURIComponent(symbols.join(','))}`,
+      {
+        headers: { 'User-Agent': USER_AGENT },
       }
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Validate response structure
+    const data = YahooQuoteResponseSchema.parse(await response.json());
+
+    if (data.quoteResponse.error) {
       throw new AdapterError(
-        `Failed to fetch historical prices for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Yahoo Finance error: ${data.quoteResponse.error.description}`,
         this.name,
-        'UNKNOWN',
-        error instanceof Error ? error : undefined
+        'INVALID_REQUEST'
+      );
+    }
+
+    const quotes: YahooQuoteResult[] = [];
+    for (const row of data.quoteResponse.result) {
+      const parsed = YahooQuoteResultSchema.safeParse(row);
+      if (parsed.success) {
+        quotes.push(parsed.data);
+      }
+    }
+    return { quotes, invalid: data.quoteResponse.result.length - quotes.length };
+  }
+
+  /**
+   * Translate a canonical symbol (e.g. "BRK.B", "XLON:VOD") to Yahoo's spelling.
+   */
+  private providerSymbol(symbol: string): string {
+    const providerSymbol = toProviderSymbol(symbol, this.symbology);
+    if (!providerSymbol) {
+      throw new AdapterError(
+        `Yahoo Finance has no symbol for ${symbol}`,
+        this.name,
+        'INVALID_REQUEST'
       );
     }
+    return providerSymbol;
+  }
+
+  /**
+   * Map a Yahoo quote result to the shared Quote type.
+   *
+   * @param symbol - Symbol as requested (Yahoo's result uses its own spelling)
+   */
+  private mapQuote(quote: YahooQuoteResult, symbol: string): Quote {
+    return {
+      symbol,
+      price: quote.regularMarketPrice,
+      // Yahoo reports 0 when there is no bid or ask (e.g. outside market hours)
+      bid: quote.bid || undefined,
+      ask: quote.ask || undefined,
+      bidSize: quote.bid ? quote.bidSize : undefined,
+      askSize: quote.ask ? quote.askSize : undefined,
+      volume: quote.regularMarketVolume ?? 0,
+      previousClose: quote.regularMarketPreviousClose,
+      open: quote.regularMarketOpen,
+      high: quote.regularMarketDayHigh,
+      low: quote.regularMarketDayLow,
+      high52Week: quote.fiftyTwoWeekHigh,
+      low52Week: quote.fiftyTwoWeekLow,
+      marketCap: quote.marketCap,
+      peRatio: quote.trailingPE,
+      currency: quote.currency,
+      marketState: quote.marketState ? MARKET_STATES[quote.marketState] : undefined,
+      timestamp: new Date(quote.regularMarketTime * 1000),
+      realtime: false,
+    };
+  }
+
+  /**
+   * Map a Yahoo option contract to the shared shape.
+   */
+  private mapOptionContract(
+    contract: YahooOptionContract,
+    underlying: string,
+    type: OptionType
+  ): OptionContract {
+    return {
+      contractSymbol: contract.contractSymbol,
+      underlying,
+      type,
+      strike: contract.strike,
+      expiration: new Date(contract.expiration * 1000),
+      lastPrice: contract.lastPrice,
+      bid: contract.bid,
+      ask: contract.ask,
+      volume: contract.volume,
+      openInterest: contract.openInterest,
+      impliedVolatility: contract.impliedVolatility,
+      inTheMoney: contract.inTheMoney,
+      lastTradeDate: contract.lastTradeDate != null ? new Date(contract.lastTradeDate * 1000) : undefined,
+    };
   }
 
   /**
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RequestCache, MemoryCacheStore } from './cache';
+import type { CacheStore } from './cache';
+
+describe('RequestCache', () => {
+  let cache: RequestCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    cache = new RequestCache({
+      policies: { quote: { ttl: 1000, staleTtl: 5000 } },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return fresh values without calling the loader', async () => {
+    const loader = vi.fn().mockResolvedValue(1);
+
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(1);
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(1);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should de-duplicate concurrent requests', async () => {
+    let resolve: (value: number) => void = () => {};
+    const loader = vi.fn(() => new Promise<number>((r) => (resolve = r)));
+
+    const first = cache.fetch('quote', 'AAPL', loader);
+    const second = cache.fetch('quote', 'AAPL', loader);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+    resolve(42);
+
+    expect(await first).toBe(42);
+    expect(await second).toBe(42);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep keys separate per data type', async () => {
+    const loader = vi.fn().mockResolvedValue(1);
+
+    await cache.fetch('quote', 'AAPL', loader);
+    await cache.fetch('historical', 'AAPL', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve stale values while revalidating', async () => {
+    const loader = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.fetch('quote', 'AAPL', loader);
+    vi.advanceTimersByTime(2000);
+
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(1);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    await vi.waitFor(async () => {
+      expect(await cache.fetch('quote', 'AAPL', loader)).toBe(2);
+    });
+  });
+
+  it('should keep serving stale values when revalidation fails', async () => {
+    const loader = vi
+      .fn()
+      .mockResolvedValueOnce(1)
+      .mockRejectedValueOnce(new Error('down'));
+
+    await cache.fetch('quote', 'AAPL', loader);
+    vi.advanceTimersByTime(2000);
+
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(1);
+  });
+
+  it('should reload expired values', async () => {
+    const loader = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.fetch('quote', 'AAPL', loader);
+    vi.advanceTimersByTime(7000);
+
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(2);
+  });
+
+  it('should not cache loader errors', async () => {
+    const loader = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockResolvedValueOnce(1);
+
+    await expect(cache.fetch('quote', 'AAPL', loader)).rejects.toThrow('down');
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(1);
+  });
+
+  it('should invalidate entries', async () => {
+    const loader = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.fetch('quote', 'AAPL', loader);
+    await cache.invalidate('quote', 'AAPL');
+    expect(await cache.fetch('quote', 'AAPL', loader)).toBe(2);
+  });
+
+  it('should treat store failures as cache misses', async () => {
+    const store: CacheStore = {
+      get: vi.fn().mockRejectedValue(new Error('corrupt')),
+      set: vi.fn().mockRejectedValue(new Error('full')),
+      delete: vi.fn(),
+      clear: vi.fn(),
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = new RequestCache({ store });
+
+    expect(await failing.fetch('quote', 'AAPL', async () => 1)).toBe(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should drop entries past their stale window', async () => {
+    const store = new MemoryCacheStore();
+    const now = Date.now();
+    await store.set('old', { value: 1, storedAt: now - 20, expiresAt: now - 10, staleUntil: now - 1 });
+    await store.set('new', { value: 2, storedAt: now, expiresAt: now + 10, staleUntil: now + 20 });
+
+    expect(await store.get('old')).toBeUndefined();
+    expect((await store.get('new'))?.value).toBe(2);
+  });
+});
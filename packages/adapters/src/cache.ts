@@ -0,0 +1,234 @@
+/**
+ * Shared request cache for data adapters.
+ *
+ * Provides a pluggable storage interface, in-flight request
+ * de-duplication and stale-while-revalidate semantics with
+ * per-data-type TTLs.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Kinds of data cached by the registry, each with its own TTLs.
+ */
+export type CacheDataType = 'quote' | 'historical' | 'fundamentals' | 'filings';
+
+/**
+ * Cached value with freshness metadata.
+ */
+export interface CacheEntry<T> {
+  /** Cached value */
+  value: T;
+  /** When the value was stored (Unix timestamp in ms) */
+  storedAt: number;
+  /** Value is fresh until this time (Unix timestamp in ms) */
+  expiresAt: number;
+  /** Value may be served stale while revalidating until this time (Unix timestamp in ms) */
+  staleUntil: number;
+}
+
+/**
+ * Pluggable cache storage backend.
+ */
+export interface CacheStore {
+  /** Get an entry, or undefined if not present */
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  /** Store an entry */
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  /** Delete an entry */
+  delete(key: string): Promise<void>;
+  /** Delete all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Freshness policy for a data type.
+ */
+export interface CachePolicy {
+  /** Time in milliseconds a value is considered fresh */
+  ttl: number;
+  /** Additional time in milliseconds a stale value may be served while revalidating */
+  staleTtl: number;
+}
+
+/**
+ * Options for request cache.
+ */
+export interface RequestCacheOptions {
+  /** Storage backend (default: in-memory) */
+  store?: CacheStore;
+  /** Per-data-type policy overrides */
+  policies?: Partial<Record<CacheDataType, Partial<CachePolicy>>>;
+}
+
+/**
+ * Default freshness policies.
+ */
+export const DEFAULT_CACHE_POLICIES: Record<CacheDataType, CachePolicy> = {
+  quote: { ttl: 15 * 1000, staleTtl: 60 * 1000 },
+  historical: { ttl: 60 * 60 * 1000, staleTtl: 24 * 60 * 60 * 1000 },
+  fundamentals: { ttl: 24 * 60 * 60 * 1000, staleTtl: 7 * 24 * 60 * 60 * 1000 },
+  filings: { ttl: 60 * 60 * 1000, staleTtl: 24 * 60 * 60 * 1000 },
+};
+
+/**
+ * In-memory cache store.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (entry && Date.now() > entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry as CacheEntry<unknown>);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Request cache with in-flight de-duplication and stale-while-revalidate.
+ *
+ * - Concurrent requests for the same key share a single loader call.
+ * - Fresh entries are returned without calling the loader.
+ * - Stale entries (past `ttl` but within `staleTtl`) are returned
+ *   immediately while a background refresh updates the store.
+ * - Expired entries are reloaded before returning.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RequestCache({ policies: { quote: { ttl: 5000 } } });
+ *
+ * const quote = await cache.fetch('quote', 'AAPL', () =>
+ *   adapter.getQuote({ symbol: 'AAPL' }),
+ * );
+ * ```
+ */
+export class RequestCache {
+  private store: CacheStore;
+  private policies: Record<CacheDataType, CachePolicy>;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(options: RequestCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.policies = {
+      quote: { ...DEFAULT_CACHE_POLICIES.quote, ...options.policies?.quote },
+      historical: { ...DEFAULT_CACHE_POLICIES.historical, ...options.policies?.historical },
+      fundamentals: { ...DEFAULT_CACHE_POLICIES.fundamentals, ...options.policies?.fundamentals },
+      filings: { ...DEFAULT_CACHE_POLICIES.filings, ...options.policies?.filings },
+    };
+  }
+
+  /**
+   * Get a cached value or load it.
+   *
+   * @param dataType - Data type (selects the freshness policy)
+   * @param key - Cache key
+   * @param loader - Function that loads a fresh value
+   * @returns Cached or freshly loaded value
+   */
+  async fetch<T>(
+    dataType: CacheDataType,
+    key: string,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const storeKey = `${dataType}:${key}`;
+    const pending = this.inFlight.get(storeKey) as Promise<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const entry = await this.readEntry<T>(storeKey);
+    const now = Date.now();
+
+    if (entry && now <= entry.expiresAt) {
+      return entry.value;
+    }
+
+    if (entry && now <= entry.staleUntil) {
+      this.load(dataType, storeKey, loader).catch(() => {
+        // Keep serving the stale value; the next request will retry
+      });
+      return entry.value;
+    }
+
+    return this.load(dataType, storeKey, loader);
+  }
+
+  /**
+   * Remove a cached value.
+   */
+  async invalidate(dataType: CacheDataType, key: string): Promise<void> {
+    await this.store.delete(`${dataType}:${key}`);
+  }
+
+  /**
+   * Remove all cached values.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Read an entry, treating storage failures as a cache miss.
+   */
+  private async readEntry<T>(storeKey: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get<T>(storeKey);
+    } catch (error) {
+      console.warn(`Cache read failed for ${storeKey}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Run the loader (de-duplicated) and store its result.
+   */
+  private load<T>(
+    dataType: CacheDataType,
+    storeKey: string,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const existing = this.inFlight.get(storeKey) as Promise<T> | undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        const policy = this.policies[dataType];
+        const storedAt = Date.now();
+        try {
+          await this.store.set(storeKey, {
+            value,
+            storedAt,
+            expiresAt: storedAt + policy.ttl,
+            staleUntil: storedAt + policy.ttl + policy.staleTtl,
+          });
+        } catch (error) {
+          console.warn(`Cache write failed for ${storeKey}:`, error);
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(storeKey);
+      }
+    })();
+
+    this.inFlight.set(storeKey, promise);
+    return promise;
+  }
+}
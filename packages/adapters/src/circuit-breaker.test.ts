@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start closed and allow requests', () => {
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should open after consecutive failures reach the threshold', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should become half-open after the cool-down and admit one probe', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should close when the probe succeeds', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen when the probe fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    vi.advanceTimersByTime(999);
+    expect(breaker.getState()).toBe('open');
+    vi.advanceTimersByTime(1);
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('should admit another probe after release', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+
+    breaker.release();
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should close on reset', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    breaker.reset();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
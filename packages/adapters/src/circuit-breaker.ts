@@ -0,0 +1,142 @@
+/**
+ * Circuit breaker for adapter calls.
+ *
+ * Stops routing requests to an adapter after repeated failures and
+ * lets a single probe request through once a cool-down has elapsed.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Circuit breaker state.
+ *
+ * - `closed`: requests flow normally
+ * - `open`: requests are rejected until the cool-down elapses
+ * - `half-open`: a single probe request is allowed through
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens (default: 5) */
+  failureThreshold?: number;
+  /** Time in milliseconds before an open circuit allows a probe (default: 30000) */
+  cooldownMs?: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 3 });
+ *
+ * if (breaker.allowRequest()) {
+ *   try {
+ *     await adapter.getQuote({ symbol: 'AAPL' });
+ *     breaker.recordSuccess();
+ *   } catch {
+ *     breaker.recordFailure();
+ *   }
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private readonly options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      cooldownMs: options.cooldownMs ?? 30000,
+    };
+  }
+
+  /**
+   * Get current state.
+   *
+   * An open circuit whose cool-down has elapsed reports `half-open`.
+   */
+  getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      Date.now() - this.openedAt >= this.options.cooldownMs
+    ) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Check whether a request may be sent.
+   *
+   * In the half-open state only one probe is admitted at a time.
+   *
+   * @returns True if the caller may proceed
+   */
+  allowRequest(): boolean {
+    switch (this.getState()) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.probeInFlight) {
+          return false;
+        }
+        this.probeInFlight = true;
+        return true;
+      case 'open':
+        return false;
+    }
+  }
+
+  /**
+   * Record a successful request. Closes the circuit.
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Record a failed request.
+   *
+   * A failed probe reopens the circuit immediately; otherwise the
+   * circuit opens once the failure threshold is reached.
+   */
+  recordFailure(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+
+    if (
+      this.getState() === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Release an admitted request that neither succeeded nor failed
+   * (e.g. the operation turned out to be unsupported).
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Reset to the closed state.
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = 0;
+    this.probeInFlight = false;
+  }
+}
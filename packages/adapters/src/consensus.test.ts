@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { Quote } from '@open-fin-terminal/shared';
+import { median, mergeQuotes } from './consensus';
+
+const quote = (overrides: Partial<Quote>): Quote => ({
+  symbol: 'AAPL',
+  price: 100,
+  volume: 1000,
+  timestamp: new Date('2024-01-02T15:00:00Z'),
+  realtime: false,
+  ...overrides,
+});
+
+describe('median', () => {
+  it('should return the middle value for odd counts', () => {
+    expect(median([3, 1, 2])).toBe(2);
+  });
+
+  it('should average the middle values for even counts', () => {
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe('mergeQuotes', () => {
+  it('should fill reference fields from the first source that has them', () => {
+    const { quote: merged } = mergeQuotes(
+      [
+        { adapter: 'a', quote: quote({ bid: 99.9 }) },
+        { adapter: 'b', quote: quote({ previousClose: 98, marketCap: 1e12 }) },
+        { adapter: 'c', quote: quote({ previousClose: 97.5, currency: 'USD' }) },
+      ],
+      50,
+    );
+
+    expect(merged.bid).toBe(99.9);
+    expect(merged.previousClose).toBe(98);
+    expect(merged.marketCap).toBe(1e12);
+    expect(merged.currency).toBe('USD');
+  });
+
+  it('should use the median price', () => {
+    const { quote: merged } = mergeQuotes(
+      [
+        { adapter: 'a', quote: quote({ price: 100 }) },
+        { adapter: 'b', quote: quote({ price: 100.2 }) },
+        { adapter: 'c', quote: quote({ price: 100.1 }) },
+      ],
+      50,
+    );
+
+    expect(merged.price).toBe(100.1);
+  });
+
+  it('should take price, bid/ask and timestamp from the median source when sources disagree', () => {
+    const { quote: merged } = mergeQuotes(
+      [
+        {
+          adapter: 'stale',
+          quote: quote({ price: 98, bid: 97.9, ask: 98.1, timestamp: new Date('2024-01-02T14:00:00Z') }),
+        },
+        {
+          adapter: 'b',
+          quote: quote({ price: 100.1, bid: 100, timestamp: new Date('2024-01-02T15:00:05Z') }),
+        },
+        { adapter: 'c', quote: quote({ price: 100.4, bid: 100.3, ask: 100.5, previousClose: 99 }) },
+      ],
+      50,
+    );
+
+    expect(merged).toMatchObject({
+      price: 100.1,
+      bid: 100,
+      timestamp: new Date('2024-01-02T15:00:05Z'),
+      previousClose: 99,
+    });
+    // Not mixed in from a source quoting a different price
+    expect(merged.ask).toBeUndefined();
+  });
+
+  it('should list sources without divergence when prices agree', () => {
+    const { consensus } = mergeQuotes(
+      [
+        { adapter: 'a', quote: quote({ price: 100 }) },
+        { adapter: 'b', quote: quote({ price: 100.1 }) },
+      ],
+      50,
+    );
+
+    expect(consensus.sources).toEqual(['a', 'b']);
+    expect(consensus.divergence).toBeUndefined();
+  });
+
+  it('should report divergence beyond the threshold', () => {
+    const { consensus } = mergeQuotes(
+      [
+        { adapter: 'a', quote: quote({ price: 100 }) },
+        { adapter: 'b', quote: quote({ price: 100 }) },
+        { adapter: 'stale', quote: quote({ price: 98 }) },
+      ],
+      50,
+    );
+
+    expect(consensus.divergence).toBeDefined();
+    expect(consensus.divergence?.medianPrice).toBe(100);
+    expect(consensus.divergence?.maxDeviationBps).toBeCloseTo(200);
+    expect(consensus.divergence?.thresholdBps).toBe(50);
+    expect(consensus.divergence?.prices.find((p) => p.adapter === 'stale')?.deviationBps)
+      .toBeCloseTo(200);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Multi-source quote consensus.
+ *
+ * Merges quotes for the same symbol from several adapters and flags
+ * sources whose prices disagree.
+ *
+ * @packageDocumentation
+ */
+
+import type { Quote } from '@open-fin-terminal/shared';
+
+/**
+ * Options for quote consensus mode.
+ */
+export interface QuoteConsensusOptions {
+  /** Maximum number of adapters queried in parallel (default: 3) */
+  maxSources?: number;
+  /** Price deviation from the median, in basis points, that counts as divergence (default: 50) */
+  divergenceThresholdBps?: number;
+}
+
+/**
+ * Price reported by a single source.
+ */
+export interface SourcePrice {
+  /** Adapter name */
+  adapter: string;
+  /** Reported price */
+  price: number;
+  /** Deviation from the median price in basis points */
+  deviationBps: number;
+  /** Quote timestamp reported by the source */
+  timestamp: Date;
+}
+
+/**
+ * Report attached when source prices disagree beyond the threshold.
+ */
+export interface QuoteDivergence {
+  /** Median price across sources */
+  medianPrice: number;
+  /** Largest deviation from the median in basis points */
+  maxDeviationBps: number;
+  /** Threshold that was exceeded, in basis points */
+  thresholdBps: number;
+  /** Price reported by each source */
+  prices: SourcePrice[];
+}
+
+/**
+ * Consensus metadata for a merged quote.
+ */
+export interface QuoteConsensus {
+  /** Adapters whose quotes were merged, in fallback-chain order */
+  sources: string[];
+  /** Present when source prices diverge beyond the threshold */
+  divergence?: QuoteDivergence;
+}
+
+/**
+ * Quote returned by a single adapter.
+ */
+export interface SourcedQuote {
+  adapter: string;
+  quote: Quote;
+}
+
+/**
+ * Median of a non-empty list of numbers.
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1]! + sorted[mid]!) / 2
+    : sorted[mid]!;
+}
+
+/**
+ * Quote fields describing the market at the quote's timestamp. They are
+ * only taken from the selected source, never mixed in from another.
+ */
+const SNAPSHOT_FIELDS: ReadonlySet<string> = new Set([
+  'price',
+  'bid',
+  'ask',
+  'bidSize',
+  'askSize',
+  'lastSize',
+  'volume',
+  'high',
+  'low',
+  'timestamp',
+  'realtime',
+]);
+
+/**
+ * Merge quotes from several sources.
+ *
+ * The merged quote is the one from the source whose price is closest to
+ * the median across sources (the earliest in priority order on ties), so
+ * its price, bid/ask and timestamp agree with each other. Reference
+ * fields it lacks (previous close, market cap, ...) are filled from the
+ * first other source that provides them (sources are expected in
+ * priority order). A divergence report is attached when any source
+ * deviates from the median by more than `thresholdBps`.
+ *
+ * @param sourced - Quotes in priority order (must not be empty)
+ * @param thresholdBps - Divergence threshold in basis points
+ * @returns Merged quote and consensus metadata
+ */
+export function mergeQuotes(
+  sourced: SourcedQuote[],
+  thresholdBps: number,
+): { quote: Quote; consensus: QuoteConsensus } {
+  const medianPrice = median(sourced.map(({ quote }) => quote.price));
+  const selected = sourced.reduce((closest, candidate) =>
+    Math.abs(candidate.quote.price - medianPrice) < Math.abs(closest.quote.price - medianPrice)
+      ? candidate
+      : closest,
+  );
+
+  const merged: Quote = { ...selected.quote };
+  const fields = merged as unknown as Record<string, unknown>;
+
+  for (const { quote } of sourced) {
+    for (const [key, value] of Object.entries(quote)) {
+      if (!SNAPSHOT_FIELDS.has(key) && fields[key] === undefined && value !== undefined) {
+        fields[key] = value;
+      }
+    }
+  }
+
+  const prices: SourcePrice[] = sourced.map(({ adapter, quote }) => ({
+    adapter,
+    price: quote.price,
+    deviationBps:
+      medianPrice === 0
+        ? 0
+        : (Math.abs(quote.price - medianPrice) / medianPrice) * 10000,
+    timestamp: quote.timestamp,
+  }));
+  const maxDeviationBps = Math.max(...prices.map((p) => p.deviationBps));
+
+  const consensus: QuoteConsensus = {
+    sources: sourced.map(({ adapter }) => adapter),
+  };
+  if (maxDeviationBps > thresholdBps) {
+    consensus.divergence = {
+      medianPrice,
+      maxDeviationBps,
+      thresholdBps,
+      prices,
+    };
+  }
+
+  return { quote: merged, consensus };
+}
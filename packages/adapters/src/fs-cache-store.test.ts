@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemCacheStore } from './fs-cache-store';
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+  let store: FileSystemCacheStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'oft-cache-'));
+    store = new FileSystemCacheStore(join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const entry = <T>(value: T, staleIn = 60000) => {
+    const now = Date.now();
+    return { value, storedAt: now, expiresAt: now + 1000, staleUntil: now + staleIn };
+  };
+
+  it('should round-trip entries including dates', async () => {
+    const timestamp = new Date('2024-01-02T15:00:00Z');
+    await store.set('quote:AAPL', entry({ symbol: 'AAPL', timestamp }));
+
+    const cached = await store.get<{ symbol: string; timestamp: Date }>('quote:AAPL');
+    expect(cached?.value.symbol).toBe('AAPL');
+    expect(cached?.value.timestamp).toBeInstanceOf(Date);
+    expect(cached?.value.timestamp.getTime()).toBe(timestamp.getTime());
+  });
+
+  it('should return undefined for missing keys', async () => {
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should drop entries past their stale window', async () => {
+    await store.set('old', entry(1, -1));
+    expect(await store.get('old')).toBeUndefined();
+  });
+
+  it('should delete and clear entries', async () => {
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    expect((await store.get('b'))?.value).toBe(2);
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
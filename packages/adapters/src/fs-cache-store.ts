@@ -0,0 +1,94 @@
+/**
+ * Filesystem cache store for Node.js.
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheEntry, CacheStore } from './cache';
+
+/**
+ * Serialize an entry to JSON, preserving `Date` values.
+ */
+function serialize(entry: CacheEntry<unknown>): string {
+  return JSON.stringify(entry, function (this: Record<string, unknown>, key, value) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+/**
+ * Parse an entry written by {@link serialize}.
+ */
+function deserialize<T>(text: string): CacheEntry<T> {
+  return JSON.parse(text, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$date === 'string'
+      ? new Date(value.$date)
+      : value,
+  ) as CacheEntry<T>;
+}
+
+/**
+ * Cache store that persists entries as JSON files in a directory.
+ *
+ * Node modules are loaded lazily so this file can be bundled for the
+ * browser without pulling them in.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RequestCache({
+ *   store: new FileSystemCacheStore('.cache/market-data'),
+ * });
+ * ```
+ */
+export class FileSystemCacheStore implements CacheStore {
+  /**
+   * @param directory - Directory to store cache files in (created on first write)
+   */
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const fs = await import('node:fs/promises');
+    let text: string;
+    try {
+      text = await fs.readFile(await this.pathFor(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const entry = deserialize<T>(text);
+    if (Date.now() > entry.staleUntil) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(await this.pathFor(key), serialize(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * File path for a key (keys are hashed to produce safe file names).
+   */
+  private async pathFor(key: string): Promise<string> {
+    const { createHash } = await import('node:crypto');
+    const { join } = await import('node:path');
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory, `${hash}.json`);
+  }
+}
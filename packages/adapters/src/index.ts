@@ -10,3 +10,10 @@
 
 export * from './types';
 export * from './registry';
+export * from './circuit-breaker';
+export * from './rolling-stats';
+export * from './consensus';
+export * from './streaming';
+export * from './cache';
+export * from './fs-cache-store';
+export * from './indexeddb-cache-store';
@@ -0,0 +1,125 @@
+/**
+ * IndexedDB cache store for the browser.
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheEntry, CacheStore } from './cache';
+
+/*
+ * Minimal IndexedDB typings, so the package type-checks without the DOM lib.
+ */
+
+type TransactionMode = 'readonly' | 'readwrite';
+
+interface IDBRequestLike<T> {
+  readonly result: T;
+  readonly error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike<unknown>;
+  put(value: unknown, key: string): IDBRequestLike<unknown>;
+  delete(key: string): IDBRequestLike<undefined>;
+  clear(): IDBRequestLike<undefined>;
+}
+
+interface IDBDatabaseLike {
+  createObjectStore(name: string): unknown;
+  transaction(
+    storeName: string,
+    mode: TransactionMode,
+  ): { objectStore(name: string): IDBObjectStoreLike };
+}
+
+interface IDBOpenRequestLike extends IDBRequestLike<IDBDatabaseLike> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IDBFactoryLike {
+  open(name: string, version: number): IDBOpenRequestLike;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise.
+ */
+function promisify<T>(request: IDBRequestLike<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Cache store backed by IndexedDB.
+ *
+ * Entries are stored with the structured clone algorithm, so `Date`
+ * values survive round trips.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RequestCache({
+ *   store: new IndexedDBCacheStore(),
+ * });
+ * ```
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private db: Promise<IDBDatabaseLike> | null = null;
+
+  /**
+   * @param dbName - Database name (default: 'open-fin-terminal-cache')
+   * @param storeName - Object store name (default: 'entries')
+   */
+  constructor(
+    private readonly dbName: string = 'open-fin-terminal-cache',
+    private readonly storeName: string = 'entries',
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const store = await this.objectStore('readonly');
+    const entry = (await promisify(store.get(key))) as CacheEntry<T> | undefined;
+    if (entry && Date.now() > entry.staleUntil) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.clear());
+  }
+
+  /**
+   * Open the database (once) and return an object store in a new transaction.
+   */
+  private async objectStore(mode: TransactionMode): Promise<IDBObjectStoreLike> {
+    if (!this.db) {
+      const factory = (globalThis as { indexedDB?: IDBFactoryLike }).indexedDB;
+      if (!factory) {
+        throw new Error('IndexedDB is not available in this environment');
+      }
+
+      const request = factory.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      this.db = promisify(request);
+    }
+
+    const db = await this.db;
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AdapterRegistry } from './registry';
 import type { DataAdapter, HealthCheck, AdapterCapabilities } from './types';
 import { AdapterError } from './types';
+import { RequestCache } from './cache';
 import type { Quote, HistoricalPrice, Fundamentals } from '@open-fin-terminal/shared';
 
 // Mock adapter implementation
@@ -33,6 +34,8 @@ class MockAdapter implements DataAdapter {
       forex: false,
       crypto: false,
       news: false,
+      insiderTransactions: false,
+      corporateActions: false,
       realtime: this.type === 'optional',
     };
   }
@@ -175,6 +178,587 @@ describe('AdapterRegistry', () => {
     });
   });
 
+  describe('request routing', () => {
+    it('should return data with the adapter that served it', async () => {
+      registry.register(new MockAdapter('adapter-1'));
+
+      const result = await registry.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('adapter-1');
+      expect(result.data.symbol).toBe('AAPL');
+    });
+
+    it('should skip adapters without the required capability', async () => {
+      const quotesOnly = new MockAdapter('quotes-only');
+      quotesOnly.getCapabilities = () => ({
+        ...new MockAdapter('x').getCapabilities(),
+        fundamentals: false,
+      });
+      quotesOnly.getFundamentals = vi.fn();
+      registry.register(quotesOnly);
+      registry.register(new MockAdapter('full'));
+
+      const result = await registry.getFundamentals({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('full');
+      expect(quotesOnly.getFundamentals).not.toHaveBeenCalled();
+    });
+
+    it.each(['UNAVAILABLE', 'RATE_LIMITED', 'UNSUPPORTED_OPERATION'] as const)(
+      'should fall back to the next adapter on %s',
+      async (code) => {
+        const failing = new MockAdapter('failing');
+        failing.getHistoricalPrices = vi
+          .fn()
+          .mockRejectedValue(new AdapterError('fail', 'failing', code));
+        registry.register(failing);
+        registry.register(new MockAdapter('backup'));
+
+        const result = await registry.getHistoricalPrices({
+          symbol: 'AAPL',
+          from: '2024-01-01',
+          to: '2024-02-01',
+        });
+        expect(result.adapter).toBe('backup');
+        expect(result.data).toHaveLength(1);
+      },
+    );
+
+    it('should not fall back on invalid requests', async () => {
+      const failing = new MockAdapter('failing');
+      failing.getQuote = vi
+        .fn()
+        .mockRejectedValue(new AdapterError('bad symbol', 'failing', 'INVALID_REQUEST'));
+      const backup = new MockAdapter('backup');
+      backup.getQuote = vi.fn();
+      registry.register(failing);
+      registry.register(backup);
+
+      await expect(registry.getQuote({ symbol: '???' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+        adapter: 'failing',
+      });
+      expect(backup.getQuote).not.toHaveBeenCalled();
+    });
+
+    it('should skip unhealthy adapters', async () => {
+      registry.register(new MockAdapter('down', 'built-in', false, 'unavailable'));
+      registry.register(new MockAdapter('up'));
+
+      const result = await registry.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('up');
+    });
+
+    it('should try the preferred adapter first', async () => {
+      registry.register(new MockAdapter('adapter-1'));
+      registry.register(new MockAdapter('adapter-2'));
+
+      const result = await registry.getQuote(
+        { symbol: 'AAPL' },
+        { preferredAdapter: 'adapter-2' },
+      );
+      expect(result.adapter).toBe('adapter-2');
+    });
+
+    it('should throw UNAVAILABLE with the last error when all adapters fail', async () => {
+      const failing = new MockAdapter('failing');
+      const cause = new AdapterError('limited', 'failing', 'RATE_LIMITED');
+      failing.getQuote = vi.fn().mockRejectedValue(cause);
+      registry.register(failing);
+
+      await expect(registry.getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+        adapter: 'registry',
+        code: 'UNAVAILABLE',
+        cause,
+      });
+    });
+
+    it('should throw UNAVAILABLE when no adapter supports the operation', async () => {
+      await expect(
+        registry.getFundamentals({ symbol: 'AAPL' }),
+      ).rejects.toBeInstanceOf(AdapterError);
+    });
+  });
+
+  describe('call statistics and circuit breaker', () => {
+    const unavailable = () => new AdapterError('down', 'flaky', 'UNAVAILABLE');
+
+    it('should drive health from recorded data calls', async () => {
+      const flaky = new MockAdapter('flaky');
+      flaky.getQuote = vi
+        .fn()
+        .mockResolvedValueOnce({ symbol: 'AAPL', price: 1, volume: 1, timestamp: new Date(), realtime: false })
+        .mockRejectedValueOnce(unavailable());
+      registry.register(flaky);
+
+      await registry.getQuote({ symbol: 'AAPL' });
+      await expect(registry.getQuote({ symbol: 'AAPL' })).rejects.toThrow();
+
+      const health = registry.getHealthStatus().get('flaky');
+      expect(health?.successRate).toBe(0.5);
+      expect(health?.status).toBe('degraded');
+      expect(health?.latencyP50).toBeGreaterThanOrEqual(0);
+      expect(health?.latencyP95).toBeGreaterThanOrEqual(0);
+      expect(health?.circuitState).toBe('closed');
+      expect(health?.error).toBe('down');
+    });
+
+    it('should not count invalid requests against the adapter', async () => {
+      const adapter = new MockAdapter('adapter-1');
+      adapter.getQuote = vi
+        .fn()
+        .mockRejectedValue(new AdapterError('bad', 'adapter-1', 'INVALID_REQUEST'));
+      registry.register(adapter);
+
+      await expect(registry.getQuote({ symbol: '???' })).rejects.toThrow();
+      expect(registry.getHealthStatus().get('adapter-1')?.successRate).toBe(1);
+    });
+
+    it('should overlay call statistics on health checks', async () => {
+      const adapter = new MockAdapter('adapter-1');
+      registry.register(adapter);
+      await registry.getQuote({ symbol: 'AAPL' });
+
+      const health = await registry.checkHealth('adapter-1');
+      expect(health?.successRate).toBe(1);
+      expect(health?.latencyP95).toBeDefined();
+    });
+
+    it('should open the circuit and remove the adapter from the chain', async () => {
+      const cb = new AdapterRegistry({
+        autoHealthCheck: false,
+        circuitFailureThreshold: 2,
+        circuitCooldown: 60000,
+      });
+      const flaky = new MockAdapter('flaky');
+      flaky.getQuote = vi.fn().mockRejectedValue(unavailable());
+      cb.register(flaky);
+      cb.register(new MockAdapter('backup'));
+
+      await cb.getQuote({ symbol: 'AAPL' });
+      await cb.getQuote({ symbol: 'AAPL' });
+      expect(flaky.getQuote).toHaveBeenCalledTimes(2);
+      expect(cb.getHealthStatus().get('flaky')?.status).toBe('unavailable');
+      expect(cb.getHealthStatus().get('flaky')?.circuitState).toBe('open');
+
+      const result = await cb.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('backup');
+      expect(flaky.getQuote).toHaveBeenCalledTimes(2);
+      await expect(cb.getAdapter()).resolves.toHaveProperty('name', 'backup');
+      cb.dispose();
+    });
+
+    it('should close the circuit when the cool-down probe succeeds', async () => {
+      const cb = new AdapterRegistry({
+        autoHealthCheck: false,
+        circuitFailureThreshold: 1,
+        circuitCooldown: 20,
+      });
+      const flaky = new MockAdapter('flaky');
+      const succeed = flaky.getQuote.bind(flaky);
+      flaky.getQuote = vi.fn().mockRejectedValueOnce(unavailable()).mockImplementation(succeed);
+      cb.register(flaky);
+
+      await expect(cb.getQuote({ symbol: 'AAPL' })).rejects.toThrow();
+      await expect(cb.getQuote({ symbol: 'AAPL' })).rejects.toThrow();
+      expect(flaky.getQuote).toHaveBeenCalledTimes(1);
+
+      await new Promise((r) => setTimeout(r, 30));
+      const result = await cb.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('flaky');
+      expect(cb.getHealthStatus().get('flaky')?.circuitState).toBe('closed');
+      cb.dispose();
+    });
+  });
+
+  describe('quote consensus', () => {
+    const priced = (name: string, price: number, extra: Partial<Quote> = {}) => {
+      const adapter = new MockAdapter(name);
+      adapter.getQuote = vi.fn().mockResolvedValue({
+        symbol: 'AAPL',
+        price,
+        volume: 1000,
+        timestamp: new Date(),
+        realtime: false,
+        ...extra,
+      });
+      return adapter;
+    };
+
+    it('should not merge quotes unless enabled', async () => {
+      registry.register(priced('a', 100));
+      registry.register(priced('b', 200));
+
+      const result = await registry.getQuote({ symbol: 'AAPL' });
+      expect(result.data.price).toBe(100);
+      expect(result.consensus).toBeUndefined();
+    });
+
+    it('should merge quotes from several adapters', async () => {
+      const consensusRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        quoteConsensus: { divergenceThresholdBps: 25 },
+      });
+      consensusRegistry.register(priced('a', 100));
+      consensusRegistry.register(priced('b', 101, { previousClose: 99.8 }));
+      consensusRegistry.register(priced('c', 100.5));
+
+      const result = await consensusRegistry.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('a');
+      expect(result.data.price).toBe(100.5);
+      expect(result.data.previousClose).toBe(99.8);
+      expect(result.consensus?.sources).toEqual(['a', 'b', 'c']);
+      expect(result.consensus?.divergence?.maxDeviationBps).toBeGreaterThan(25);
+      consensusRegistry.dispose();
+    });
+
+    it('should limit the number of sources queried', async () => {
+      const consensusRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        quoteConsensus: { maxSources: 2 },
+      });
+      const third = priced('c', 100);
+      consensusRegistry.register(priced('a', 100));
+      consensusRegistry.register(priced('b', 100));
+      consensusRegistry.register(third);
+
+      const result = await consensusRegistry.getQuote({ symbol: 'AAPL' });
+      expect(result.consensus?.sources).toEqual(['a', 'b']);
+      expect(third.getQuote).not.toHaveBeenCalled();
+      consensusRegistry.dispose();
+    });
+
+    it('should drop failed sources', async () => {
+      const consensusRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        quoteConsensus: {},
+      });
+      const failing = new MockAdapter('failing');
+      failing.getQuote = vi
+        .fn()
+        .mockRejectedValue(new AdapterError('down', 'failing', 'UNAVAILABLE'));
+      consensusRegistry.register(failing);
+      consensusRegistry.register(priced('b', 100));
+
+      const result = await consensusRegistry.getQuote({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('b');
+      expect(result.consensus?.sources).toEqual(['b']);
+      consensusRegistry.dispose();
+    });
+
+    it('should throw UNAVAILABLE when every source fails', async () => {
+      const consensusRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        quoteConsensus: {},
+      });
+      const failing = new MockAdapter('failing');
+      failing.getQuote = vi
+        .fn()
+        .mockRejectedValue(new AdapterError('down', 'failing', 'UNAVAILABLE'));
+      consensusRegistry.register(failing);
+
+      await expect(consensusRegistry.getQuote({ symbol: 'AAPL' })).rejects.toMatchObject({
+        adapter: 'registry',
+        code: 'UNAVAILABLE',
+      });
+      consensusRegistry.dispose();
+    });
+  });
+
+  describe('request cache', () => {
+    it('should serve repeated requests from the cache', async () => {
+      const cachedRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        cache: new RequestCache(),
+      });
+      const adapter = new MockAdapter('adapter-1');
+      const getQuote = vi.spyOn(adapter, 'getQuote');
+      cachedRegistry.register(adapter);
+
+      const first = await cachedRegistry.getQuote({ symbol: 'AAPL' });
+      const second = await cachedRegistry.getQuote({ symbol: 'AAPL' });
+      expect(second).toEqual(first);
+      expect(second.adapter).toBe('adapter-1');
+      expect(getQuote).toHaveBeenCalledTimes(1);
+
+      await cachedRegistry.getQuote({ symbol: 'MSFT' });
+      expect(getQuote).toHaveBeenCalledTimes(2);
+      cachedRegistry.dispose();
+    });
+
+    it('should share one upstream call among concurrent requests', async () => {
+      const cachedRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        cache: new RequestCache(),
+      });
+      const adapter = new MockAdapter('adapter-1');
+      const getFundamentals = vi.spyOn(adapter, 'getFundamentals');
+      cachedRegistry.register(adapter);
+
+      await Promise.all([
+        cachedRegistry.getFundamentals({ symbol: 'AAPL' }),
+        cachedRegistry.getFundamentals({ symbol: 'AAPL' }),
+        cachedRegistry.getFundamentals({ symbol: 'AAPL' }),
+      ]);
+      expect(getFundamentals).toHaveBeenCalledTimes(1);
+      cachedRegistry.dispose();
+    });
+
+    it('should not share entries between operations with the same params', async () => {
+      const cachedRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        cache: new RequestCache(),
+      });
+      const adapter = new MockAdapter('adapter-1');
+      const capabilities = adapter.getCapabilities();
+      adapter.getCapabilities = () => ({ ...capabilities, corporateActions: true });
+      const dividends = [{ symbol: 'AAPL', exDate: new Date('2024-02-09'), amount: 0.24 }];
+      const splits = [{ symbol: 'AAPL', date: new Date('2020-08-31'), numerator: 4, denominator: 1 }];
+      (adapter as DataAdapter).getDividends = vi.fn().mockResolvedValue(dividends);
+      (adapter as DataAdapter).getSplits = vi.fn().mockResolvedValue(splits);
+      cachedRegistry.register(adapter);
+
+      const params = { symbol: 'AAPL', from: '2020-01-01', to: '2024-12-31' };
+      expect((await cachedRegistry.getDividends(params)).data).toBe(dividends);
+      expect((await cachedRegistry.getSplits(params)).data).toBe(splits);
+      expect((await cachedRegistry.getHistoricalPrices(params)).data[0]).toHaveProperty('ohlcv');
+      cachedRegistry.dispose();
+    });
+
+    it('should not serve a cached quote as an option chain', async () => {
+      const cachedRegistry = new AdapterRegistry({
+        autoHealthCheck: false,
+        cache: new RequestCache(),
+      });
+      const adapter = new MockAdapter('adapter-1');
+      const capabilities = adapter.getCapabilities();
+      adapter.getCapabilities = () => ({ ...capabilities, options: true });
+      const chain = {
+        underlying: 'AAPL',
+        expirations: [],
+        calls: [],
+        puts: [],
+        timestamp: new Date(),
+      };
+      (adapter as DataAdapter).getOptionChain = vi.fn().mockResolvedValue(chain);
+      cachedRegistry.register(adapter);
+
+      await cachedRegistry.getQuote({ symbol: 'AAPL' });
+      expect((await cachedRegistry.getOptionChain({ symbol: 'AAPL' })).data).toBe(chain);
+      cachedRegistry.dispose();
+    });
+  });
+
+  describe('batch quotes', () => {
+    it('should use the native batch method when available', async () => {
+      const adapter = new MockAdapter('batch');
+      const batch = vi.fn().mockResolvedValue([
+        { symbol: 'AAPL', price: 1, volume: 1, timestamp: new Date(), realtime: false },
+        { symbol: 'MSFT', price: 2, volume: 1, timestamp: new Date(), realtime: false },
+      ]);
+      (adapter as DataAdapter).getQuotes = batch;
+      const single = vi.spyOn(adapter, 'getQuote');
+      registry.register(adapter);
+
+      const result = await registry.getQuotes({ symbols: ['AAPL', 'MSFT'] });
+      expect(result.adapter).toBe('batch');
+      expect(result.data.map((q) => q.symbol)).toEqual(['AAPL', 'MSFT']);
+      expect(batch).toHaveBeenCalledWith({ symbols: ['AAPL', 'MSFT'] });
+      expect(single).not.toHaveBeenCalled();
+    });
+
+    it('should fan out per symbol for adapters without batch support', async () => {
+      const adapter = new MockAdapter('single');
+      adapter.getQuote = vi.fn(async ({ symbol }) => ({
+        symbol,
+        price: 1,
+        volume: 1,
+        timestamp: new Date(),
+        realtime: false,
+      }));
+      registry.register(adapter);
+
+      const result = await registry.getQuotes({ symbols: ['AAPL', 'MSFT', 'GOOGL'] });
+      expect(result.data.map((q) => q.symbol)).toEqual(['AAPL', 'MSFT', 'GOOGL']);
+      expect(adapter.getQuote).toHaveBeenCalledTimes(3);
+    });
+
+    it('should omit symbols that fail during fan-out', async () => {
+      const adapter = new MockAdapter('single');
+      adapter.getQuote = vi.fn(async ({ symbol }) => {
+        if (symbol === 'BAD') {
+          throw new AdapterError('not found', 'single', 'INVALID_REQUEST');
+        }
+        return { symbol, price: 1, volume: 1, timestamp: new Date(), realtime: false };
+      });
+      registry.register(adapter);
+
+      const result = await registry.getQuotes({ symbols: ['AAPL', 'BAD'] });
+      expect(result.data.map((q) => q.symbol)).toEqual(['AAPL']);
+    });
+
+    it('should fall back when every fanned-out symbol fails', async () => {
+      const failing = new MockAdapter('failing');
+      failing.getQuote = vi
+        .fn()
+        .mockRejectedValue(new AdapterError('down', 'failing', 'UNAVAILABLE'));
+      registry.register(failing);
+      registry.register(new MockAdapter('backup'));
+
+      const result = await registry.getQuotes({ symbols: ['AAPL'] });
+      expect(result.adapter).toBe('backup');
+    });
+  });
+
+  describe('insider transactions', () => {
+    const insider = (name: string, implemented = true) => {
+      const adapter = new MockAdapter(name);
+      const capabilities = adapter.getCapabilities();
+      adapter.getCapabilities = () => ({ ...capabilities, insiderTransactions: true });
+      if (implemented) {
+        (adapter as DataAdapter).getInsiderTransactions = vi.fn().mockResolvedValue([]);
+      }
+      return adapter;
+    };
+
+    it('should route only to adapters with the capability', async () => {
+      const plain = new MockAdapter('plain');
+      const sec = insider('sec');
+      registry.register(plain);
+      registry.register(sec);
+
+      const result = await registry.getInsiderTransactions({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('sec');
+      expect(sec.getInsiderTransactions).toHaveBeenCalledWith({ symbol: 'AAPL' });
+    });
+
+    it('should skip adapters that declare the capability without implementing it', async () => {
+      registry.register(insider('declared', false));
+      registry.register(insider('sec'));
+
+      const result = await registry.getInsiderTransactions({ symbol: 'AAPL' });
+      expect(result.adapter).toBe('sec');
+    });
+  });
+
+  describe('corporate actions', () => {
+    const withActions = (name: string, implemented = true) => {
+      const adapter = new MockAdapter(name);
+      const capabilities = adapter.getCapabilities();
+      adapter.getCapabilities = () => ({ ...capabilities, corporateActions: true });
+      if (implemented) {
+        (adapter as DataAdapter).getDividends = vi.fn().mockResolvedValue([]);
+        (adapter as DataAdapter).getSplits = vi.fn().mockResolvedValue([]);
+      }
+      return adapter;
+    };
+
+    it('should route dividends and splits only to adapters with the capability', async () => {
+      const plain = new MockAdapter('plain');
+      const yahoo = withActions('yahoo');
+      registry.register(plain);
+      registry.register(yahoo);
+
+      const params = { symbol: 'AAPL', from: '2020-01-01' };
+      expect((await registry.getDividends(params)).adapter).toBe('yahoo');
+      expect((await registry.getSplits(params)).adapter).toBe('yahoo');
+      expect(yahoo.getDividends).toHaveBeenCalledWith(params);
+      expect(yahoo.getSplits).toHaveBeenCalledWith(params);
+    });
+
+    it('should skip adapters that declare the capability without implementing it', async () => {
+      registry.register(withActions('declared', false));
+      registry.register(withActions('yahoo'));
+
+      expect((await registry.getDividends({ symbol: 'AAPL' })).adapter).toBe('yahoo');
+      expect((await registry.getSplits({ symbol: 'AAPL' })).adapter).toBe('yahoo');
+    });
+  });
+
+  describe('option chains', () => {
+    const chain = {
+      underlying: 'AAPL',
+      expirations: [new Date('2024-01-19')],
+      calls: [],
+      puts: [],
+      timestamp: new Date('2024-01-10'),
+    };
+
+    const withOptions = (name: string, implemented = true) => {
+      const adapter = new MockAdapter(name);
+      const capabilities = adapter.getCapabilities();
+      adapter.getCapabilities = () => ({ ...capabilities, options: true });
+      if (implemented) {
+        (adapter as DataAdapter).getOptionChain = vi.fn().mockResolvedValue(chain);
+      }
+      return adapter;
+    };
+
+    it('should route option chains only to adapters with the capability', async () => {
+      const plain = new MockAdapter('plain');
+      const yahoo = withOptions('yahoo');
+      registry.register(plain);
+      registry.register(yahoo);
+
+      const params = { symbol: 'AAPL', expiration: '2024-01-19' };
+      const result = await registry.getOptionChain(params);
+
+      expect(result).toMatchObject({ data: chain, adapter: 'yahoo' });
+      expect(yahoo.getOptionChain).toHaveBeenCalledWith(params);
+    });
+
+    it('should skip adapters that declare the capability without implementing it', async () => {
+      registry.register(withOptions('declared', false));
+      registry.register(withOptions('yahoo'));
+
+      expect((await registry.getOptionChain({ symbol: 'AAPL' })).adapter).toBe('yahoo');
+    });
+  });
+
+  describe('quote streaming', () => {
+    it('should stream from the first adapter that pushes quotes', () => {
+      const polled = new MockAdapter('polled');
+      const push = new MockAdapter('push');
+      const stop = vi.fn();
+      (push as DataAdapter).subscribeQuotes = vi.fn((_symbols, onQuote) => {
+        onQuote({ symbol: 'AAPL', price: 150, volume: 1, timestamp: new Date(), realtime: true });
+        return stop;
+      });
+      registry.register(polled);
+      registry.register(push);
+      const onTick = vi.fn();
+
+      const unsubscribe = registry.subscribeQuotes(['AAPL'], onTick);
+
+      expect(push.subscribeQuotes).toHaveBeenCalledWith(['AAPL'], expect.any(Function));
+      expect(onTick).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', adapter: 'push' }));
+      unsubscribe();
+      expect(stop).toHaveBeenCalled();
+    });
+
+    it('should poll through getQuotes when no adapter pushes quotes', async () => {
+      vi.useFakeTimers();
+      try {
+        const polling = new AdapterRegistry({ autoHealthCheck: false, quotePollInterval: 1000 });
+        polling.register(new MockAdapter('polled'));
+        const getQuotes = vi.spyOn(polling, 'getQuotes');
+        const onTick = vi.fn();
+
+        polling.subscribeQuotes(['AAPL'], onTick);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(getQuotes).toHaveBeenCalledTimes(2);
+        expect(getQuotes).toHaveBeenCalledWith({ symbols: ['AAPL'] });
+        // Same price twice: one tick
+        expect(onTick).toHaveBeenCalledTimes(1);
+
+        polling.dispose();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(getQuotes).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   // ... unchanged tests below ...
 
 });
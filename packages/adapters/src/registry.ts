@@ -7,8 +7,89 @@
  * @packageDocumentation
  */
 
-import type { DataAdapter, AdapterCapabilities, HealthCheck } from './types';
+import type {
+  Quote,
+  HistoricalPrice,
+  Fundamentals,
+  InsiderTransaction,
+  Dividend,
+  StockSplit,
+  OptionChain,
+} from '@open-fin-terminal/shared';
+import type {
+  DataAdapter,
+  AdapterCapabilities,
+  AdapterOperation,
+  AdapterResult,
+  HealthCheck,
+  QuoteParams,
+  BatchQuoteParams,
+  HistoricalPriceParams,
+  FundamentalsParams,
+  InsiderTransactionsParams,
+  CorporateActionsParams,
+  OptionChainParams,
+  RoutingOptions,
+  Unsubscribe,
+} from './types';
 import { AdapterError } from './types';
+import { CircuitBreaker } from './circuit-breaker';
+import { RollingStats } from './rolling-stats';
+import { mergeQuotes } from './consensus';
+import type { QuoteConsensusOptions, SourcedQuote } from './consensus';
+import type { CacheDataType, RequestCache } from './cache';
+import { QuoteStream } from './streaming';
+import type { QuoteTickHandler } from './streaming';
+
+/**
+ * Capability an adapter must declare to be routed each operation.
+ */
+const OPERATION_CAPABILITIES: Record<AdapterOperation, keyof AdapterCapabilities> = {
+  getQuote: 'quotes',
+  getQuotes: 'quotes',
+  getHistoricalPrices: 'historical',
+  getFundamentals: 'fundamentals',
+  getInsiderTransactions: 'insiderTransactions',
+  getDividends: 'corporateActions',
+  getSplits: 'corporateActions',
+  getOptionChain: 'options',
+};
+
+/**
+ * Cache data type (and so freshness policy) for each operation.
+ */
+const OPERATION_CACHE_TYPES: Record<AdapterOperation, CacheDataType> = {
+  getQuote: 'quote',
+  getQuotes: 'quote',
+  getHistoricalPrices: 'historical',
+  getFundamentals: 'fundamentals',
+  getInsiderTransactions: 'filings',
+  getDividends: 'historical',
+  getSplits: 'historical',
+  getOptionChain: 'quote',
+};
+
+/**
+ * Adapter error codes that cause the registry to try the next adapter.
+ */
+const RETRYABLE_CODES: ReadonlySet<AdapterError['code']> = new Set([
+  'UNAVAILABLE',
+  'RATE_LIMITED',
+  'UNSUPPORTED_OPERATION',
+]);
+
+/**
+ * Whether an error reflects on the adapter's health.
+ *
+ * Invalid requests and unsupported operations are the caller's concern
+ * and do not count against the adapter.
+ */
+function isHealthFailure(error: unknown): boolean {
+  return !(
+    error instanceof AdapterError &&
+    (error.code === 'INVALID_REQUEST' || error.code === 'UNSUPPORTED_OPERATION')
+  );
+}
 
 /**
  * Options for adapter registry.
@@ -18,6 +99,20 @@ export interface AdapterRegistryOptions {
   healthCheckInterval?: number;
   /** Enable automatic health checks (default: true) */
   autoHealthCheck?: boolean;
+  /** Number of recent data calls used for success rate and latency (default: 50) */
+  statsWindowSize?: number;
+  /** Success rate below which an adapter is reported as degraded (default: 0.9) */
+  degradedThreshold?: number;
+  /** Consecutive failures before an adapter's circuit opens (default: 5) */
+  circuitFailureThreshold?: number;
+  /** Time in milliseconds before an open circuit allows a probe (default: 30000) */
+  circuitCooldown?: number;
+  /** Enable multi-source quote consensus for `getQuote` (default: disabled) */
+  quoteConsensus?: QuoteConsensusOptions;
+  /** Cache routed request results (default: disabled) */
+  cache?: RequestCache;
+  /** Interval between quote polls for streamed symbols without a push adapter, in milliseconds (default: 5000) */
+  quotePollInterval?: number;
 }
 
 /**
@@ -46,22 +141,32 @@ export interface AdapterRegistryOptions {
  *   'sec-edgar',
  * ]);
  *
- * // Get adapter (automatically selects healthy one)
- * const adapter = await registry.getAdapter();
- * const quote = await adapter.getQuote({ symbol: 'AAPL' });
+ * // Route a request to the first healthy adapter that supports it
+ * const { data: quote, adapter } = await registry.getQuote({ symbol: 'AAPL' });
  * ```
  */
 export class AdapterRegistry {
   private adapters = new Map<string, DataAdapter>();
   private fallbackChain: string[] = [];
   private healthCache = new Map<string, HealthCheck>();
+  private callStats = new Map<string, RollingStats>();
+  private breakers = new Map<string, CircuitBreaker>();
   private healthCheckTimer?: NodeJS.Timeout;
-  private options: Required<AdapterRegistryOptions>;
+  private quoteStream?: QuoteStream;
+  private options: Required<Omit<AdapterRegistryOptions, 'quoteConsensus' | 'cache'>> &
+    Pick<AdapterRegistryOptions, 'quoteConsensus' | 'cache'>;
 
   constructor(options: AdapterRegistryOptions = {}) {
     this.options = {
       healthCheckInterval: options.healthCheckInterval ?? 60000,
       autoHealthCheck: options.autoHealthCheck ?? true,
+      statsWindowSize: options.statsWindowSize ?? 50,
+      degradedThreshold: options.degradedThreshold ?? 0.9,
+      circuitFailureThreshold: options.circuitFailureThreshold ?? 5,
+      circuitCooldown: options.circuitCooldown ?? 30000,
+      quotePollInterval: options.quotePollInterval ?? 5000,
+      quoteConsensus: options.quoteConsensus,
+      cache: options.cache,
     };
 
     if (this.options.autoHealthCheck) {
@@ -81,6 +186,14 @@ export class AdapterRegistry {
     }
 
     this.adapters.set(adapter.name, adapter);
+    this.callStats.set(adapter.name, new RollingStats(this.options.statsWindowSize));
+    this.breakers.set(
+      adapter.name,
+      new CircuitBreaker({
+        failureThreshold: this.options.circuitFailureThreshold,
+        cooldownMs: this.options.circuitCooldown,
+      }),
+    );
 
     // Add to fallback chain if not already present
     if (!this.fallbackChain.includes(adapter.name)) {
@@ -104,6 +217,8 @@ export class AdapterRegistry {
     const removed = this.adapters.delete(name);
     if (removed) {
       this.healthCache.delete(name);
+      this.callStats.delete(name);
+      this.breakers.delete(name);
       this.fallbackChain = this.fallbackChain.filter((n) => n !== name);
     }
     return removed;
@@ -174,6 +289,226 @@ export class AdapterRegistry {
     );
   }
 
+  /**
+   * Get a quote from the first capable, healthy adapter.
+   *
+   * When the registry was created with `quoteConsensus`, several quote
+   * adapters are queried in parallel instead and their results merged
+   * (first non-empty field, median price). The result's `consensus`
+   * lists the contributing adapters and, if their prices disagree
+   * beyond the configured threshold, a divergence report.
+   *
+   * @param params - Quote parameters
+   * @param options - Routing options
+   * @returns Quote and the name of the adapter that served it
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getQuote(
+    params: QuoteParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<Quote>> {
+    return this.cached('getQuote', params, options, () => {
+      if (this.options.quoteConsensus) {
+        return this.routeQuoteConsensus(params, options, this.options.quoteConsensus);
+      }
+      return this.route('getQuote', options, (adapter) => adapter.getQuote(params));
+    });
+  }
+
+  /**
+   * Get quotes for several symbols from the first capable, healthy adapter.
+   *
+   * Adapters with a native `getQuotes` batch method are called once;
+   * others are fanned out to `getQuote` per symbol. Symbols an adapter
+   * has no data for are omitted. Quote consensus mode does not apply.
+   *
+   * @param params - Batch quote parameters
+   * @param options - Routing options
+   * @returns Quotes and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getQuotes(
+    params: BatchQuoteParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<Quote[]>> {
+    return this.cached('getQuotes', params, options, () =>
+      this.route('getQuotes', options, (adapter) =>
+        adapter.getQuotes
+          ? adapter.getQuotes(params)
+          : this.fanOutQuotes(adapter, params.symbols),
+      ),
+    );
+  }
+
+  /**
+   * Get historical prices from the first capable, healthy adapter.
+   *
+   * @param params - Historical price parameters
+   * @param options - Routing options
+   * @returns Historical prices and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getHistoricalPrices(
+    params: HistoricalPriceParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<HistoricalPrice[]>> {
+    return this.cached('getHistoricalPrices', params, options, () =>
+      this.route('getHistoricalPrices', options, (adapter) =>
+        adapter.getHistoricalPrices(params),
+      ),
+    );
+  }
+
+  /**
+   * Get fundamentals from the first capable, healthy adapter.
+   *
+   * @param params - Fundamentals parameters
+   * @param options - Routing options
+   * @returns Fundamentals and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getFundamentals(
+    params: FundamentalsParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<Fundamentals>> {
+    return this.cached('getFundamentals', params, options, () =>
+      this.route('getFundamentals', options, (adapter) =>
+        adapter.getFundamentals(params),
+      ),
+    );
+  }
+
+  /**
+   * Get insider transactions from the first capable, healthy adapter.
+   *
+   * @param params - Insider transaction parameters
+   * @param options - Routing options
+   * @returns Transactions and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getInsiderTransactions(
+    params: InsiderTransactionsParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<InsiderTransaction[]>> {
+    return this.cached('getInsiderTransactions', params, options, () =>
+      this.route('getInsiderTransactions', options, (adapter) => {
+        if (!adapter.getInsiderTransactions) {
+          throw new AdapterError(
+            `Adapter ${adapter.name} does not implement getInsiderTransactions`,
+            adapter.name,
+            'UNSUPPORTED_OPERATION',
+          );
+        }
+        return adapter.getInsiderTransactions(params);
+      }),
+    );
+  }
+
+  /**
+   * Get cash dividends from the first capable, healthy adapter.
+   *
+   * @param params - Corporate action parameters
+   * @param options - Routing options
+   * @returns Dividends and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getDividends(
+    params: CorporateActionsParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<Dividend[]>> {
+    return this.cached('getDividends', params, options, () =>
+      this.route('getDividends', options, (adapter) => {
+        if (!adapter.getDividends) {
+          throw new AdapterError(
+            `Adapter ${adapter.name} does not implement getDividends`,
+            adapter.name,
+            'UNSUPPORTED_OPERATION',
+          );
+        }
+        return adapter.getDividends(params);
+      }),
+    );
+  }
+
+  /**
+   * Get stock splits from the first capable, healthy adapter.
+   *
+   * @param params - Corporate action parameters
+   * @param options - Routing options
+   * @returns Splits and the name of the adapter that served them
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getSplits(
+    params: CorporateActionsParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<StockSplit[]>> {
+    return this.cached('getSplits', params, options, () =>
+      this.route('getSplits', options, (adapter) => {
+        if (!adapter.getSplits) {
+          throw new AdapterError(
+            `Adapter ${adapter.name} does not implement getSplits`,
+            adapter.name,
+            'UNSUPPORTED_OPERATION',
+          );
+        }
+        return adapter.getSplits(params);
+      }),
+    );
+  }
+
+  /**
+   * Get an option chain from the first capable, healthy adapter.
+   *
+   * @param params - Option chain parameters
+   * @param options - Routing options
+   * @returns Option chain and the name of the adapter that served it
+   * @throws {AdapterError} If no adapter could serve the request
+   */
+  async getOptionChain(
+    params: OptionChainParams,
+    options: RoutingOptions = {},
+  ): Promise<AdapterResult<OptionChain>> {
+    return this.cached('getOptionChain', params, options, () =>
+      this.route('getOptionChain', options, (adapter) => {
+        if (!adapter.getOptionChain) {
+          throw new AdapterError(
+            `Adapter ${adapter.name} does not implement getOptionChain`,
+            adapter.name,
+            'UNSUPPORTED_OPERATION',
+          );
+        }
+        return adapter.getOptionChain(params);
+      }),
+    );
+  }
+
+  /**
+   * Stream quote ticks for symbols.
+   *
+   * Each symbol has one upstream subscription shared by every consumer.
+   * It streams from the first quote adapter in the fallback chain that
+   * implements `subscribeQuotes` and whose circuit is not open;
+   * otherwise the symbol is polled through {@link getQuotes} every
+   * `quotePollInterval`. Consumers only receive quotes that changed,
+   * with the changed fields.
+   *
+   * @param symbols - Stock symbols or tickers
+   * @param onTick - Called with each changed quote
+   * @returns Function that removes this consumer
+   */
+  subscribeQuotes(symbols: string[], onTick: QuoteTickHandler): Unsubscribe {
+    if (!this.quoteStream) {
+      this.quoteStream = new QuoteStream(
+        {
+          selectAdapter: () => this.getStreamingAdapter(),
+          fetchQuotes: async (polled) => (await this.getQuotes({ symbols: polled })).data,
+        },
+        { pollInterval: this.options.quotePollInterval },
+      );
+    }
+    return this.quoteStream.subscribe(symbols, onTick);
+  }
+
   /**
    * Get adapter by name.
    *
@@ -232,32 +567,352 @@ export class AdapterRegistry {
     }
 
     try {
-      const health = await adapter.healthCheck();
+      const health = this.applyCallStats(await adapter.healthCheck());
       this.healthCache.set(name, health);
       return health;
     } catch (error) {
-      const health: HealthCheck = {
+      const health = this.applyCallStats({
         adapter: name,
         status: 'unavailable',
         latency: -1,
         successRate: 0,
         lastChecked: new Date(),
         error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      });
       this.healthCache.set(name, health);
       return health;
     }
   }
 
+  /**
+   * Get the ordered list of adapters to try for an operation.
+   *
+   * The preferred adapter (if any) comes first, followed by the
+   * fallback chain. Adapters lacking the required capability are skipped.
+   */
+  private getCandidates(
+    operation: AdapterOperation,
+    preferredName?: string,
+  ): DataAdapter[] {
+    const capability = OPERATION_CAPABILITIES[operation];
+    const names = preferredName
+      ? [preferredName, ...this.fallbackChain.filter((n) => n !== preferredName)]
+      : this.fallbackChain;
+
+    const candidates: DataAdapter[] = [];
+    for (const name of names) {
+      const adapter = this.adapters.get(name);
+      if (adapter && adapter.getCapabilities()[capability]) {
+        candidates.push(adapter);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * First quote adapter able to push quotes that isn't known to be down.
+   *
+   * Only cached health is consulted, since subscriptions start
+   * synchronously.
+   */
+  private getStreamingAdapter(): DataAdapter | undefined {
+    return this.getCandidates('getQuote').find(
+      (adapter) =>
+        adapter.subscribeQuotes !== undefined &&
+        this.breakers.get(adapter.name)?.getState() !== 'open' &&
+        this.healthCache.get(adapter.name)?.status !== 'unavailable',
+    );
+  }
+
+  /**
+   * Serve a routed request through the request cache, if configured.
+   *
+   * Identical concurrent requests share one upstream call, and results
+   * follow the cache's per-data-type freshness policy.
+   */
+  private cached<T>(
+    operation: AdapterOperation,
+    params: object,
+    options: RoutingOptions,
+    load: () => Promise<AdapterResult<T>>,
+  ): Promise<AdapterResult<T>> {
+    const cache = this.options.cache;
+    if (!cache) {
+      return load();
+    }
+
+    // Operations sharing a cache type take the same params, so scope keys by operation
+    const key = `${operation}:${options.preferredAdapter ?? ''}:${JSON.stringify(params)}`;
+    return cache.fetch(OPERATION_CACHE_TYPES[operation], key, load);
+  }
+
+  /**
+   * Run an operation against candidate adapters until one succeeds.
+   *
+   * Unhealthy adapters and adapters with an open circuit are skipped;
+   * once an open circuit's cool-down elapses the next request is let
+   * through as a probe. Retryable adapter errors move on to the next
+   * candidate; any other error is rethrown immediately. Every call's
+   * outcome and latency is recorded.
+   */
+  private async route<T>(
+    operation: AdapterOperation,
+    options: RoutingOptions,
+    call: (adapter: DataAdapter) => Promise<T>,
+  ): Promise<AdapterResult<T>> {
+    const candidates = this.getCandidates(operation, options.preferredAdapter);
+    let lastError: AdapterError | undefined;
+
+    for (const adapter of candidates) {
+      if (!(await this.admit(adapter.name))) {
+        continue;
+      }
+
+      try {
+        const data = await this.invoke(adapter, call);
+        return { data, adapter: adapter.name };
+      } catch (error) {
+        if (error instanceof AdapterError && RETRYABLE_CODES.has(error.code)) {
+          lastError = error;
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw this.exhausted(operation, lastError);
+  }
+
+  /**
+   * Query several quote adapters in parallel and merge their results.
+   *
+   * Up to `maxSources` admitted adapters are queried. Failed sources
+   * are dropped; if every source fails, the first non-retryable error
+   * is rethrown, otherwise an `UNAVAILABLE` error is thrown.
+   */
+  private async routeQuoteConsensus(
+    params: QuoteParams,
+    options: RoutingOptions,
+    consensusOptions: QuoteConsensusOptions,
+  ): Promise<AdapterResult<Quote>> {
+    const maxSources = consensusOptions.maxSources ?? 3;
+    const thresholdBps = consensusOptions.divergenceThresholdBps ?? 50;
+
+    const selected: DataAdapter[] = [];
+    for (const adapter of this.getCandidates('getQuote', options.preferredAdapter)) {
+      if (selected.length >= maxSources) {
+        break;
+      }
+      if (await this.admit(adapter.name)) {
+        selected.push(adapter);
+      }
+    }
+
+    const settled = await Promise.allSettled(
+      selected.map((adapter) =>
+        this.invoke(adapter, (a) => a.getQuote(params)),
+      ),
+    );
+
+    const sourced: SourcedQuote[] = [];
+    const errors: unknown[] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        sourced.push({ adapter: selected[i]!.name, quote: outcome.value });
+      } else {
+        errors.push(outcome.reason);
+      }
+    });
+
+    if (sourced.length === 0) {
+      const fatal = errors.find(
+        (e) => !(e instanceof AdapterError && RETRYABLE_CODES.has(e.code)),
+      );
+      if (fatal) {
+        throw fatal;
+      }
+      throw this.exhausted('getQuote', errors[errors.length - 1] as AdapterError | undefined);
+    }
+
+    const { quote, consensus } = mergeQuotes(sourced, thresholdBps);
+    return { data: quote, adapter: sourced[0]!.adapter, consensus };
+  }
+
+  /**
+   * Fetch quotes one symbol at a time for adapters without batch support.
+   *
+   * Symbols that fail are omitted. If every symbol fails, the first
+   * error is rethrown so the registry can fall back to another adapter.
+   */
+  private async fanOutQuotes(adapter: DataAdapter, symbols: string[]): Promise<Quote[]> {
+    const settled = await Promise.allSettled(
+      symbols.map((symbol) => adapter.getQuote({ symbol })),
+    );
+
+    const quotes: Quote[] = [];
+    let firstError: unknown;
+    for (const outcome of settled) {
+      if (outcome.status === 'fulfilled') {
+        quotes.push(outcome.value);
+      } else if (firstError === undefined) {
+        firstError = outcome.reason;
+      }
+    }
+
+    if (quotes.length === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+    return quotes;
+  }
+
+  /**
+   * Decide whether a request may be sent to an adapter.
+   *
+   * Adapters must be healthy and have a closed circuit; an adapter whose
+   * open circuit has cooled down is admitted as a probe regardless of
+   * its cached health.
+   */
+  private async admit(name: string): Promise<boolean> {
+    const breaker = this.breakers.get(name);
+    const probing = breaker?.getState() === 'half-open';
+    if (!probing && !(await this.isHealthy(name))) {
+      return false;
+    }
+    return !breaker || breaker.allowRequest();
+  }
+
+  /**
+   * Call an admitted adapter, recording the outcome and latency.
+   */
+  private async invoke<T>(
+    adapter: DataAdapter,
+    call: (adapter: DataAdapter) => Promise<T>,
+  ): Promise<T> {
+    const start = Date.now();
+    try {
+      const data = await call(adapter);
+      this.recordCall(adapter.name, true, Date.now() - start);
+      return data;
+    } catch (error) {
+      if (isHealthFailure(error)) {
+        this.recordCall(adapter.name, false, Date.now() - start, error);
+      } else if (error instanceof AdapterError && error.code === 'INVALID_REQUEST') {
+        // The adapter answered; the request itself was bad
+        this.recordCall(adapter.name, true, Date.now() - start);
+      } else {
+        this.breakers.get(adapter.name)?.release();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the error thrown when no adapter could serve an operation.
+   */
+  private exhausted(operation: AdapterOperation, lastError?: AdapterError): AdapterError {
+    return new AdapterError(
+      lastError
+        ? `All adapters failed for ${operation}: ${lastError.message}`
+        : `No healthy adapters available for ${operation}`,
+      'registry',
+      'UNAVAILABLE',
+      lastError,
+    );
+  }
+
+  /**
+   * Record the outcome of a data call and refresh cached health.
+   */
+  private recordCall(
+    name: string,
+    success: boolean,
+    latency: number,
+    error?: unknown,
+  ): void {
+    const stats = this.callStats.get(name);
+    const breaker = this.breakers.get(name);
+    if (!stats || !breaker) {
+      // Adapter was unregistered while the call was in flight
+      return;
+    }
+
+    stats.record(success, latency);
+    if (success) {
+      breaker.recordSuccess();
+    } else {
+      breaker.recordFailure();
+    }
+
+    this.healthCache.set(
+      name,
+      this.applyCallStats({
+        adapter: name,
+        status: 'healthy',
+        latency,
+        successRate: 1,
+        lastChecked: new Date(),
+        error: success
+          ? undefined
+          : error instanceof Error
+            ? error.message
+            : 'Unknown error',
+      }),
+    );
+  }
+
+  /**
+   * Overlay recorded call statistics and circuit state onto a health check.
+   *
+   * Success rate and latency come from real data calls once any have
+   * been recorded. An open circuit marks the adapter unavailable; a
+   * half-open circuit or a low success rate marks it degraded.
+   */
+  private applyCallStats(health: HealthCheck): HealthCheck {
+    const stats = this.callStats.get(health.adapter);
+    const breaker = this.breakers.get(health.adapter);
+    if (!stats || !breaker) {
+      return health;
+    }
+
+    const result: HealthCheck = { ...health, circuitState: breaker.getState() };
+
+    if (stats.count > 0) {
+      result.successRate = stats.successRate();
+      result.latencyP50 = stats.percentile(50);
+      result.latencyP95 = stats.percentile(95);
+      result.latency = result.latencyP50;
+
+      if (
+        result.status === 'healthy' &&
+        result.successRate < this.options.degradedThreshold
+      ) {
+        result.status = 'degraded';
+      }
+    }
+
+    if (result.circuitState === 'open') {
+      result.status = 'unavailable';
+    } else if (result.circuitState === 'half-open' && result.status === 'healthy') {
+      result.status = 'degraded';
+    }
+
+    return result;
+  }
+
   /**
    * Check if adapter is healthy.
    *
-   * Uses cached health status if available and recent.
+   * Uses cached health status if available and recent. Adapters with
+   * an open circuit are never healthy.
    *
    * @param name - Adapter name
    * @returns True if adapter is healthy
    */
   private async isHealthy(name: string): Promise<boolean> {
+    if (this.breakers.get(name)?.getState() === 'open') {
+      return false;
+    }
+
     const cached = this.healthCache.get(name);
 
     // Use cached result if recent (within health check interval)
@@ -315,8 +970,12 @@ export class AdapterRegistry {
    */
   dispose(): void {
     this.stopHealthChecks();
+    this.quoteStream?.close();
+    this.quoteStream = undefined;
     this.adapters.clear();
     this.healthCache.clear();
+    this.callStats.clear();
+    this.breakers.clear();
     this.fallbackChain = [];
   }
 }
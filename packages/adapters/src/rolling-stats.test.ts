@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { RollingStats } from './rolling-stats';
+
+describe('RollingStats', () => {
+  it('should report perfect success and zero latency when empty', () => {
+    const stats = new RollingStats();
+    expect(stats.count).toBe(0);
+    expect(stats.successRate()).toBe(1);
+    expect(stats.percentile(50)).toBe(0);
+  });
+
+  it('should compute success rate', () => {
+    const stats = new RollingStats();
+    stats.record(true, 10);
+    stats.record(true, 10);
+    stats.record(false, 10);
+    stats.record(true, 10);
+    expect(stats.successRate()).toBe(0.75);
+  });
+
+  it('should compute latency percentiles', () => {
+    const stats = new RollingStats(100);
+    for (let latency = 1; latency <= 100; latency++) {
+      stats.record(true, latency);
+    }
+    expect(stats.percentile(50)).toBe(50);
+    expect(stats.percentile(95)).toBe(95);
+    expect(stats.percentile(100)).toBe(100);
+    expect(stats.percentile(0)).toBe(1);
+  });
+
+  it('should only keep the most recent samples', () => {
+    const stats = new RollingStats(3);
+    stats.record(false, 1000);
+    stats.record(true, 10);
+    stats.record(true, 20);
+    stats.record(true, 30);
+
+    expect(stats.count).toBe(3);
+    expect(stats.successRate()).toBe(1);
+    expect(stats.percentile(100)).toBe(30);
+  });
+
+  it('should discard samples on clear', () => {
+    const stats = new RollingStats();
+    stats.record(false, 10);
+    stats.clear();
+    expect(stats.count).toBe(0);
+  });
+});
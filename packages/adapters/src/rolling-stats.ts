@@ -0,0 +1,81 @@
+/**
+ * Rolling success-rate and latency statistics.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Single recorded call outcome.
+ */
+interface CallSample {
+  success: boolean;
+  latency: number;
+}
+
+/**
+ * Fixed-size window of recent call outcomes.
+ *
+ * Older samples are discarded once the window is full, so statistics
+ * always reflect the most recent calls.
+ */
+export class RollingStats {
+  private samples: CallSample[] = [];
+
+  /**
+   * @param windowSize - Number of recent calls to keep (default: 50)
+   */
+  constructor(private readonly windowSize: number = 50) {}
+
+  /**
+   * Record a call outcome.
+   *
+   * @param success - Whether the call succeeded
+   * @param latency - Call duration in milliseconds
+   */
+  record(success: boolean, latency: number): void {
+    this.samples.push({ success, latency });
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Number of samples in the window.
+   */
+  get count(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Fraction of successful calls (0-1). Returns 1 when empty.
+   */
+  successRate(): number {
+    if (this.samples.length === 0) {
+      return 1;
+    }
+    const successes = this.samples.filter((s) => s.success).length;
+    return successes / this.samples.length;
+  }
+
+  /**
+   * Latency percentile using nearest-rank. Returns 0 when empty.
+   *
+   * @param p - Percentile (0-100)
+   * @returns Latency in milliseconds
+   */
+  percentile(p: number): number {
+    if (this.samples.length === 0) {
+      return 0;
+    }
+    const sorted = this.samples.map((s) => s.latency).sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+  }
+
+  /**
+   * Discard all samples.
+   */
+  clear(): void {
+    this.samples = [];
+  }
+}
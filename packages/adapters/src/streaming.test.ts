@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QuoteStream, diffQuote } from './streaming';
+import type { QuoteStreamSource } from './streaming';
+import type { DataAdapter, QuoteListener } from './types';
+import type { Quote } from '@open-fin-terminal/shared';
+
+const quote = (symbol: string, price: number, timestamp = new Date('2024-01-02T15:00:00Z')): Quote => ({
+  symbol,
+  price,
+  volume: 1000,
+  timestamp,
+  realtime: false,
+});
+
+describe('diffQuote', () => {
+  it('should return every field without a previous quote', () => {
+    const next = quote('AAPL', 150);
+    expect(diffQuote(undefined, next)).toEqual(next);
+  });
+
+  it('should return changed fields with the new timestamp', () => {
+    const later = new Date('2024-01-02T15:00:05Z');
+    expect(diffQuote(quote('AAPL', 150), { ...quote('AAPL', 151, later), bid: 150.9 })).toEqual({
+      price: 151,
+      bid: 150.9,
+      timestamp: later,
+    });
+  });
+
+  it('should ignore a timestamp-only change', () => {
+    expect(diffQuote(quote('AAPL', 150), quote('AAPL', 150, new Date('2024-01-02T15:00:05Z')))).toEqual({});
+  });
+});
+
+describe('QuoteStream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const pushAdapter = () => {
+    const listeners = new Map<string, QuoteListener>();
+    const stop = vi.fn();
+    const adapter = {
+      name: 'push',
+      subscribeQuotes: vi.fn((symbols: string[], onQuote: QuoteListener) => {
+        listeners.set(symbols[0]!, onQuote);
+        return stop;
+      }),
+    } as unknown as DataAdapter;
+    return { adapter, listeners, stop };
+  };
+
+  it('should share one push subscription among consumers', () => {
+    const { adapter, listeners, stop } = pushAdapter();
+    const stream = new QuoteStream({ selectAdapter: () => adapter, fetchQuotes: vi.fn() });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribeFirst = stream.subscribe(['AAPL'], first);
+    const unsubscribeSecond = stream.subscribe(['aapl'], second);
+    listeners.get('AAPL')!(quote('AAPL', 150));
+
+    expect(adapter.subscribeQuotes).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', adapter: 'push' }));
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unsubscribeFirst();
+    expect(stop).not.toHaveBeenCalled();
+    unsubscribeSecond();
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(stream.getSymbols()).toEqual([]);
+  });
+
+  it('should deliver only changes and replay the last quote to new consumers', () => {
+    const { adapter, listeners } = pushAdapter();
+    const stream = new QuoteStream({ selectAdapter: () => adapter, fetchQuotes: vi.fn() });
+    const first = vi.fn();
+
+    stream.subscribe(['AAPL'], first);
+    listeners.get('AAPL')!(quote('AAPL', 150));
+    listeners.get('AAPL')!(quote('AAPL', 150, new Date('2024-01-02T15:00:01Z')));
+    listeners.get('AAPL')!(quote('AAPL', 151));
+
+    expect(first.mock.calls.map(([tick]) => tick.changes.price)).toEqual([150, 151]);
+
+    const late = vi.fn();
+    stream.subscribe(['AAPL'], late);
+    expect(late).toHaveBeenCalledWith(expect.objectContaining({ quote: quote('AAPL', 151) }));
+  });
+
+  it('should poll symbols without a push adapter in one request', async () => {
+    const prices = [150, 150, 151];
+    const source: QuoteStreamSource = {
+      selectAdapter: () => undefined,
+      fetchQuotes: vi.fn(async (symbols: string[]) => {
+        const price = prices.shift() ?? 151;
+        return symbols.map((symbol) => quote(symbol, price));
+      }),
+    };
+    const stream = new QuoteStream(source, { pollInterval: 1000 });
+    const onTick = vi.fn();
+
+    const unsubscribe = stream.subscribe(['AAPL', 'MSFT'], onTick);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(source.fetchQuotes).toHaveBeenCalledTimes(3);
+    expect(source.fetchQuotes).toHaveBeenCalledWith(['AAPL', 'MSFT']);
+    // Initial quotes for both symbols, then one change each
+    expect(onTick.mock.calls.map(([tick]) => [tick.symbol, tick.changes.price])).toEqual([
+      ['AAPL', 150],
+      ['MSFT', 150],
+      ['AAPL', 151],
+      ['MSFT', 151],
+    ]);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(source.fetchQuotes).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep polling after a failed poll', async () => {
+    const fetchQuotes = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockResolvedValue([quote('AAPL', 150)]);
+    const stream = new QuoteStream({ selectAdapter: () => undefined, fetchQuotes }, { pollInterval: 1000 });
+    const onTick = vi.fn();
+
+    stream.subscribe(['AAPL'], onTick);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onTick).toHaveBeenCalledTimes(1);
+    stream.close();
+  });
+
+  it('should poll a symbol whose push subscription cannot start', async () => {
+    const adapter = {
+      name: 'push',
+      subscribeQuotes: () => {
+        throw new Error('not connected');
+      },
+    } as unknown as DataAdapter;
+    const fetchQuotes = vi.fn(async () => [quote('AAPL', 150)]);
+    const stream = new QuoteStream({ selectAdapter: () => adapter, fetchQuotes });
+    const onTick = vi.fn();
+
+    stream.subscribe(['AAPL'], onTick);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onTick).toHaveBeenCalledWith(expect.objectContaining({ adapter: undefined }));
+    stream.close();
+  });
+});
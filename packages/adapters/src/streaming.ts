@@ -0,0 +1,298 @@
+/**
+ * Streaming quote multiplexer.
+ *
+ * Shares one upstream subscription per symbol among any number of
+ * consumers, using an adapter's push stream where available and
+ * polling otherwise.
+ *
+ * @packageDocumentation
+ */
+
+import type { Quote } from '@open-fin-terminal/shared';
+import type { DataAdapter, Unsubscribe } from './types';
+
+/**
+ * Quote update delivered to stream consumers.
+ */
+export interface QuoteTick {
+  /** Symbol as reported by the source */
+  symbol: string;
+  /** Latest quote */
+  quote: Quote;
+  /** Fields that changed since the previous tick (every field on a consumer's first tick) */
+  changes: Partial<Quote>;
+  /** Name of the adapter pushing quotes, or undefined when polled */
+  adapter?: string;
+}
+
+/**
+ * Receives quote ticks.
+ */
+export type QuoteTickHandler = (tick: QuoteTick) => void;
+
+/**
+ * Where a quote stream gets its data from.
+ */
+export interface QuoteStreamSource {
+  /** Adapter to stream a symbol from, or undefined to poll it */
+  selectAdapter(symbol: string): DataAdapter | undefined;
+  /** Fetch quotes for polled symbols (symbols without data may be omitted) */
+  fetchQuotes(symbols: string[]): Promise<Quote[]>;
+}
+
+/**
+ * Options for quote streams.
+ */
+export interface QuoteStreamOptions {
+  /** Interval between polls of symbols without a push stream, in milliseconds (default: 5000) */
+  pollInterval?: number;
+}
+
+/**
+ * Upstream subscription shared by a symbol's consumers.
+ */
+interface SymbolFeed {
+  consumers: Set<QuoteTickHandler>;
+  last?: Quote;
+  adapter?: string;
+  /** Stops the adapter's push stream; undefined when polled */
+  stop?: Unsubscribe;
+}
+
+/**
+ * Fields of `next` that differ from `previous`.
+ *
+ * The timestamp is reported when anything else changed, but a new
+ * timestamp alone is not a change. Without a previous quote every
+ * field is returned.
+ *
+ * @param previous - Last quote delivered, if any
+ * @param next - New quote
+ * @returns Changed fields (empty when nothing changed)
+ */
+export function diffQuote(previous: Quote | undefined, next: Quote): Partial<Quote> {
+  if (!previous) {
+    return { ...next };
+  }
+
+  const before = previous as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (key === 'timestamp') {
+      continue;
+    }
+    if (before[key] !== value) {
+      changes[key] = value;
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    changes.timestamp = next.timestamp;
+  }
+  return changes as Partial<Quote>;
+}
+
+/**
+ * Quote stream multiplexer.
+ *
+ * The first consumer of a symbol starts its upstream subscription and
+ * the last one to leave stops it. Symbols whose selected adapter cannot
+ * push quotes share a single poll of `fetchQuotes`; only quotes that
+ * changed are delivered.
+ *
+ * @example
+ * ```typescript
+ * const stream = new QuoteStream(source, { pollInterval: 2000 });
+ *
+ * const stop = stream.subscribe(['AAPL', 'MSFT'], ({ symbol, changes }) => {
+ *   console.log(symbol, changes);
+ * });
+ *
+ * stop();
+ * ```
+ */
+export class QuoteStream {
+  private feeds = new Map<string, SymbolFeed>();
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private polling = false;
+  private readonly pollInterval: number;
+
+  constructor(
+    private readonly source: QuoteStreamSource,
+    options: QuoteStreamOptions = {},
+  ) {
+    this.pollInterval = options.pollInterval ?? 5000;
+  }
+
+  /**
+   * Subscribe to quote ticks for symbols.
+   *
+   * Consumers joining a symbol that already has a quote receive it
+   * immediately.
+   *
+   * @param symbols - Stock symbols or tickers
+   * @param onTick - Called with each changed quote
+   * @returns Function that removes this consumer
+   */
+  subscribe(symbols: string[], onTick: QuoteTickHandler): Unsubscribe {
+    const keys = [...new Set(symbols.map((symbol) => symbol.toUpperCase()))];
+    let startedPolling = false;
+
+    for (const key of keys) {
+      let feed = this.feeds.get(key);
+      if (!feed) {
+        feed = { consumers: new Set() };
+        this.feeds.set(key, feed);
+        this.start(key, feed);
+        startedPolling ||= !feed.stop;
+      }
+      feed.consumers.add(onTick);
+
+      if (feed.last) {
+        onTick({
+          symbol: feed.last.symbol,
+          quote: feed.last,
+          changes: { ...feed.last },
+          adapter: feed.adapter,
+        });
+      }
+    }
+
+    if (startedPolling) {
+      this.startPolling();
+    }
+
+    let active = true;
+    return () => {
+      if (!active) {
+        return;
+      }
+      active = false;
+      for (const key of keys) {
+        this.remove(key, onTick);
+      }
+    };
+  }
+
+  /**
+   * Symbols with at least one consumer.
+   */
+  getSymbols(): string[] {
+    return [...this.feeds.keys()];
+  }
+
+  /**
+   * Stop every upstream subscription and drop all consumers.
+   */
+  close(): void {
+    for (const feed of this.feeds.values()) {
+      feed.stop?.();
+    }
+    this.feeds.clear();
+    this.stopPolling();
+  }
+
+  /**
+   * Start a symbol's push stream, leaving it to polling if no adapter
+   * can push it.
+   */
+  private start(key: string, feed: SymbolFeed): void {
+    const adapter = this.source.selectAdapter(key);
+    if (!adapter?.subscribeQuotes) {
+      return;
+    }
+
+    try {
+      feed.stop = adapter.subscribeQuotes([key], (quote) => this.deliver(feed, quote));
+      feed.adapter = adapter.name;
+    } catch {
+      // Fall back to polling
+      feed.stop = undefined;
+    }
+  }
+
+  /**
+   * Remove a consumer, stopping the symbol's upstream when it was the last.
+   */
+  private remove(key: string, onTick: QuoteTickHandler): void {
+    const feed = this.feeds.get(key);
+    if (!feed) {
+      return;
+    }
+
+    feed.consumers.delete(onTick);
+    if (feed.consumers.size === 0) {
+      feed.stop?.();
+      this.feeds.delete(key);
+      if (!this.polledSymbols().length) {
+        this.stopPolling();
+      }
+    }
+  }
+
+  /**
+   * Deliver a quote to a symbol's consumers if it changed.
+   */
+  private deliver(feed: SymbolFeed, quote: Quote): void {
+    const changes = diffQuote(feed.last, quote);
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    feed.last = quote;
+    const tick: QuoteTick = { symbol: quote.symbol, quote, changes, adapter: feed.adapter };
+    for (const consumer of [...feed.consumers]) {
+      consumer(tick);
+    }
+  }
+
+  private polledSymbols(): string[] {
+    return [...this.feeds.entries()]
+      .filter(([, feed]) => !feed.stop)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Poll now and then on every interval, unless already polling.
+   */
+  private startPolling(): void {
+    void this.poll();
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Fetch quotes for every polled symbol and deliver the changed ones.
+   *
+   * Failed polls are skipped; the next interval tries again.
+   */
+  private async poll(): Promise<void> {
+    const symbols = this.polledSymbols();
+    if (this.polling || symbols.length === 0) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const quotes = await this.source.fetchQuotes(symbols);
+      for (const quote of quotes) {
+        const feed = this.feeds.get(quote.symbol.toUpperCase());
+        if (feed && !feed.stop) {
+          this.deliver(feed, quote);
+        }
+      }
+    } catch {
+      // Leave the last quotes in place until a poll succeeds
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -7,7 +7,19 @@
  * @packageDocumentation
  */
 
-import type { Quote, HistoricalPrice, Fundamentals } from '@open-fin-terminal/shared';
+import type {
+  Quote,
+  HistoricalPrice,
+  Fundamentals,
+  Period,
+  InsiderTransaction,
+  Dividend,
+  StockSplit,
+  OptionChain,
+  SymbologyRules,
+} from '@open-fin-terminal/shared';
+import type { CircuitState } from './circuit-breaker';
+import type { QuoteConsensus } from './consensus';
 
 /**
  * Adapter type classification.
@@ -42,6 +54,10 @@ export interface AdapterCapabilities {
   crypto: boolean;
   /** Supports news and filings */
   news: boolean;
+  /** Supports insider transactions (SEC Form 4) */
+  insiderTransactions: boolean;
+  /** Supports dividend and split history */
+  corporateActions: boolean;
   /** Real-time data (vs delayed) */
   realtime: boolean;
 }
@@ -54,7 +70,7 @@ export interface HealthCheck {
   adapter: string;
   /** Current health status */
   status: HealthStatus;
-  /** Average response time in milliseconds */
+  /** Response time in milliseconds (median of recent data calls once the registry has recorded any) */
   latency: number;
   /** Success rate (0-1) */
   successRate: number;
@@ -62,6 +78,12 @@ export interface HealthCheck {
   lastChecked: Date;
   /** Optional error message if unhealthy */
   error?: string;
+  /** Median latency of recent data calls in milliseconds (set by the registry) */
+  latencyP50?: number;
+  /** 95th percentile latency of recent data calls in milliseconds (set by the registry) */
+  latencyP95?: number;
+  /** Circuit breaker state (set by the registry) */
+  circuitState?: CircuitState;
 }
 
 /**
@@ -76,6 +98,8 @@ export interface HistoricalPriceParams {
   to: string;
   /** Time interval (e.g., '1d', '1h', '5m') */
   interval?: string;
+  /** Include pre- and post-market bars for intraday intervals (default: false) */
+  includeExtendedHours?: boolean;
 }
 
 /**
@@ -86,12 +110,109 @@ export interface QuoteParams {
   symbol: string;
 }
 
+/**
+ * Parameters for batch quote requests.
+ */
+export interface BatchQuoteParams {
+  /** Stock symbols or tickers */
+  symbols: string[];
+}
+
 /**
  * Parameters for fundamentals requests.
  */
 export interface FundamentalsParams {
   /** Stock symbol or ticker */
   symbol: string;
+  /**
+   * Statement period to return. The latest statement of this period fills
+   * the single-statement fields and histories are limited to it (default:
+   * latest annual statements, histories of every period)
+   */
+  period?: Period;
+  /** Maximum number of statements per period in each history */
+  limit?: number;
+  /** Include trailing-twelve-month statements in the histories, alongside `period` if given */
+  ttm?: boolean;
+}
+
+/**
+ * Parameters for insider transaction requests.
+ */
+export interface InsiderTransactionsParams {
+  /** Stock symbol or ticker */
+  symbol: string;
+  /** Earliest filing date (inclusive) */
+  from?: Date;
+  /** Latest filing date (inclusive) */
+  to?: Date;
+  /** Maximum number of transactions to return, most recent first (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Parameters for dividend and split history requests.
+ */
+export interface CorporateActionsParams {
+  /** Stock symbol or ticker */
+  symbol: string;
+  /** Start date (ISO 8601, default: full history) */
+  from?: string;
+  /** End date (ISO 8601, default: now) */
+  to?: string;
+}
+
+/**
+ * Parameters for option chain requests.
+ */
+export interface OptionChainParams {
+  /** Underlying symbol or ticker */
+  symbol: string;
+  /** Expiration date (ISO 8601, default: the source's default, usually the nearest) */
+  expiration?: string;
+}
+
+/**
+ * Receives quotes pushed by a streaming adapter.
+ */
+export type QuoteListener = (quote: Quote) => void;
+
+/**
+ * Stops a quote subscription. Safe to call more than once.
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Data operations the registry can route across adapters.
+ */
+export type AdapterOperation =
+  | 'getQuote'
+  | 'getQuotes'
+  | 'getHistoricalPrices'
+  | 'getFundamentals'
+  | 'getInsiderTransactions'
+  | 'getDividends'
+  | 'getSplits'
+  | 'getOptionChain';
+
+/**
+ * Result of a routed registry request.
+ */
+export interface AdapterResult<T> {
+  /** Data returned by the adapter */
+  data: T;
+  /** Name of the adapter that served the request */
+  adapter: string;
+  /** Sources and divergence report when quote consensus mode merged several adapters */
+  consensus?: QuoteConsensus;
+}
+
+/**
+ * Options for routed registry requests.
+ */
+export interface RoutingOptions {
+  /** Adapter to try before walking the fallback chain */
+  preferredAdapter?: string;
 }
 
 /**
@@ -138,6 +259,12 @@ export interface DataAdapter {
   /** Whether this adapter requires setup (API keys, local server, etc.) */
   readonly requiresSetup: boolean;
 
+  /**
+   * How this adapter spells canonical symbols (e.g. "BRK.B", "XLON:VOD")
+   * in provider requests; see `toProviderSymbol` in the shared package.
+   */
+  readonly symbology?: SymbologyRules;
+
   /**
    * Check if adapter is healthy and responsive.
    *
@@ -166,6 +293,18 @@ export interface DataAdapter {
    */
   getQuote(params: QuoteParams): Promise<Quote>;
 
+  /**
+   * Get quotes for several symbols in as few requests as possible.
+   *
+   * Optional: the registry fans out to `getQuote` for adapters that
+   * don't implement it. Symbols with no data are omitted from the result.
+   *
+   * @param params - Batch quote parameters
+   * @returns Quotes for the symbols that were found
+   * @throws {AdapterError} If adapter doesn't support quotes or request fails
+   */
+  getQuotes?(params: BatchQuoteParams): Promise<Quote[]>;
+
   /**
    * Get historical price data for a symbol.
    *
@@ -183,6 +322,63 @@ export interface DataAdapter {
    * @throws {AdapterError} If adapter doesn't support fundamentals or request fails
    */
   getFundamentals(params: FundamentalsParams): Promise<Fundamentals>;
+
+  /**
+   * Get insider transactions (optional).
+   *
+   * Implemented by adapters declaring the `insiderTransactions` capability.
+   *
+   * @param params - Insider transaction parameters
+   * @returns Transactions, most recent first
+   * @throws {AdapterError} If request fails
+   */
+  getInsiderTransactions?(params: InsiderTransactionsParams): Promise<InsiderTransaction[]>;
+
+  /**
+   * Get cash dividends (optional).
+   *
+   * Implemented by adapters declaring the `corporateActions` capability.
+   *
+   * @param params - Corporate action parameters
+   * @returns Dividends, oldest first
+   * @throws {AdapterError} If request fails
+   */
+  getDividends?(params: CorporateActionsParams): Promise<Dividend[]>;
+
+  /**
+   * Get stock splits (optional).
+   *
+   * Implemented by adapters declaring the `corporateActions` capability.
+   *
+   * @param params - Corporate action parameters
+   * @returns Splits, oldest first
+   * @throws {AdapterError} If request fails
+   */
+  getSplits?(params: CorporateActionsParams): Promise<StockSplit[]>;
+
+  /**
+   * Get the option chain of an underlying (optional).
+   *
+   * Implemented by adapters declaring the `options` capability.
+   *
+   * @param params - Option chain parameters
+   * @returns Chain with every listed expiration and the contracts of the requested one
+   * @throws {AdapterError} If request fails
+   */
+  getOptionChain?(params: OptionChainParams): Promise<OptionChain>;
+
+  /**
+   * Stream quotes for symbols as the source pushes them (optional).
+   *
+   * Implemented by adapters with a push connection (WebSocket, SSE).
+   * The registry polls `getQuote`/`getQuotes` for adapters without it.
+   *
+   * @param symbols - Stock symbols or tickers
+   * @param onQuote - Called with each quote received
+   * @returns Function that stops the subscription
+   * @throws {AdapterError} If the subscription cannot be started
+   */
+  subscribeQuotes?(symbols: string[], onQuote: QuoteListener): Unsubscribe;
 }
 
 /**
@@ -196,6 +392,7 @@ export class AdapterError extends Error {
       | 'UNSUPPORTED_OPERATION'
       | 'RATE_LIMITED'
       | 'UNAVAILABLE'
+      | 'UNAUTHORIZED'
       | 'INVALID_REQUEST'
       | 'UNKNOWN',
     public readonly cause?: Error,
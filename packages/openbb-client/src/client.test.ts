@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { OpenBBClient } from './client';
 
 describe('OpenBBClient', () => {
@@ -38,3 +38,131 @@ describe('OpenBBClient', () => {
     expect(client.news).toBeDefined();
   });
 });
+
+describe('OpenBBClient endpoints', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const mockResults = (results: unknown) => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ results, provider: 'fmp' }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  const requestedUrl = (fetchMock: ReturnType<typeof mockResults>) =>
+    new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+
+  const client = () => new OpenBBClient({ cache: false, retries: 0 });
+
+  it('should have the extended namespaces', () => {
+    const c = client();
+    expect(c.equity.fundamental.dividends).toBeDefined();
+    expect(c.equity.fundamental.historicalSplits).toBeDefined();
+    expect(c.equity.screener).toBeDefined();
+    expect(c.equity.compare.peers).toBeDefined();
+    expect(c.etf.holdings).toBeDefined();
+    expect(c.index.constituents).toBeDefined();
+    expect(c.currency.price.historical).toBeDefined();
+    expect(c.crypto.price.historical).toBeDefined();
+    expect(c.fixedincome.government.yieldCurve).toBeDefined();
+    expect(c.news.world).toBeDefined();
+  });
+
+  it('should pass screener filters as query parameters', async () => {
+    const fetchMock = mockResults([{ symbol: 'AAPL', market_cap: 2.9e12 }]);
+
+    const response = await client().equity.screener({ provider: 'fmp', sector: 'Technology', mktcap_min: 1e11 });
+
+    const url = requestedUrl(fetchMock);
+    expect(url.pathname).toBe('/equity/screener');
+    expect(url.searchParams.get('sector')).toBe('Technology');
+    expect(url.searchParams.get('mktcap_min')).toBe('100000000000');
+    expect(response.results[0]!.market_cap).toBe(2.9e12);
+  });
+
+  it.each([
+    ['/equity/fundamental/historical_splits', (c: OpenBBClient) => c.equity.fundamental.historicalSplits({ symbol: 'AAPL' })],
+    ['/equity/compare/peers', (c: OpenBBClient) => c.equity.compare.peers({ symbol: 'AAPL' })],
+    ['/currency/price/historical', (c: OpenBBClient) => c.currency.price.historical({ symbol: 'EURUSD' })],
+    ['/fixedincome/government/yield_curve', (c: OpenBBClient) => c.fixedincome.government.yieldCurve()],
+  ])('should request %s', async (path, call) => {
+    const results = path === '/equity/compare/peers' ? { peers_list: ['MSFT'] } : [];
+    const fetchMock = mockResults(results);
+
+    await call(client());
+
+    expect(requestedUrl(fetchMock).pathname).toBe(path);
+  });
+
+  it('should reject responses that do not match the schema', async () => {
+    mockResults([{ date: '2024-01-02', maturity: 'year_10' }]);
+
+    await expect(client().fixedincome.government.yieldCurve()).rejects.toThrow('Response validation failed');
+  });
+});
+
+describe('OpenBBClient retries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const quote = {
+    symbol: 'AAPL',
+    last_price: 185.6,
+    change: 1.6,
+    change_percent: 0.87,
+    volume: 1000,
+    timestamp: '2024-01-09T21:00:00Z',
+  };
+
+  const client = () => new OpenBBClient({ cache: false, retries: 2, retryDelay: 1 });
+
+  it('should retry server errors', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ results: quote, provider: 'fmp' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await client().equity.price.quote({ symbol: 'AAPL' });
+
+    expect(response.results.last_price).toBe(185.6);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry validation failures', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ results: {}, provider: 'fmp' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().equity.price.quote({ symbol: 'AAPL' })).rejects.toMatchObject({ kind: 'validation' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry missing provider credentials', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(JSON.stringify({ detail: "Missing credential 'fmp_api_key'." }), { status: 500 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().equity.price.quote({ symbol: 'AAPL', provider: 'fmp' })).rejects.toMatchObject({
+      kind: 'provider_credentials',
+      provider: 'fmp',
+      message: "OpenBB API request failed: Missing credential 'fmp_api_key'.",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify failed fetches as network errors', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().equity.price.quote({ symbol: 'AAPL' })).rejects.toMatchObject({ kind: 'network' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -12,6 +12,14 @@ import type {
   CompanyProfile,
   FinancialStatement,
   OptionsChain,
+  DividendData,
+  SplitData,
+  ScreenerResult,
+  EquityPeers,
+  EtfHolding,
+  IndexConstituent,
+  PairHistoricalPrice,
+  YieldCurvePoint,
   EconomicData,
   NewsArticle,
   ProviderInfo,
@@ -23,6 +31,14 @@ import {
   CompanyProfileSchema,
   FinancialStatementArraySchema,
   OptionsChainArraySchema,
+  DividendDataArraySchema,
+  SplitDataArraySchema,
+  ScreenerResultArraySchema,
+  EquityPeersSchema,
+  EtfHoldingArraySchema,
+  IndexConstituentArraySchema,
+  PairHistoricalPriceArraySchema,
+  YieldCurvePointArraySchema,
   EconomicDataArraySchema,
   NewsArticleArraySchema,
   ProviderInfoSchema,
@@ -118,7 +134,9 @@ export class OpenBBClient {
         });
 
         if (!response.ok) {
-          throw OpenBBError.fromResponse(response, endpoint);
+          const body = await response.json().catch(() => undefined);
+          const provider = typeof params.provider === 'string' ? params.provider : undefined;
+          throw OpenBBError.fromResponse(response, endpoint, body, provider);
         }
 
         const json = await response.json();
@@ -138,20 +156,19 @@ export class OpenBBClient {
 
         return validated;
       } catch (error) {
-        lastError = error as Error;
-
-        // Don't retry on validation errors or 4xx errors
-        if (
-          error instanceof OpenBBError &&
-          (error.status ? error.status >= 400 && error.status < 500 : false)
-        ) {
-          throw error;
+        const openbbError = this.toOpenBBError(error, endpoint);
+        lastError = openbbError;
+
+        // Only retry failures that may go away (rate limits, timeouts, network, server)
+        if (!openbbError.retryable) {
+          throw openbbError;
         }
 
-        // Wait before retry (exponential backoff)
+        // Wait before retry (exponential backoff, or as long as the server asks)
         if (attempt < this.config.retries) {
+          const backoff = this.config.retryDelay * Math.pow(2, attempt);
           await new Promise((resolve) =>
-            setTimeout(resolve, this.config.retryDelay * Math.pow(2, attempt))
+            setTimeout(resolve, Math.max(backoff, openbbError.retryAfter ?? 0))
           );
         }
       }
@@ -160,6 +177,19 @@ export class OpenBBClient {
     throw lastError || OpenBBError.networkError(endpoint, 'Unknown error');
   }
 
+  /**
+   * Classify an error thrown while requesting an endpoint
+   */
+  private toOpenBBError(error: unknown, endpoint: string): OpenBBError {
+    if (error instanceof OpenBBError) {
+      return error;
+    }
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return OpenBBError.timeoutError(endpoint, this.config.timeout);
+    }
+    return OpenBBError.networkError(endpoint, error);
+  }
+
   /**
    * Get available providers
    */
@@ -250,6 +280,148 @@ export class OpenBBClient {
         const schema = OpenBBResponseSchema(FinancialStatementArraySchema);
         return this.request('/equity/fundamental/cash', params, schema);
       },
+
+      /**
+       * Get historical dividends
+       */
+      dividends: async (params: {
+        symbol: string;
+        start_date?: string;
+        end_date?: string;
+        provider?: string;
+      }): Promise<OpenBBResponse<DividendData[]>> => {
+        const schema = OpenBBResponseSchema(DividendDataArraySchema);
+        return this.request('/equity/fundamental/dividends', params, schema);
+      },
+
+      /**
+       * Get historical stock splits
+       */
+      historicalSplits: async (params: {
+        symbol: string;
+        provider?: string;
+      }): Promise<OpenBBResponse<SplitData[]>> => {
+        const schema = OpenBBResponseSchema(SplitDataArraySchema);
+        return this.request('/equity/fundamental/historical_splits', params, schema);
+      },
+    },
+
+    /**
+     * Screen equities. Filters are provider-specific (e.g. `mktcap_min`,
+     * `sector`, `exchange` for FMP)
+     */
+    screener: async (params: {
+      provider?: string;
+      [filter: string]: string | number | boolean | undefined;
+    } = {}): Promise<OpenBBResponse<ScreenerResult[]>> => {
+      const schema = OpenBBResponseSchema(ScreenerResultArraySchema);
+      return this.request('/equity/screener', params, schema);
+    },
+
+    compare: {
+      /**
+       * Get peer companies (same sector and size)
+       */
+      peers: async (params: {
+        symbol: string;
+        provider?: string;
+      }): Promise<OpenBBResponse<EquityPeers>> => {
+        const schema = OpenBBResponseSchema(EquityPeersSchema);
+        return this.request('/equity/compare/peers', params, schema);
+      },
+    },
+  };
+
+  /**
+   * ETF endpoints
+   */
+  etf = {
+    /**
+     * Get ETF holdings
+     */
+    holdings: async (params: {
+      symbol: string;
+      provider?: string;
+    }): Promise<OpenBBResponse<EtfHolding[]>> => {
+      const schema = OpenBBResponseSchema(EtfHoldingArraySchema);
+      return this.request('/etf/holdings', params, schema);
+    },
+  };
+
+  /**
+   * Index endpoints
+   */
+  index = {
+    /**
+     * Get index constituents (e.g. 'dowjones', 'nasdaq', 'sp500' for FMP)
+     */
+    constituents: async (params: {
+      symbol: string;
+      provider?: string;
+    }): Promise<OpenBBResponse<IndexConstituent[]>> => {
+      const schema = OpenBBResponseSchema(IndexConstituentArraySchema);
+      return this.request('/index/constituents', params, schema);
+    },
+  };
+
+  /**
+   * Currency (FX) endpoints
+   */
+  currency = {
+    price: {
+      /**
+       * Get historical FX rates for a pair (e.g. 'EURUSD')
+       */
+      historical: async (params: {
+        symbol: string;
+        start_date?: string;
+        end_date?: string;
+        interval?: string;
+        provider?: string;
+      }): Promise<OpenBBResponse<PairHistoricalPrice[]>> => {
+        const schema = OpenBBResponseSchema(PairHistoricalPriceArraySchema);
+        return this.request('/currency/price/historical', params, schema);
+      },
+    },
+  };
+
+  /**
+   * Crypto endpoints
+   */
+  crypto = {
+    price: {
+      /**
+       * Get historical crypto prices for a pair (e.g. 'BTCUSD')
+       */
+      historical: async (params: {
+        symbol: string;
+        start_date?: string;
+        end_date?: string;
+        interval?: string;
+        provider?: string;
+      }): Promise<OpenBBResponse<PairHistoricalPrice[]>> => {
+        const schema = OpenBBResponseSchema(PairHistoricalPriceArraySchema);
+        return this.request('/crypto/price/historical', params, schema);
+      },
+    },
+  };
+
+  /**
+   * Fixed income endpoints
+   */
+  fixedincome = {
+    government: {
+      /**
+       * Get a government yield curve (default: latest US Treasury curve)
+       */
+      yieldCurve: async (params: {
+        date?: string;
+        country?: string;
+        provider?: string;
+      } = {}): Promise<OpenBBResponse<YieldCurvePoint[]>> => {
+        const schema = OpenBBResponseSchema(YieldCurvePointArraySchema);
+        return this.request('/fixedincome/government/yield_curve', params, schema);
+      },
     },
   };
 
@@ -303,6 +475,17 @@ export class OpenBBClient {
       const schema = OpenBBResponseSchema(NewsArticleArraySchema);
       return this.request('/news/company', params, schema);
     },
+
+    /**
+     * Get world (market-wide) news
+     */
+    world: async (params: {
+      limit?: number;
+      provider?: string;
+    } = {}): Promise<OpenBBResponse<NewsArticle[]>> => {
+      const schema = OpenBBResponseSchema(NewsArticleArraySchema);
+      return this.request('/news/world', params, schema);
+    },
   };
 
   /**
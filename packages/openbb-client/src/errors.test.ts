@@ -48,4 +48,51 @@ describe('OpenBBError', () => {
     expect(error.message).toContain('Provider failed');
     expect(error.provider).toBe('test-provider');
   });
+
+  it('should classify errors by status', () => {
+    const kind = (status: number) =>
+      OpenBBError.fromResponse(new Response(null, { status }), '/test').kind;
+    expect(kind(401)).toBe('auth');
+    expect(kind(429)).toBe('rate_limited');
+    expect(kind(422)).toBe('invalid_request');
+    expect(kind(504)).toBe('timeout');
+    expect(kind(502)).toBe('server');
+  });
+
+  it('should use the error body detail as the message', () => {
+    const error = OpenBBError.fromResponse(
+      new Response(null, { status: 422, statusText: 'Unprocessable Entity' }),
+      '/equity/price/quote',
+      { detail: [{ loc: ['query', 'symbol'], msg: 'Field required' }] }
+    );
+    expect(error.message).toBe('OpenBB API request failed: query.symbol: Field required');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should detect missing provider credentials', () => {
+    const error = OpenBBError.fromResponse(
+      new Response(null, { status: 500 }),
+      '/equity/price/quote',
+      { detail: "Missing credential 'fmp_api_key'." }
+    );
+    expect(error.kind).toBe('provider_credentials');
+    expect(error.provider).toBe('fmp');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should read Retry-After on rate limits', () => {
+    const error = OpenBBError.fromResponse(
+      new Response(null, { status: 429, headers: { 'Retry-After': '3' } }),
+      '/test'
+    );
+    expect(error.kind).toBe('rate_limited');
+    expect(error.retryAfter).toBe(3000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should classify validation, network and timeout errors', () => {
+    expect(OpenBBError.validationError('/test', {}).kind).toBe('validation');
+    expect(OpenBBError.networkError('/test', new Error('down')).kind).toBe('network');
+    expect(OpenBBError.timeoutError('/test', 1000).kind).toBe('timeout');
+  });
 });
@@ -2,27 +2,79 @@
  * Custom error class for OpenBB Platform API errors
  */
 
+/**
+ * What went wrong with an OpenBB request
+ *
+ * - `auth`: the OpenBB API rejected the client's credentials
+ * - `provider_credentials`: the provider has no API key configured in OpenBB
+ * - `rate_limited`: too many requests (see `retryAfter`)
+ * - `invalid_request`: the request was rejected (unknown symbol, bad parameters)
+ * - `validation`: the response did not match the expected schema
+ * - `timeout`: no response within the configured timeout
+ * - `network`: the server could not be reached
+ * - `server`: the server or provider failed
+ * - `unknown`: anything else
+ */
+export type OpenBBErrorKind =
+  | 'auth'
+  | 'provider_credentials'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'validation'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+/**
+ * Kinds worth retrying: the same request may succeed later
+ */
+const RETRYABLE_KINDS: ReadonlySet<OpenBBErrorKind> = new Set([
+  'rate_limited',
+  'timeout',
+  'network',
+  'server',
+]);
+
+/**
+ * Matches OpenBB's missing or rejected provider credential messages,
+ * e.g. "Missing credential 'fmp_api_key'"
+ */
+const CREDENTIAL_PATTERN = /credential|api[ _]?key/i;
+
+/**
+ * Provider named in a credential field, e.g. "fmp" in "fmp_api_key"
+ */
+const CREDENTIAL_PROVIDER_PATTERN = /\b([a-z0-9]+)_api_key\b/i;
+
 export class OpenBBError extends Error {
+  public readonly kind: OpenBBErrorKind;
   public readonly status?: number;
   public readonly provider?: string;
   public readonly endpoint?: string;
   public readonly details?: unknown;
+  /** Delay requested by the server before retrying, in milliseconds */
+  public readonly retryAfter?: number;
 
   constructor(
     message: string,
     options?: {
+      kind?: OpenBBErrorKind;
       status?: number;
       provider?: string;
       endpoint?: string;
       details?: unknown;
+      retryAfter?: number;
     }
   ) {
     super(message);
     this.name = 'OpenBBError';
+    this.kind = options?.kind ?? kindForStatus(options?.status);
     this.status = options?.status;
     this.provider = options?.provider;
     this.endpoint = options?.endpoint;
     this.details = options?.details;
+    this.retryAfter = options?.retryAfter;
 
     // Maintains proper stack trace for where error was thrown (V8 only)
     if (Error.captureStackTrace) {
@@ -30,15 +82,39 @@ export class OpenBBError extends Error {
     }
   }
 
+  /**
+   * Whether the same request may succeed if retried
+   */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+
   /**
    * Create error from HTTP response
+   *
+   * @param response - Failed response
+   * @param endpoint - Requested endpoint
+   * @param body - Parsed response body, if any; its `detail` becomes the message
+   * @param provider - Provider the request was sent to, if chosen
    */
-  static fromResponse(response: Response, endpoint?: string): OpenBBError {
+  static fromResponse(
+    response: Response,
+    endpoint?: string,
+    body?: unknown,
+    provider?: string
+  ): OpenBBError {
+    const detail = parseDetail(body);
+    const credentialsMissing = detail !== undefined && CREDENTIAL_PATTERN.test(detail);
+
     return new OpenBBError(
-      `OpenBB API request failed: ${response.statusText}`,
+      `OpenBB API request failed: ${detail ?? response.statusText}`,
       {
+        kind: credentialsMissing ? 'provider_credentials' : kindForStatus(response.status),
         status: response.status,
+        provider: provider ?? detail?.match(CREDENTIAL_PROVIDER_PATTERN)?.[1]?.toLowerCase(),
         endpoint,
+        details: body,
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
       }
     );
   }
@@ -48,16 +124,28 @@ export class OpenBBError extends Error {
    */
   static networkError(endpoint: string, cause: unknown): OpenBBError {
     return new OpenBBError(`Network error accessing OpenBB API`, {
+      kind: 'network',
       endpoint,
       details: cause,
     });
   }
 
+  /**
+   * Create error for requests that timed out
+   */
+  static timeoutError(endpoint: string, timeout: number): OpenBBError {
+    return new OpenBBError(`OpenBB API request timed out after ${timeout}ms`, {
+      kind: 'timeout',
+      endpoint,
+    });
+  }
+
   /**
    * Create error for validation failures
    */
   static validationError(endpoint: string, details: unknown): OpenBBError {
     return new OpenBBError(`Response validation failed for ${endpoint}`, {
+      kind: 'validation',
       endpoint,
       details,
     });
@@ -72,3 +160,72 @@ export class OpenBBError extends Error {
     });
   }
 }
+
+/**
+ * Error kind for an HTTP status
+ */
+function kindForStatus(status: number | undefined): OpenBBErrorKind {
+  if (status === undefined) {
+    return 'unknown';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  if (status === 408 || status === 504) {
+    return 'timeout';
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return 'invalid_request';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
+
+/**
+ * Message from an OpenBB error body.
+ *
+ * OpenBB returns `{ "detail": "..." }`; FastAPI request validation
+ * returns `{ "detail": [{ "loc": [...], "msg": "..." }] }`.
+ */
+function parseDetail(body: unknown): string | undefined {
+  if (typeof body !== 'object' || body === null || !('detail' in body)) {
+    return undefined;
+  }
+
+  const { detail } = body as { detail: unknown };
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map((item) => {
+        if (typeof item !== 'object' || item === null) return undefined;
+        const { loc, msg } = item as { loc?: unknown; msg?: unknown };
+        if (typeof msg !== 'string') return undefined;
+        return Array.isArray(loc) ? `${loc.join('.')}: ${msg}` : msg;
+      })
+      .filter((message): message is string => message !== undefined);
+    return messages.length > 0 ? messages.join('; ') : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Retry-After header (seconds or HTTP date) in milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
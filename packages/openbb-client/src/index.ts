@@ -7,5 +7,6 @@
 export { OpenBBClient } from './client.js';
 export { OpenBBWebSocketClient } from './websocket.js';
 export { OpenBBError } from './errors.js';
+export type { OpenBBErrorKind } from './errors.js';
 export * from './types.js';
 export * from './schemas.js';
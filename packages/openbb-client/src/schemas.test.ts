@@ -7,6 +7,12 @@ import {
   OptionsChainSchema,
   EconomicDataSchema,
   NewsArticleSchema,
+  DividendDataSchema,
+  SplitDataSchema,
+  ScreenerResultSchema,
+  EtfHoldingSchema,
+  PairHistoricalPriceSchema,
+  YieldCurvePointSchema,
 } from './schemas';
 
 describe('Schemas', () => {
@@ -110,4 +116,55 @@ describe('Schemas', () => {
       expect(() => NewsArticleSchema.parse(data)).not.toThrow();
     });
   });
+
+  describe('DividendDataSchema', () => {
+    it('should validate dividends with null dates', () => {
+      const data = {
+        ex_dividend_date: '2024-02-09',
+        amount: 0.24,
+        record_date: '2024-02-12',
+        payment_date: null,
+      };
+      expect(() => DividendDataSchema.parse(data)).not.toThrow();
+    });
+  });
+
+  describe('SplitDataSchema', () => {
+    it('should validate splits', () => {
+      const data = { date: '2020-08-31', numerator: 4, denominator: 1, split_ratio: '4:1' };
+      expect(() => SplitDataSchema.parse(data)).not.toThrow();
+    });
+  });
+
+  describe('ScreenerResultSchema', () => {
+    it('should keep provider-specific fields', () => {
+      const data = { symbol: 'AAPL', name: 'Apple Inc.', market_cap: 2.9e12, is_etf: false };
+      expect(ScreenerResultSchema.parse(data)).toEqual(data);
+    });
+
+    it('should reject nested provider fields', () => {
+      expect(() => ScreenerResultSchema.parse({ symbol: 'AAPL', extra: { a: 1 } })).toThrow();
+    });
+  });
+
+  describe('EtfHoldingSchema', () => {
+    it('should validate holdings without a symbol', () => {
+      const data = { symbol: null, name: 'CASH', weight: 0.001 };
+      expect(() => EtfHoldingSchema.parse(data)).not.toThrow();
+    });
+  });
+
+  describe('PairHistoricalPriceSchema', () => {
+    it('should validate FX bars without volume', () => {
+      const data = { date: '2024-01-02', open: 1.1036, high: 1.1046, low: 1.0939, close: 1.0942 };
+      expect(() => PairHistoricalPriceSchema.parse(data)).not.toThrow();
+    });
+  });
+
+  describe('YieldCurvePointSchema', () => {
+    it('should validate yield curve points', () => {
+      const data = { date: '2024-01-02', maturity: 'year_10', rate: 0.0395 };
+      expect(() => YieldCurvePointSchema.parse(data)).not.toThrow();
+    });
+  });
 });
@@ -104,6 +104,98 @@ export const OptionsChainSchema = z.object({
 
 export const OptionsChainArraySchema = z.array(OptionsChainSchema);
 
+/**
+ * Dividend schema
+ */
+export const DividendDataSchema = z.object({
+  ex_dividend_date: z.string(),
+  amount: z.number(),
+  record_date: z.string().nullable().optional(),
+  payment_date: z.string().nullable().optional(),
+  declaration_date: z.string().nullable().optional(),
+});
+
+export const DividendDataArraySchema = z.array(DividendDataSchema);
+
+/**
+ * Stock split schema
+ */
+export const SplitDataSchema = z.object({
+  date: z.string(),
+  numerator: z.number(),
+  denominator: z.number(),
+  split_ratio: z.string().optional(),
+});
+
+export const SplitDataArraySchema = z.array(SplitDataSchema);
+
+/**
+ * Screener result schema (provider-specific fields pass through)
+ */
+export const ScreenerResultSchema = z.object({
+  symbol: z.string(),
+  name: z.string().nullable().optional(),
+}).catchall(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+export const ScreenerResultArraySchema = z.array(ScreenerResultSchema);
+
+/**
+ * Equity peers schema
+ */
+export const EquityPeersSchema = z.object({
+  peers_list: z.array(z.string()),
+});
+
+/**
+ * ETF holding schema
+ */
+export const EtfHoldingSchema = z.object({
+  symbol: z.string().nullable().optional(),
+  name: z.string().nullable().optional(),
+  weight: z.number().nullable().optional(),
+  shares: z.number().nullable().optional(),
+  value: z.number().nullable().optional(),
+});
+
+export const EtfHoldingArraySchema = z.array(EtfHoldingSchema);
+
+/**
+ * Index constituent schema
+ */
+export const IndexConstituentSchema = z.object({
+  symbol: z.string(),
+  name: z.string().nullable().optional(),
+  sector: z.string().nullable().optional(),
+  sub_sector: z.string().nullable().optional(),
+});
+
+export const IndexConstituentArraySchema = z.array(IndexConstituentSchema);
+
+/**
+ * FX and crypto price bar schema
+ */
+export const PairHistoricalPriceSchema = z.object({
+  date: z.string(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number().nullable().optional(),
+});
+
+export const PairHistoricalPriceArraySchema = z.array(PairHistoricalPriceSchema);
+
+/**
+ * Yield curve point schema
+ */
+export const YieldCurvePointSchema = z.object({
+  date: z.string().optional(),
+  maturity: z.string(),
+  rate: z.number(),
+});
+
+export const YieldCurvePointArraySchema = z.array(YieldCurvePointSchema);
+
 /**
  * Economic data schema
  */
@@ -22,6 +22,27 @@ export interface OpenBBClientConfig {
   cacheTtl?: number;
 }
 
+/**
+ * OpenBB WebSocket client configuration options
+ */
+export interface OpenBBWebSocketConfig {
+  /** WebSocket URL of the OpenBB Platform server */
+  baseUrl: string;
+  /** Interval between pings in milliseconds (default: 15000) */
+  heartbeatInterval?: number;
+  /** Reconnect if nothing is received for this long, in milliseconds (default: 45000) */
+  staleTimeout?: number;
+  /** Initial reconnect delay in milliseconds (default: 1000) */
+  reconnectDelay?: number;
+  /** Maximum reconnect delay in milliseconds (default: 30000) */
+  maxReconnectDelay?: number;
+}
+
+/**
+ * WebSocket connection state
+ */
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
 /**
  * Standard OpenBB API response wrapper
  */
@@ -132,6 +153,91 @@ export interface OptionsChain {
   rho?: number;
 }
 
+/**
+ * Historical cash dividend
+ */
+export interface DividendData {
+  ex_dividend_date: string;
+  amount: number;
+  record_date?: string | null;
+  payment_date?: string | null;
+  declaration_date?: string | null;
+}
+
+/**
+ * Historical stock split
+ */
+export interface SplitData {
+  date: string;
+  /** New shares */
+  numerator: number;
+  /** Old shares */
+  denominator: number;
+  /** e.g. "4:1" */
+  split_ratio?: string;
+}
+
+/**
+ * Equity screener result; remaining fields depend on the provider
+ */
+export interface ScreenerResult {
+  symbol: string;
+  name?: string | null;
+  [key: string]: string | number | boolean | null | undefined;
+}
+
+/**
+ * Peer companies of a symbol
+ */
+export interface EquityPeers {
+  peers_list: string[];
+}
+
+/**
+ * ETF holding
+ */
+export interface EtfHolding {
+  symbol?: string | null;
+  name?: string | null;
+  /** Portfolio weight as a decimal (0.07 = 7%) */
+  weight?: number | null;
+  shares?: number | null;
+  value?: number | null;
+}
+
+/**
+ * Index constituent
+ */
+export interface IndexConstituent {
+  symbol: string;
+  name?: string | null;
+  sector?: string | null;
+  sub_sector?: string | null;
+}
+
+/**
+ * FX or crypto price bar (volume is absent for most FX providers)
+ */
+export interface PairHistoricalPrice {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number | null;
+}
+
+/**
+ * Point on a government yield curve
+ */
+export interface YieldCurvePoint {
+  date?: string;
+  /** Maturity label, e.g. "month_3", "year_10" */
+  maturity: string;
+  /** Yield as a decimal (0.045 = 4.5%) */
+  rate: number;
+}
+
 /**
  * Economic indicator data
  */
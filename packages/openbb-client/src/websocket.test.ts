@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OpenBBWebSocketClient } from './websocket';
+import type { ConnectionState } from './types';
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('OpenBBWebSocketClient', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should route data by endpoint and params to every callback', async () => {
+    const ws = new OpenBBWebSocketClient({ baseUrl: 'ws://localhost' });
+    const first = vi.fn();
+    const second = vi.fn();
+    const other = vi.fn();
+
+    await ws.subscribe('equity.price.quote', { symbol: 'AAPL' }, first);
+    await ws.subscribe('equity.price.quote', { symbol: 'AAPL' }, second);
+    await ws.subscribe('equity.price.quote', { symbol: 'MSFT' }, other);
+    latest().open();
+
+    latest().receive({
+      type: 'data',
+      endpoint: 'equity.price.quote',
+      params: { symbol: 'AAPL' },
+      data: { last_price: 185 },
+    });
+
+    expect(first).toHaveBeenCalledWith({ last_price: 185 });
+    expect(second).toHaveBeenCalledWith({ last_price: 185 });
+    expect(other).not.toHaveBeenCalled();
+    expect(latest().sent.filter((m) => m.type === 'subscribe')).toHaveLength(2);
+  });
+
+  it('should route data by server subscription id', async () => {
+    const ws = new OpenBBWebSocketClient({ baseUrl: 'ws://localhost' });
+    const callback = vi.fn();
+
+    await ws.subscribe('equity.price.quote', { symbol: 'AAPL', provider: 'fmp' }, callback);
+    latest().open();
+    latest().receive({
+      type: 'subscribed',
+      subscription_id: 'sub-1',
+      endpoint: 'equity.price.quote',
+      params: { provider: 'fmp', symbol: 'AAPL' },
+    });
+    latest().receive({ type: 'data', subscription_id: 'sub-1', data: 1 });
+
+    expect(callback).toHaveBeenCalledWith(1);
+  });
+
+  it('should unsubscribe from the server only when the last callback is removed', async () => {
+    const ws = new OpenBBWebSocketClient({ baseUrl: 'ws://localhost' });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribeFirst = await ws.subscribe('equity.price.quote', { symbol: 'AAPL' }, first);
+    const unsubscribeSecond = await ws.subscribe('equity.price.quote', { symbol: 'AAPL' }, second);
+    latest().open();
+
+    unsubscribeFirst();
+    expect(latest().sent.some((m) => m.type === 'unsubscribe')).toBe(false);
+
+    latest().receive({ type: 'data', endpoint: 'equity.price.quote', params: { symbol: 'AAPL' }, data: 1 });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(1);
+
+    unsubscribeSecond();
+    expect(latest().sent.filter((m) => m.type === 'unsubscribe')).toHaveLength(1);
+  });
+
+  it('should keep reconnecting with backoff and resubscribe', async () => {
+    const ws = new OpenBBWebSocketClient({
+      baseUrl: 'ws://localhost',
+      reconnectDelay: 1000,
+      maxReconnectDelay: 4000,
+    });
+    const states: ConnectionState[] = [];
+    ws.onStateChange((state) => states.push(state));
+
+    await ws.subscribe('equity.price.quote', { symbol: 'AAPL' }, vi.fn());
+    latest().open();
+
+    // Ten failed attempts; delays (random = 0) are half the capped backoff
+    for (let attempt = 0; attempt < 10; attempt++) {
+      latest().drop();
+      const before = FakeWebSocket.instances.length;
+      const delay = Math.min(4000, 1000 * 2 ** attempt) / 2;
+      vi.advanceTimersByTime(delay - 1);
+      expect(FakeWebSocket.instances).toHaveLength(before);
+      vi.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(before + 1);
+    }
+
+    latest().open();
+
+    expect(latest().sent).toEqual([
+      { type: 'subscribe', endpoint: 'equity.price.quote', params: { symbol: 'AAPL' } },
+    ]);
+    expect(states).toEqual(['idle', 'connecting', 'open', 'reconnecting', 'open']);
+    expect(ws.getState()).toBe('open');
+  });
+
+  it('should ping and reconnect when the connection goes stale', async () => {
+    const ws = new OpenBBWebSocketClient({
+      baseUrl: 'ws://localhost',
+      heartbeatInterval: 1000,
+      staleTimeout: 2500,
+    });
+    const connected = ws.connect();
+    latest().open();
+    await connected;
+
+    vi.advanceTimersByTime(1000);
+    expect(latest().sent).toEqual([{ type: 'ping' }]);
+
+    vi.advanceTimersByTime(2000);
+    expect(ws.getState()).toBe('reconnecting');
+  });
+
+  it('should stop reconnecting once closed', async () => {
+    const ws = new OpenBBWebSocketClient({ baseUrl: 'ws://localhost' });
+    const connected = ws.connect();
+    latest().open();
+    await connected;
+
+    latest().drop();
+    ws.close();
+    vi.advanceTimersByTime(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(ws.getState()).toBe('closed');
+  });
+
+  it('should reject connect when the connection fails', async () => {
+    const ws = new OpenBBWebSocketClient({ baseUrl: 'ws://localhost' });
+    const connected = ws.connect();
+    latest().onerror?.();
+    latest().drop();
+
+    await expect(connected).rejects.toThrow('WebSocket connection error');
+    expect(ws.getState()).toBe('reconnecting');
+  });
+});
@@ -3,109 +3,338 @@
  */
 
 import { OpenBBError } from './errors';
+import type { ConnectionState, OpenBBWebSocketConfig } from './types';
 
 type SubscriptionCallback = (data: unknown) => void;
 
+type StateListener = (state: ConnectionState) => void;
+
 interface Subscription {
   endpoint: string;
   params: Record<string, unknown>;
-  callback: SubscriptionCallback;
+  callbacks: Set<SubscriptionCallback>;
+}
+
+/**
+ * Message from the server. Data messages carry the subscription id the
+ * server assigned, or the endpoint and params they were subscribed with.
+ */
+interface ServerMessage {
+  type: string;
+  endpoint?: string;
+  params?: Record<string, unknown>;
+  subscription_id?: string;
+  data?: unknown;
 }
 
+/**
+ * Default configuration
+ */
+const DEFAULT_CONFIG: Required<Omit<OpenBBWebSocketConfig, 'baseUrl'>> = {
+  heartbeatInterval: 15000,
+  staleTimeout: 45000,
+  reconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+};
+
 /**
  * WebSocket client for OpenBB Platform streaming data
+ *
+ * Reconnects for as long as the client is open, with jittered exponential
+ * backoff, and resubscribes everything on each reconnect.
  */
 export class OpenBBWebSocketClient {
   private ws: WebSocket | null = null;
+  private config: Required<OpenBBWebSocketConfig>;
   private subscriptions = new Map<string, Subscription>();
+  /** Server subscription id -> subscription key */
+  private subscriptionIds = new Map<string, string>();
+  private stateListeners = new Set<StateListener>();
+  private state: ConnectionState = 'idle';
+  private connecting: Promise<void> | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private baseUrl: string;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+
+  constructor(config: OpenBBWebSocketConfig) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Listen to connection state changes.
+   *
+   * The listener is called immediately with the current state.
+   *
+   * @returns Function that removes the listener
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect to the WebSocket server.
+   *
+   * Resolves once the connection is open. If this attempt fails the
+   * promise rejects, and reconnects continue in the background.
+   */
+  connect(): Promise<void> {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      return Promise.resolve();
+    }
+    if (!this.connecting) {
+      this.connecting = this.openSocket();
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Subscribe to real-time data.
+   *
+   * Several callbacks may share a subscription; the server is only sent
+   * one subscribe per endpoint and params. The subscription is sent as
+   * soon as the connection is open and again after every reconnect.
+   *
+   * @returns Function that removes this callback
+   */
+  async subscribe(
+    endpoint: string,
+    params: Record<string, unknown>,
+    callback: SubscriptionCallback
+  ): Promise<() => void> {
+    const key = this.getSubscriptionKey(endpoint, params);
+    const existing = this.subscriptions.get(key);
+
+    if (existing) {
+      existing.callbacks.add(callback);
+    } else {
+      this.subscriptions.set(key, { endpoint, params, callbacks: new Set([callback]) });
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.sendSubscribe(endpoint, params);
+      } else {
+        // Sent on open; connection failures surface through the state stream
+        this.connect().catch(() => undefined);
+      }
+    }
 
-  constructor(config: { baseUrl: string }) {
-    this.baseUrl = config.baseUrl;
+    return () => this.unsubscribe(endpoint, params, callback);
+  }
+
+  /**
+   * Unsubscribe from real-time data.
+   *
+   * @param callback - Callback to remove (default: every callback)
+   */
+  unsubscribe(
+    endpoint: string,
+    params: Record<string, unknown>,
+    callback?: SubscriptionCallback
+  ): void {
+    const key = this.getSubscriptionKey(endpoint, params);
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return;
+    }
+
+    if (callback) {
+      subscription.callbacks.delete(callback);
+    } else {
+      subscription.callbacks.clear();
+    }
+
+    if (subscription.callbacks.size === 0) {
+      this.subscriptions.delete(key);
+      for (const [id, idKey] of this.subscriptionIds) {
+        if (idKey === key) this.subscriptionIds.delete(id);
+      }
+      this.sendUnsubscribe(endpoint, params);
+    }
+  }
+
+  /**
+   * Close WebSocket connection and stop reconnecting
+   */
+  close(): void {
+    this.setState('closed');
+    this.stopTimers();
+    this.connecting = null;
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+    this.subscriptions.clear();
+    this.subscriptionIds.clear();
   }
 
   /**
-   * Connect to WebSocket server
+   * Open a socket and wire its handlers
    */
-  private async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
+  private openSocket(): Promise<void> {
+    return new Promise<void>((resolvePromise, rejectPromise) => {
+      // Settle synchronously so a reconnect right after can start a new attempt
+      const resolve = () => {
+        this.connecting = null;
+        resolvePromise();
+      };
+      const reject = (error: unknown) => {
+        this.connecting = null;
+        rejectPromise(error);
+      };
+
+      this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+      let ws: WebSocket;
       try {
-        this.ws = new WebSocket(this.baseUrl);
-
-        this.ws.onopen = () => {
-          console.log('OpenBB WebSocket connected');
-          this.reconnectAttempts = 0;
-
-          // Resubscribe to existing subscriptions
-          this.subscriptions.forEach((sub) => {
-            this.sendSubscribe(sub.endpoint, sub.params);
-          });
-
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const message = JSON.parse(event.data);
-            this.handleMessage(message);
-          } catch (error) {
-            console.error('Failed to parse WebSocket message:', error);
-          }
-        };
-
-        this.ws.onerror = (error) => {
-          console.error('OpenBB WebSocket error:', error);
-          reject(new OpenBBError('WebSocket connection error'));
-        };
-
-        this.ws.onclose = () => {
-          console.log('OpenBB WebSocket closed');
-          this.handleDisconnect();
-        };
+        ws = new WebSocket(this.config.baseUrl);
       } catch (error) {
+        this.scheduleReconnect();
         reject(error);
+        return;
       }
+      this.ws = ws;
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        this.reconnectAttempts = 0;
+        this.lastMessageAt = Date.now();
+        this.setState('open');
+        this.startHeartbeat();
+
+        // Resubscribe to existing subscriptions; the server assigns new ids
+        this.subscriptionIds.clear();
+        this.subscriptions.forEach((sub) => {
+          this.sendSubscribe(sub.endpoint, sub.params);
+        });
+
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        this.lastMessageAt = Date.now();
+        try {
+          const message = JSON.parse(event.data);
+          this.handleMessage(message);
+        } catch (error) {
+          console.error('Failed to parse WebSocket message:', error);
+        }
+      };
+
+      ws.onerror = () => {
+        if (!opened) {
+          reject(new OpenBBError('WebSocket connection error', { kind: 'network' }));
+        }
+      };
+
+      ws.onclose = () => {
+        if (this.ws !== ws) {
+          // Closed by us; a newer attempt may already be pending
+          if (!opened) rejectPromise(new OpenBBError('WebSocket closed', { kind: 'network' }));
+          return;
+        }
+        this.ws = null;
+        this.stopTimers();
+        if (!opened) {
+          reject(new OpenBBError('WebSocket connection closed before opening', { kind: 'network' }));
+        }
+        this.scheduleReconnect();
+      };
     });
   }
 
   /**
-   * Handle WebSocket disconnect with reconnection logic
+   * Reconnect after a jittered exponential delay, unless closed
    */
-  private async handleDisconnect(): Promise<void> {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts);
-      console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})...`);
+  private scheduleReconnect(): void {
+    if (this.state === 'closed' || this.reconnectTimer) {
+      return;
+    }
+    this.setState('reconnecting');
 
-      await new Promise((resolve) => setTimeout(resolve, delay));
+    const backoff = Math.min(
+      this.config.maxReconnectDelay,
+      this.config.reconnectDelay * Math.pow(2, this.reconnectAttempts)
+    );
+    // Equal jitter: half fixed, half random, so clients don't reconnect in lockstep
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.reconnectAttempts++;
 
-      try {
-        await this.connect();
-      } catch (error) {
-        console.error('Reconnection failed:', error);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => undefined);
+    }, delay);
+  }
+
+  /**
+   * Ping the server and drop the connection if it has gone quiet
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        return;
       }
-    } else {
-      console.error('Max reconnection attempts reached');
+      if (Date.now() - this.lastMessageAt > this.config.staleTimeout) {
+        // Stale: close and let onclose reconnect
+        this.ws.close();
+        return;
+      }
+      this.ws.send(JSON.stringify({ type: 'ping' }));
+    }, this.config.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
   }
 
+  private stopTimers(): void {
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
   /**
    * Handle incoming WebSocket message
    */
-  private handleMessage(message: {
-    type: string;
-    endpoint: string;
-    data: unknown;
-  }): void {
+  private handleMessage(message: ServerMessage): void {
+    if (message.type === 'subscribed' && message.subscription_id && message.endpoint) {
+      this.subscriptionIds.set(
+        message.subscription_id,
+        this.getSubscriptionKey(message.endpoint, message.params ?? {})
+      );
+      return;
+    }
+
     if (message.type === 'data') {
-      const key = this.getSubscriptionKey(message.endpoint, {});
-      const subscription = this.subscriptions.get(key);
-      if (subscription) {
-        subscription.callback(message.data);
-      }
+      const key =
+        (message.subscription_id && this.subscriptionIds.get(message.subscription_id)) ||
+        (message.endpoint && this.getSubscriptionKey(message.endpoint, message.params ?? {}));
+      const subscription = key ? this.subscriptions.get(key) : undefined;
+      subscription?.callbacks.forEach((callback) => callback(message.data));
     }
   }
 
@@ -114,7 +343,7 @@ export class OpenBBWebSocketClient {
    */
   private sendSubscribe(endpoint: string, params: Record<string, unknown>): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new OpenBBError('WebSocket not connected');
+      throw new OpenBBError('WebSocket not connected', { kind: 'network' });
     }
 
     this.ws.send(
@@ -144,47 +373,12 @@ export class OpenBBWebSocketClient {
   }
 
   /**
-   * Generate subscription key
+   * Generate subscription key (independent of param order)
    */
   private getSubscriptionKey(endpoint: string, params: Record<string, unknown>): string {
-    return `${endpoint}:${JSON.stringify(params)}`;
-  }
-
-  /**
-   * Subscribe to real-time data
-   */
-  async subscribe(
-    endpoint: string,
-    params: Record<string, unknown>,
-    callback: SubscriptionCallback
-  ): Promise<void> {
-    // Connect if not already connected
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      await this.connect();
-    }
-
-    const key = this.getSubscriptionKey(endpoint, params);
-    this.subscriptions.set(key, { endpoint, params, callback });
-    this.sendSubscribe(endpoint, params);
-  }
-
-  /**
-   * Unsubscribe from real-time data
-   */
-  unsubscribe(endpoint: string, params: Record<string, unknown>): void {
-    const key = this.getSubscriptionKey(endpoint, params);
-    this.subscriptions.delete(key);
-    this.sendUnsubscribe(endpoint, params);
-  }
-
-  /**
-   * Close WebSocket connection
-   */
-  close(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.subscriptions.clear();
+    const sorted = Object.keys(params)
+      .sort()
+      .map((name) => [name, params[name]]);
+    return `${endpoint}:${JSON.stringify(sorted)}`;
   }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { adjustPrices } from './adjustments'
+import type { HistoricalPrice } from './types'
+
+const bar = (date: string, close: number, volume = 1000): HistoricalPrice => ({
+  date: new Date(date),
+  ohlcv: { open: close, high: close, low: close, close, volume },
+})
+
+// Raw closes around a 4-for-1 split on 2020-08-31 and a $0.82 dividend on 2020-08-07
+const raw = [
+  bar('2020-08-06', 455, 1000),
+  bar('2020-08-07', 444, 1000),
+  bar('2020-08-28', 500, 1000),
+  bar('2020-08-31', 130, 4000),
+]
+const split = { symbol: 'AAPL', date: new Date('2020-08-31'), numerator: 4, denominator: 1 }
+const dividend = { symbol: 'AAPL', exDate: new Date('2020-08-07'), amount: 0.82 }
+
+describe('adjustPrices', () => {
+  it('should scale prices and volumes before a split', () => {
+    const { prices, factors } = adjustPrices(raw, { splits: [split] })
+
+    expect(prices.map((p) => p.ohlcv.close)).toEqual([113.75, 111, 125, 130])
+    expect(prices.map((p) => p.ohlcv.volume)).toEqual([4000, 4000, 4000, 4000])
+    expect(prices.map((p) => p.adjustedClose)).toEqual([113.75, 111, 125, 130])
+    expect(factors).toEqual([
+      { date: split.date, kind: 'split', factor: 0.25, cumulativeFactor: 0.25 },
+    ])
+  })
+
+  it('should ignore dividends for split adjustment', () => {
+    const { prices, factors } = adjustPrices(raw, { splits: [split], dividends: [dividend] })
+
+    expect(prices[0]!.ohlcv.close).toBe(113.75)
+    expect(factors).toHaveLength(1)
+  })
+
+  it('should apply dividend factors for total return', () => {
+    const { prices, factors } = adjustPrices(raw, {
+      splits: [split],
+      dividends: [dividend],
+      method: 'totalReturn',
+    })
+
+    const dividendFactor = 1 - 0.82 / 455
+    expect(factors).toEqual([
+      { date: dividend.exDate, kind: 'dividend', factor: dividendFactor, cumulativeFactor: dividendFactor * 0.25 },
+      { date: split.date, kind: 'split', factor: 0.25, cumulativeFactor: 0.25 },
+    ])
+    expect(prices[0]!.ohlcv.close).toBeCloseTo(455 * dividendFactor * 0.25, 10)
+    expect(prices[1]!.ohlcv.close).toBe(111)
+    // Dividends leave volume alone
+    expect(prices[0]!.ohlcv.volume).toBe(4000)
+  })
+
+  it('should measure dividends in the share basis of their ex-date', () => {
+    const dividendAfterSplit = { symbol: 'AAPL', exDate: new Date('2020-08-31'), amount: 0.205 }
+
+    const { factors } = adjustPrices(raw.slice(0, 3), {
+      splits: [split],
+      dividends: [dividendAfterSplit],
+      method: 'totalReturn',
+    })
+
+    // Last close before the ex-date is 500 pre-split, i.e. 125 post-split
+    expect(factors.find((f) => f.kind === 'dividend')?.factor).toBeCloseTo(1 - 0.205 / 125, 12)
+  })
+
+  it('should sort bars and skip dividends without a prior close', () => {
+    const { prices, factors } = adjustPrices([raw[2]!, raw[0]!], {
+      dividends: [{ symbol: 'AAPL', exDate: new Date('2020-01-01'), amount: 1 }],
+      method: 'totalReturn',
+    })
+
+    expect(prices.map((p) => p.date)).toEqual([raw[0]!.date, raw[2]!.date])
+    expect(factors).toEqual([])
+  })
+
+  it('should compare actions to bars by calendar day', () => {
+    // Intraday bar on the split day itself is already in the new basis
+    const { prices } = adjustPrices([bar('2020-08-31T18:00:00Z', 130)], {
+      splits: [{ ...split, date: new Date('2020-08-31T13:30:00Z') }],
+    })
+
+    expect(prices[0]!.ohlcv.close).toBe(130)
+  })
+})
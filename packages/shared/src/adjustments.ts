@@ -0,0 +1,147 @@
+/**
+ * Corporate-action adjustment of historical price series.
+ *
+ * Turns raw (as-traded) bars from any source into split-adjusted or
+ * total-return-adjusted series, so charts and backtests agree whichever
+ * adapter served the data.
+ */
+
+import type { Dividend, HistoricalPrice, StockSplit } from './types'
+
+/**
+ * Adjustment method:
+ * - `split`: prices before each split are scaled to today's share basis
+ * - `totalReturn`: additionally, prices before each ex-dividend date are
+ *   scaled down as if the dividend had been reinvested
+ */
+export type AdjustmentMethod = 'split' | 'totalReturn'
+
+/**
+ * Price factor of one corporate action, applied to every bar before its
+ * ex-date.
+ */
+export interface AdjustmentFactor {
+  /** Split or ex-dividend date */
+  date: Date
+  kind: 'split' | 'dividend'
+  /** Multiplier for prices before `date` due to this action alone */
+  factor: number
+  /** Product of this and every later action's factor */
+  cumulativeFactor: number
+}
+
+/**
+ * Options for {@link adjustPrices}.
+ */
+export interface AdjustmentOptions {
+  /** Splits of the security */
+  splits?: StockSplit[]
+  /** Cash dividends, per share as paid (not split-adjusted) */
+  dividends?: Dividend[]
+  /** Adjustment method (default: 'split') */
+  method?: AdjustmentMethod
+}
+
+/**
+ * Adjusted series with the factors that produced it.
+ */
+export interface AdjustedSeries {
+  /** Bars oldest first; `adjustedClose` holds the adjusted close */
+  prices: HistoricalPrice[]
+  /** Factors applied, oldest first */
+  factors: AdjustmentFactor[]
+}
+
+/**
+ * Adjust a raw price series for splits and, for total return, dividends.
+ *
+ * Actions are compared to bars by calendar day (UTC): a bar is adjusted
+ * for every action dated after its day. Prices are multiplied by the
+ * cumulative price factor and volumes divided by the split factor, so
+ * traded value is unchanged. Dividend factors are `1 - amount / close`,
+ * using the last close before the ex-date.
+ *
+ * @param prices - Raw bars (any order)
+ * @param options - Corporate actions and method
+ */
+export function adjustPrices(prices: HistoricalPrice[], options: AdjustmentOptions = {}): AdjustedSeries {
+  const { dividends = [], method = 'split' } = options
+  const splits = (options.splits ?? []).filter((split) => split.numerator > 0 && split.denominator > 0)
+  const bars = [...prices].sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  const events: Array<Omit<AdjustmentFactor, 'cumulativeFactor'>> = splits.map((split) => ({
+    date: split.date,
+    kind: 'split',
+    factor: split.denominator / split.numerator,
+  }))
+
+  if (method === 'totalReturn') {
+    for (const dividend of dividends) {
+      const exDay = dayKey(dividend.exDate)
+      const previous = lastBarBefore(bars, exDay)
+      if (!previous) {
+        continue // No close before the ex-date to measure the dividend against
+      }
+      // Express the close in the share basis of the ex-date
+      const close = previous.ohlcv.close * splitFactorBetween(splits, dayKey(previous.date), exDay)
+      if (close > dividend.amount) {
+        events.push({ date: dividend.exDate, kind: 'dividend', factor: 1 - dividend.amount / close })
+      }
+    }
+  }
+
+  events.sort((a, b) => a.date.getTime() - b.date.getTime())
+  const factors: AdjustmentFactor[] = []
+  let cumulativeFactor = 1
+  for (let i = events.length - 1; i >= 0; i--) {
+    cumulativeFactor *= events[i]!.factor
+    factors.unshift({ ...events[i]!, cumulativeFactor })
+  }
+
+  const adjusted = bars.map((bar) => {
+    const day = dayKey(bar.date)
+    const priceFactor = factors
+      .filter((event) => dayKey(event.date) > day)
+      .reduce((product, event) => product * event.factor, 1)
+    const volumeFactor = factors
+      .filter((event) => event.kind === 'split' && dayKey(event.date) > day)
+      .reduce((product, event) => product * event.factor, 1)
+
+    const close = bar.ohlcv.close * priceFactor
+    return {
+      ...bar,
+      ohlcv: {
+        open: bar.ohlcv.open * priceFactor,
+        high: bar.ohlcv.high * priceFactor,
+        low: bar.ohlcv.low * priceFactor,
+        close,
+        volume: Math.round(bar.ohlcv.volume / volumeFactor),
+      },
+      adjustedClose: close,
+    }
+  })
+
+  return { prices: adjusted, factors }
+}
+
+/**
+ * Product of split factors for splits after `fromDay` up to and including `toDay`.
+ */
+function splitFactorBetween(splits: StockSplit[], fromDay: string, toDay: string): number {
+  return splits
+    .filter((split) => dayKey(split.date) > fromDay && dayKey(split.date) <= toDay)
+    .reduce((product, split) => product * (split.denominator / split.numerator), 1)
+}
+
+function lastBarBefore(bars: HistoricalPrice[], day: string): HistoricalPrice | undefined {
+  let previous: HistoricalPrice | undefined
+  for (const bar of bars) {
+    if (dayKey(bar.date) >= day) break
+    previous = bar
+  }
+  return previous
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
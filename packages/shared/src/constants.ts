@@ -12,6 +12,7 @@ export const APP_DESCRIPTION = 'Open-source Bloomberg Terminal alternative'
 export const ASSET_TYPES = [
   'equity',
   'etf',
+  'index',
   'option',
   'bond',
   'fx',
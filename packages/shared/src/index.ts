@@ -5,3 +5,5 @@
 
 export * from './types'
 export * from './constants'
+export * from './symbology'
+export * from './adjustments'
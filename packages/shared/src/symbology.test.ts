@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatSymbol,
+  fromProviderSymbol,
+  parseSymbol,
+  toProviderSymbol,
+  usListingSuffixes,
+} from './symbology'
+import type { SymbologyRules } from './symbology'
+
+const yahooLike: SymbologyRules = {
+  case: 'upper',
+  shareClassSeparator: '-',
+  listingSuffixes: { ...usListingSuffixes(''), XLON: '.L', XTSE: '.TO' },
+  defaultSuffix: '',
+  index: '^{ticker}',
+  indexAliases: { SPX: 'GSPC' },
+  fx: '{base}{quote}=X',
+  crypto: '{base}-{quote}',
+  future: '{ticker}=F',
+}
+
+const stooqLike: SymbologyRules = {
+  case: 'lower',
+  shareClassSeparator: '-',
+  listingSuffixes: { ...usListingSuffixes('.us'), XLON: '.uk' },
+  defaultSuffix: '.us',
+  index: '^{ticker}',
+  fx: '{base}{quote}',
+  future: '{ticker}.f',
+  bond: '{tenor}{country}y.b',
+}
+
+describe('parseSymbol', () => {
+  it('should parse equities with share classes and listings', () => {
+    expect(parseSymbol('aapl')).toEqual({ ticker: 'AAPL', assetType: 'equity' })
+    expect(parseSymbol('BRK-B')).toEqual({ ticker: 'BRK.B', assetType: 'equity' })
+    expect(parseSymbol('brk/b')).toEqual({ ticker: 'BRK.B', assetType: 'equity' })
+    expect(parseSymbol('XLON:VOD')).toEqual({ ticker: 'VOD', mic: 'XLON', assetType: 'equity' })
+  })
+
+  it('should read native exchange suffixes as listings', () => {
+    expect(parseSymbol('VOD.L')).toEqual({ ticker: 'VOD', mic: 'XLON', assetType: 'equity' })
+    expect(parseSymbol('7203.T')).toEqual({ ticker: '7203', mic: 'XTKS', assetType: 'equity' })
+    expect(parseSymbol('SHOP.TO')).toEqual({ ticker: 'SHOP', mic: 'XTSE', assetType: 'equity' })
+    expect(parseSymbol('vod.uk')).toEqual({ ticker: 'VOD', mic: 'XLON', assetType: 'equity' })
+    expect(parseSymbol('shop-to.us')).toEqual({ ticker: 'SHOP-TO', assetType: 'equity' })
+    expect(parseSymbol('brk-b.us')).toEqual({ ticker: 'BRK.B', assetType: 'equity' })
+    expect(parseSymbol({ ticker: 'VOD.L', name: 'Vodafone', assetType: 'equity' })).toEqual({
+      ticker: 'VOD',
+      mic: 'XLON',
+      assetType: 'equity',
+    })
+  })
+
+  it('should parse indices and pairs', () => {
+    expect(parseSymbol('^spx')).toEqual({ ticker: 'SPX', assetType: 'index' })
+    expect(parseSymbol('eur/usd')).toEqual({ ticker: 'EUR/USD', assetType: 'fx' })
+    expect(parseSymbol('BTC/USDT')).toEqual({ ticker: 'BTC/USDT', assetType: 'crypto' })
+  })
+
+  it('should parse futures and bond yields', () => {
+    expect(parseSymbol('/cl')).toEqual({ ticker: 'CL', assetType: 'future' })
+    expect(parseSymbol('us10y')).toEqual({ ticker: 'US10Y', assetType: 'bond' })
+  })
+
+  it('should parse Symbol objects, mapping exchange names to MICs', () => {
+    expect(
+      parseSymbol({ ticker: 'BRK-B', name: 'Berkshire Hathaway', exchange: 'NYSE', assetType: 'equity' })
+    ).toEqual({ ticker: 'BRK.B', mic: 'XNYS', assetType: 'equity' })
+    expect(parseSymbol({ ticker: 'EURUSD', name: 'Euro / US Dollar', assetType: 'fx' })).toEqual({
+      ticker: 'EUR/USD',
+      assetType: 'fx',
+    })
+  })
+})
+
+describe('formatSymbol', () => {
+  it('should round-trip canonical strings', () => {
+    for (const symbol of ['AAPL', 'BRK.B', 'XLON:VOD', '^SPX', 'EUR/USD', 'BTC/USD', '/CL', 'US10Y']) {
+      expect(formatSymbol(parseSymbol(symbol))).toBe(symbol)
+    }
+  })
+
+  it('should omit US MICs', () => {
+    expect(formatSymbol({ ticker: 'AAPL', mic: 'XNAS', assetType: 'equity' })).toBe('AAPL')
+  })
+})
+
+describe('toProviderSymbol', () => {
+  it.each([
+    ['AAPL', 'AAPL', 'aapl.us'],
+    ['BRK.B', 'BRK-B', 'brk-b.us'],
+    ['XLON:VOD', 'VOD.L', 'vod.uk'],
+    ['^SPX', '^GSPC', '^spx'],
+    ['EUR/USD', 'EURUSD=X', 'eurusd'],
+    ['/CL', 'CL=F', 'cl.f'],
+  ])('should translate %s', (symbol, yahoo, stooq) => {
+    expect(toProviderSymbol(symbol, yahooLike)).toBe(yahoo)
+    expect(toProviderSymbol(symbol, stooqLike)).toBe(stooq)
+  })
+
+  it.each([
+    ['VOD.L', 'VOD.L', 'vod.uk'],
+    ['7203.T', null, null],
+    ['SHOP.TO', 'SHOP.TO', null],
+    ['shop-to.us', 'SHOP-TO', 'shop-to.us'],
+  ])('should translate suffixed symbol %s', (symbol, yahoo, stooq) => {
+    expect(toProviderSymbol(symbol, yahooLike)).toBe(yahoo)
+    expect(toProviderSymbol(symbol, stooqLike)).toBe(stooq)
+  })
+
+  it('should translate only a trailing share-class dot', () => {
+    expect(toProviderSymbol({ ticker: 'SHOP.TO', assetType: 'equity' }, yahooLike)).toBe('SHOP.TO')
+    expect(toProviderSymbol({ ticker: 'BRK.B', mic: 'XLON', assetType: 'equity' }, yahooLike)).toBe('BRK-B.L')
+  })
+
+  it('should translate bond yields', () => {
+    expect(toProviderSymbol('DE10Y', stooqLike)).toBe('10dey.b')
+  })
+
+  it('should translate US listings with a MIC like unqualified ones', () => {
+    expect(toProviderSymbol({ ticker: 'AAPL', mic: 'XNAS', assetType: 'equity' }, stooqLike)).toBe('aapl.us')
+  })
+
+  it('should return null when the provider cannot represent the symbol', () => {
+    expect(toProviderSymbol('BTC/USD', stooqLike)).toBeNull()
+    expect(toProviderSymbol('XTSE:RY', stooqLike)).toBeNull()
+    expect(toProviderSymbol('US10Y', yahooLike)).toBeNull()
+  })
+})
+
+describe('fromProviderSymbol', () => {
+  it.each([
+    ['BRK-B', { ticker: 'BRK.B', assetType: 'equity' }],
+    ['VOD.L', { ticker: 'VOD', mic: 'XLON', assetType: 'equity' }],
+    ['^GSPC', { ticker: 'SPX', assetType: 'index' }],
+    ['EURUSD=X', { ticker: 'EUR/USD', assetType: 'fx' }],
+    ['BTC-USD', { ticker: 'BTC/USD', assetType: 'crypto' }],
+    ['CL=F', { ticker: 'CL', assetType: 'future' }],
+  ])('should read Yahoo symbol %s', (providerSymbol, expected) => {
+    expect(fromProviderSymbol(providerSymbol, yahooLike)).toEqual(expected)
+  })
+
+  it.each([
+    ['brk-b.us', { ticker: 'BRK.B', assetType: 'equity' }],
+    ['vod.uk', { ticker: 'VOD', mic: 'XLON', assetType: 'equity' }],
+    ['eurusd', { ticker: 'EUR/USD', assetType: 'fx' }],
+    ['cl.f', { ticker: 'CL', assetType: 'future' }],
+    ['10usy.b', { ticker: 'US10Y', assetType: 'bond' }],
+  ])('should read Stooq symbol %s', (providerSymbol, expected) => {
+    expect(fromProviderSymbol(providerSymbol, stooqLike)).toEqual(expected)
+  })
+})
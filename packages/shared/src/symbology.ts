@@ -0,0 +1,452 @@
+/**
+ * Symbology: canonical instrument identifiers and provider translation.
+ *
+ * A canonical identifier is a ticker, the ISO 10383 market identifier code
+ * (MIC) of the listing and an asset type. Its string form is:
+ *
+ * - Equities and ETFs: `AAPL`, `BRK.B` (share class after a dot), or
+ *   `XLON:VOD` for listings outside the US. Native exchange suffixes
+ *   (`VOD.L`, `7203.T`, `SHOP.TO`, `vod.uk`) are read as listings.
+ * - Indices: `^SPX`
+ * - FX and crypto pairs: `EUR/USD`, `BTC/USD`
+ * - Futures (continuous contracts): `/CL`
+ * - Government bond yields: `US10Y` (country code and tenor in years)
+ *
+ * Providers spell the same instruments differently (`BRK-B`, `brk-b.us`,
+ * `VOD.L`, `EURUSD=X`); adapters declare {@link SymbologyRules} and use
+ * {@link toProviderSymbol} and {@link fromProviderSymbol} to translate.
+ */
+
+import type { Symbol } from './types'
+
+/**
+ * Asset type of a canonical identifier
+ */
+export type AssetType = Symbol['assetType']
+
+/**
+ * Canonical instrument identifier
+ */
+export interface CanonicalSymbol {
+  /** Ticker: share classes as "BRK.B", pairs as "EUR/USD", indices without "^" */
+  ticker: string
+  /** ISO 10383 MIC of the listing (absent: US listing, or not exchange-listed) */
+  mic?: string
+  assetType: AssetType
+}
+
+/**
+ * Provider symbol translation rules, declared by each adapter.
+ *
+ * Templates use `{ticker}`, `{base}`, `{quote}`, `{country}` and `{tenor}`
+ * placeholders. Asset
+ * types without a template (and listings without a suffix) cannot be
+ * represented by the provider.
+ */
+export interface SymbologyRules {
+  /** Letter case of provider symbols */
+  case: 'upper' | 'lower'
+  /** Share-class separator (e.g. "-" for "BRK-B") */
+  shareClassSeparator: string
+  /** Listing suffix per MIC (e.g. { XLON: '.L' }) */
+  listingSuffixes: Record<string, string>
+  /** Suffix for listings without a MIC, which are assumed to be US listings */
+  defaultSuffix: string
+  /** Index template (e.g. "^{ticker}") */
+  index?: string
+  /** Provider index tickers that differ from the canonical ticker (e.g. { SPX: 'GSPC' }) */
+  indexAliases?: Record<string, string>
+  /** FX pair template (e.g. "{base}{quote}=X") */
+  fx?: string
+  /** Crypto pair template (e.g. "{base}-{quote}") */
+  crypto?: string
+  /** Futures template (e.g. "{ticker}=F") */
+  future?: string
+  /** Government bond yield template (e.g. "{tenor}{country}Y.B") */
+  bond?: string
+}
+
+/**
+ * MICs of US equity venues
+ */
+export const US_EQUITY_MICS = ['XNAS', 'XNYS', 'XASE', 'ARCX', 'BATS', 'IEXG'] as const
+
+/**
+ * MICs for common exchange names and acronyms
+ */
+export const EXCHANGE_MICS: Record<string, string> = {
+  NASDAQ: 'XNAS',
+  NYSE: 'XNYS',
+  'NYSE ARCA': 'ARCX',
+  'NYSE AMERICAN': 'XASE',
+  AMEX: 'XASE',
+  CBOE: 'BATS',
+  LSE: 'XLON',
+  XETRA: 'XETR',
+  FRANKFURT: 'XFRA',
+  EURONEXT: 'XPAR',
+  TSX: 'XTSE',
+  TSE: 'XTKS',
+  HKEX: 'XHKG',
+  ASX: 'XASX',
+  SIX: 'XSWX',
+  WSE: 'XWAR',
+}
+
+/**
+ * ISO 4217 codes of currencies traded as FX pairs; pairs of other codes
+ * are read as crypto
+ */
+const FIAT_CURRENCIES = new Set([
+  'USD', 'EUR', 'JPY', 'GBP', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK',
+  'DKK', 'PLN', 'CZK', 'HUF', 'TRY', 'ZAR', 'MXN', 'BRL', 'CNY', 'CNH',
+  'HKD', 'SGD', 'INR', 'KRW', 'TWD', 'ILS', 'RUB', 'THB', 'IDR', 'MYR',
+])
+
+/**
+ * Quote currencies recognized when a provider writes pairs without a
+ * separator, longest first (e.g. "BTCUSDT" is BTC/USDT, not BTCU/SDT)
+ */
+const PAIR_QUOTES = ['USDT', 'USDC', 'USD', 'EUR', 'GBP', 'JPY', 'BTC', 'ETH', ...FIAT_CURRENCIES]
+
+const PAIR = /^([A-Z0-9]{2,10})\/([A-Z]{3,5})$/
+const BOND_YIELD = /^([A-Z]{2})(\d{1,2})Y$/
+const SHARE_CLASS = /^([A-Z0-9]+)[.\-/ ]([A-Z])$/
+const SHARE_CLASS_DOT = /\.([A-Z])$/
+const SUFFIXED = /^([A-Z0-9][A-Z0-9.-]*)\.([A-Z]{1,2})$/
+
+/**
+ * MICs for the exchange suffixes Yahoo and Stooq append to native symbols;
+ * null marks a US listing. Suffixes listed here are read as listings, not
+ * share classes, so "VOD.L" is VOD on the LSE rather than VOD class L.
+ */
+const NATIVE_LISTING_SUFFIXES: Record<string, string | null> = {
+  US: null,
+  L: 'XLON',
+  UK: 'XLON',
+  DE: 'XETR',
+  F: 'XFRA',
+  PA: 'XPAR',
+  AS: 'XAMS',
+  BR: 'XBRU',
+  MI: 'XMIL',
+  MC: 'XMAD',
+  SW: 'XSWX',
+  ST: 'XSTO',
+  OL: 'XOSL',
+  CO: 'XCSE',
+  HE: 'XHEL',
+  WA: 'XWAR',
+  HU: 'XBUD',
+  TO: 'XTSE',
+  V: 'XTSX',
+  T: 'XTKS',
+  JP: 'XTKS',
+  HK: 'XHKG',
+  AX: 'XASX',
+  NS: 'XNSE',
+  BO: 'XBOM',
+  KS: 'XKRX',
+  SS: 'XSHG',
+  SZ: 'XSHE',
+  SA: 'BVMF',
+  MX: 'XMEX',
+}
+
+/**
+ * Parse a canonical identifier string or a {@link Symbol}.
+ *
+ * Strings are read as described in the module documentation; a Symbol's
+ * exchange may be a MIC or a name from {@link EXCHANGE_MICS}.
+ *
+ * @example
+ * parseSymbol('brk-b')    // { ticker: 'BRK.B', assetType: 'equity' }
+ * parseSymbol('XLON:VOD') // { ticker: 'VOD', mic: 'XLON', assetType: 'equity' }
+ * parseSymbol('VOD.L')    // { ticker: 'VOD', mic: 'XLON', assetType: 'equity' }
+ * parseSymbol('eur/usd')  // { ticker: 'EUR/USD', assetType: 'fx' }
+ */
+export function parseSymbol(input: string | Symbol): CanonicalSymbol {
+  if (typeof input !== 'string') {
+    return fromSymbol(input)
+  }
+
+  const raw = input.trim().toUpperCase()
+  if (raw.startsWith('^')) {
+    return { ticker: raw.slice(1), assetType: 'index' }
+  }
+  if (raw.startsWith('/')) {
+    return { ticker: raw.slice(1), assetType: 'future' }
+  }
+  if (BOND_YIELD.test(raw)) {
+    return { ticker: raw, assetType: 'bond' }
+  }
+
+  const pair = PAIR.exec(raw)
+  if (pair) {
+    return pairSymbol(pair[1]!, pair[2]!)
+  }
+
+  const listing = /^([A-Z]{4}):(.+)$/.exec(raw)
+  if (listing) {
+    return { ticker: normalizeShareClass(listing[2]!), mic: listing[1], assetType: 'equity' }
+  }
+
+  return parseNativeListing(raw) ?? { ticker: normalizeShareClass(raw), assetType: 'equity' }
+}
+
+/**
+ * Format a canonical identifier as its string form.
+ */
+export function formatSymbol(symbol: CanonicalSymbol): string {
+  if (symbol.assetType === 'index') {
+    return `^${symbol.ticker}`
+  }
+  if (symbol.assetType === 'future') {
+    return `/${symbol.ticker}`
+  }
+  if (symbol.mic && !isUSListing(symbol.mic)) {
+    return `${symbol.mic}:${symbol.ticker}`
+  }
+  return symbol.ticker
+}
+
+/**
+ * Translate a canonical identifier to a provider's symbol.
+ *
+ * @param input - Canonical identifier (string, Symbol or parsed)
+ * @param rules - The provider's rules
+ * @returns Provider symbol, or null if the provider cannot represent it
+ *
+ * @example
+ * toProviderSymbol('BRK.B', YAHOO_SYMBOLOGY)    // 'BRK-B'
+ * toProviderSymbol('XLON:VOD', YAHOO_SYMBOLOGY) // 'VOD.L'
+ */
+export function toProviderSymbol(
+  input: string | Symbol | CanonicalSymbol,
+  rules: SymbologyRules
+): string | null {
+  const symbol = isCanonical(input) ? input : parseSymbol(input)
+  let providerSymbol: string | null
+
+  switch (symbol.assetType) {
+    case 'index': {
+      const ticker = rules.indexAliases?.[symbol.ticker] ?? symbol.ticker
+      providerSymbol = rules.index ? fill(rules.index, { ticker }) : null
+      break
+    }
+    case 'fx':
+    case 'crypto': {
+      const [base, quote] = symbol.ticker.split('/')
+      const template = symbol.assetType === 'fx' ? rules.fx : rules.crypto
+      providerSymbol = template && base && quote ? fill(template, { base, quote }) : null
+      break
+    }
+    case 'future':
+      providerSymbol = rules.future ? fill(rules.future, { ticker: symbol.ticker }) : null
+      break
+    case 'bond': {
+      const bondYield = BOND_YIELD.exec(symbol.ticker)
+      providerSymbol = rules.bond && bondYield
+        ? fill(rules.bond, { country: bondYield[1]!, tenor: bondYield[2]! })
+        : null
+      break
+    }
+    default: {
+      const suffix = symbol.mic ? rules.listingSuffixes[symbol.mic] : rules.defaultSuffix
+      providerSymbol = suffix === undefined
+        ? null
+        : symbol.ticker.replace(SHARE_CLASS_DOT, `${rules.shareClassSeparator}$1`) + suffix
+    }
+  }
+
+  if (providerSymbol === null) {
+    return null
+  }
+  return rules.case === 'lower' ? providerSymbol.toLowerCase() : providerSymbol
+}
+
+/**
+ * Translate a provider's symbol back to a canonical identifier.
+ *
+ * Listings whose suffix is shared by several MICs resolve to the first
+ * MIC declared; the default suffix resolves to no MIC.
+ *
+ * @example
+ * fromProviderSymbol('VOD.L', YAHOO_SYMBOLOGY)    // { ticker: 'VOD', mic: 'XLON', assetType: 'equity' }
+ * fromProviderSymbol('EURUSD=X', YAHOO_SYMBOLOGY) // { ticker: 'EUR/USD', assetType: 'fx' }
+ */
+export function fromProviderSymbol(providerSymbol: string, rules: SymbologyRules): CanonicalSymbol {
+  const raw = providerSymbol.trim().toUpperCase()
+
+  if (rules.index) {
+    const match = templatePattern(rules.index).exec(raw)
+    if (match?.groups?.ticker) {
+      const aliases = Object.entries(rules.indexAliases ?? {})
+      const canonical = aliases.find(([, alias]) => alias.toUpperCase() === match.groups!.ticker)
+      return { ticker: canonical ? canonical[0] : match.groups.ticker, assetType: 'index' }
+    }
+  }
+
+  if (rules.future) {
+    const match = templatePattern(rules.future).exec(raw)
+    if (match?.groups?.ticker) {
+      return { ticker: match.groups.ticker, assetType: 'future' }
+    }
+  }
+
+  if (rules.bond) {
+    const match = templatePattern(rules.bond).exec(raw)
+    if (match?.groups?.country && match.groups.tenor) {
+      return { ticker: `${match.groups.country}${match.groups.tenor}Y`, assetType: 'bond' }
+    }
+  }
+
+  for (const assetType of ['fx', 'crypto'] as const) {
+    const template = rules[assetType]
+    const match = template ? templatePattern(template).exec(raw) : null
+    const pair = match?.groups && splitPair(match.groups.base ?? match.groups.pair, match.groups.quote)
+    if (pair && isPair(assetType, pair)) {
+      return { ticker: `${pair[0]}/${pair[1]}`, assetType }
+    }
+  }
+
+  const suffixes = Object.entries(rules.listingSuffixes)
+    .filter(([, suffix]) => suffix !== '' && suffix !== rules.defaultSuffix)
+    .sort(([, a], [, b]) => b.length - a.length)
+  for (const [mic, suffix] of suffixes) {
+    if (raw.endsWith(suffix.toUpperCase())) {
+      return { ticker: fromProviderTicker(raw.slice(0, -suffix.length), rules), mic, assetType: 'equity' }
+    }
+  }
+
+  const defaultSuffix = rules.defaultSuffix.toUpperCase()
+  const ticker = defaultSuffix && raw.endsWith(defaultSuffix) ? raw.slice(0, -defaultSuffix.length) : raw
+  return { ticker: fromProviderTicker(ticker, rules), assetType: 'equity' }
+}
+
+/**
+ * Whether a MIC is a US equity venue.
+ */
+export function isUSListing(mic: string): boolean {
+  return (US_EQUITY_MICS as readonly string[]).includes(mic)
+}
+
+/**
+ * Listing suffixes giving every US venue the same suffix, for
+ * {@link SymbologyRules.listingSuffixes}.
+ */
+export function usListingSuffixes(suffix: string): Record<string, string> {
+  return Object.fromEntries(US_EQUITY_MICS.map((mic) => [mic, suffix]))
+}
+
+function fromSymbol(symbol: Symbol): CanonicalSymbol {
+  const ticker = symbol.ticker.trim().toUpperCase()
+
+  if (symbol.assetType === 'fx' || symbol.assetType === 'crypto') {
+    const pair = ticker.includes('/') ? ticker.split('/') : splitPair(ticker)
+    return { ticker: pair ? pair.join('/') : ticker, assetType: symbol.assetType }
+  }
+  if (symbol.assetType === 'index' || symbol.assetType === 'future') {
+    return { ticker: ticker.replace(/^[\^/]/, ''), assetType: symbol.assetType }
+  }
+  if (symbol.assetType === 'bond') {
+    return { ticker, assetType: 'bond' }
+  }
+
+  const exchange = symbol.exchange?.trim().toUpperCase()
+  const native = exchange ? null : parseNativeListing(ticker)
+  if (native) {
+    return { ...native, assetType: symbol.assetType }
+  }
+  const mic = exchange ? EXCHANGE_MICS[exchange] ?? exchange : undefined
+  return { ticker: normalizeShareClass(ticker), mic, assetType: symbol.assetType }
+}
+
+/**
+ * Whether a split provider symbol is a plausible pair of the asset type;
+ * templates also match share classes ("BRK-B") and plain tickers.
+ */
+function isPair(assetType: 'fx' | 'crypto', [base, quote]: [string, string]): boolean {
+  const fiat = FIAT_CURRENCIES.has(base) && FIAT_CURRENCIES.has(quote)
+  return assetType === 'fx' ? fiat : !fiat && quote.length >= 3
+}
+
+function pairSymbol(base: string, quote: string): CanonicalSymbol {
+  const assetType = FIAT_CURRENCIES.has(base) && FIAT_CURRENCIES.has(quote) ? 'fx' : 'crypto'
+  return { ticker: `${base}/${quote}`, assetType }
+}
+
+/**
+ * Split a pair written with or without a separator into base and quote.
+ */
+function splitPair(base: string | undefined, quote?: string): [string, string] | null {
+  if (base && quote) {
+    return [base, quote]
+  }
+  if (!base) {
+    return null
+  }
+  const knownQuote = PAIR_QUOTES.find((code) => base.length > code.length && base.endsWith(code))
+  return knownQuote ? [base.slice(0, -knownQuote.length), knownQuote] : null
+}
+
+/**
+ * Read a ticker with a known exchange suffix ("VOD.L") as a listing.
+ */
+function parseNativeListing(ticker: string): CanonicalSymbol | null {
+  const suffixed = SUFFIXED.exec(ticker)
+  const mic = suffixed ? NATIVE_LISTING_SUFFIXES[suffixed[2]!] : undefined
+  if (mic === undefined) {
+    return null
+  }
+  const symbol: CanonicalSymbol = { ticker: normalizeShareClass(suffixed![1]!), assetType: 'equity' }
+  return mic ? { ...symbol, mic } : symbol
+}
+
+function normalizeShareClass(ticker: string): string {
+  const shareClass = SHARE_CLASS.exec(ticker)
+  return shareClass ? `${shareClass[1]}.${shareClass[2]}` : ticker
+}
+
+function fromProviderTicker(ticker: string, rules: SymbologyRules): string {
+  const separator = rules.shareClassSeparator.toUpperCase()
+  const shareClass = separator ? ticker.lastIndexOf(separator) : -1
+  return shareClass > 0 && ticker.length - shareClass - separator.length === 1
+    ? `${ticker.slice(0, shareClass)}.${ticker.slice(shareClass + separator.length)}`
+    : ticker
+}
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '')
+}
+
+/**
+ * Patterns of template placeholders
+ */
+const PLACEHOLDER_PATTERNS: Record<string, string> = {
+  country: '[A-Z]{2}',
+  tenor: '\\d{1,2}',
+}
+
+/**
+ * Regular expression matching a template, capturing its placeholders.
+ * Adjacent base and quote placeholders are captured together as "pair".
+ */
+function templatePattern(template: string): RegExp {
+  const pattern = template
+    .replace('{base}{quote}', '{pair}')
+    .toUpperCase()
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1]?.toLowerCase()
+      return name
+        ? `(?<${name}>${PLACEHOLDER_PATTERNS[name] ?? '[A-Z0-9]+?'})`
+        : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${pattern}$`)
+}
+
+function isCanonical(input: string | Symbol | CanonicalSymbol): input is CanonicalSymbol {
+  return typeof input !== 'string' && !('name' in input)
+}
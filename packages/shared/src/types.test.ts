@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { SymbolSchema, OHLCVSchema } from './types'
+import { SymbolSchema, OHLCVSchema, StockSplitSchema } from './types'
 
 describe('SymbolSchema', () => {
   it('should validate a valid symbol', () => {
@@ -43,3 +43,15 @@ describe('OHLCVSchema', () => {
     expect(() => OHLCVSchema.parse(ohlcv)).toThrow()
   })
 })
+
+describe('StockSplitSchema', () => {
+  it('should validate a split ratio', () => {
+    const split = { symbol: 'AAPL', date: new Date('2020-08-31'), numerator: 4, denominator: 1 }
+    expect(() => StockSplitSchema.parse(split)).not.toThrow()
+  })
+
+  it('should reject non-positive ratios', () => {
+    const split = { symbol: 'AAPL', date: new Date('2020-08-31'), numerator: 4, denominator: 0 }
+    expect(() => StockSplitSchema.parse(split)).toThrow()
+  })
+})
@@ -7,7 +7,7 @@ export interface Symbol {
   ticker: string
   name: string
   exchange?: string
-  assetType: 'equity' | 'etf' | 'option' | 'bond' | 'fx' | 'crypto' | 'future'
+  assetType: 'equity' | 'etf' | 'index' | 'option' | 'bond' | 'fx' | 'crypto' | 'future'
   currency?: string
 }
 
@@ -18,7 +18,7 @@ export const SymbolSchema = z.object({
   ticker: z.string(),
   name: z.string(),
   exchange: z.string().optional(),
-  assetType: z.enum(['equity', 'etf', 'option', 'bond', 'fx', 'crypto', 'future']),
+  assetType: z.enum(['equity', 'etf', 'index', 'option', 'bond', 'fx', 'crypto', 'future']),
   currency: z.string().optional(),
 })
 
@@ -52,6 +52,11 @@ export const OHLCVSchema = z.object({
   volume: z.number(),
 })
 
+/**
+ * Market session a quote was taken in
+ */
+export type MarketState = 'pre' | 'regular' | 'post' | 'closed'
+
 /**
  * Real-time or delayed quote for a security
  */
@@ -88,6 +93,10 @@ export interface Quote {
   marketCap?: number
   /** P/E ratio */
   peRatio?: number
+  /** Quote currency (ISO 4217) */
+  currency?: string
+  /** Market session at the time of the quote */
+  marketState?: MarketState
   /** Timestamp of quote */
   timestamp: Date
   /** Whether quote is real-time or delayed */
@@ -114,10 +123,17 @@ export const QuoteSchema = z.object({
   low52Week: z.number().optional(),
   marketCap: z.number().optional(),
   peRatio: z.number().optional(),
+  currency: z.string().optional(),
+  marketState: z.enum(['pre', 'regular', 'post', 'closed']).optional(),
   timestamp: z.date(),
   realtime: z.boolean(),
 })
 
+/**
+ * Trading session of an intraday bar, in exchange-local time
+ */
+export type TradingSession = 'pre' | 'regular' | 'post'
+
 /**
  * Historical price data point
  */
@@ -128,6 +144,8 @@ export interface HistoricalPrice {
   ohlcv: OHLCV
   /** Adjusted close (for splits/dividends) */
   adjustedClose?: number
+  /** Trading session (intraday bars only) */
+  session?: TradingSession
 }
 
 /**
@@ -137,6 +155,156 @@ export const HistoricalPriceSchema = z.object({
   date: z.date(),
   ohlcv: OHLCVSchema,
   adjustedClose: z.number().optional(),
+  session: z.enum(['pre', 'regular', 'post']).optional(),
+})
+
+/**
+ * Cash dividend
+ */
+export interface Dividend {
+  /** Symbol */
+  symbol: string
+  /** Ex-dividend date */
+  exDate: Date
+  /** Amount per share as paid (not adjusted for later splits) */
+  amount: number
+  /** Currency of the amount */
+  currency?: string
+}
+
+/**
+ * Zod schema for Dividend
+ */
+export const DividendSchema = z.object({
+  symbol: z.string(),
+  exDate: z.date(),
+  amount: z.number(),
+  currency: z.string().optional(),
+})
+
+/**
+ * Stock split (e.g. 4-for-1: numerator 4, denominator 1)
+ */
+export interface StockSplit {
+  /** Symbol */
+  symbol: string
+  /** Effective (ex) date */
+  date: Date
+  /** New shares */
+  numerator: number
+  /** Old shares */
+  denominator: number
+}
+
+/**
+ * Zod schema for StockSplit
+ */
+export const StockSplitSchema = z.object({
+  symbol: z.string(),
+  date: z.date(),
+  numerator: z.number().positive(),
+  denominator: z.number().positive(),
+})
+
+/**
+ * Option contract type
+ */
+export type OptionType = 'call' | 'put'
+
+/**
+ * Listed option contract
+ */
+export interface OptionContract {
+  /** OCC contract symbol (e.g. AAPL240119C00150000) */
+  contractSymbol: string
+  /** Underlying symbol */
+  underlying: string
+  /** Call or put */
+  type: OptionType
+  /** Strike price */
+  strike: number
+  /** Expiration date */
+  expiration: Date
+  /** Last traded price */
+  lastPrice?: number
+  /** Bid price */
+  bid?: number
+  /** Ask price */
+  ask?: number
+  /** Contracts traded today */
+  volume?: number
+  /** Open contracts */
+  openInterest?: number
+  /** Implied volatility as a decimal (0.25 = 25%) */
+  impliedVolatility?: number
+  /** Whether the contract is in the money */
+  inTheMoney?: boolean
+  /** Delta */
+  delta?: number
+  /** Gamma */
+  gamma?: number
+  /** Theta */
+  theta?: number
+  /** Vega */
+  vega?: number
+  /** Rho */
+  rho?: number
+  /** Time of the last trade */
+  lastTradeDate?: Date
+}
+
+/**
+ * Zod schema for OptionContract
+ */
+export const OptionContractSchema = z.object({
+  contractSymbol: z.string(),
+  underlying: z.string(),
+  type: z.enum(['call', 'put']),
+  strike: z.number(),
+  expiration: z.date(),
+  lastPrice: z.number().optional(),
+  bid: z.number().optional(),
+  ask: z.number().optional(),
+  volume: z.number().optional(),
+  openInterest: z.number().optional(),
+  impliedVolatility: z.number().optional(),
+  inTheMoney: z.boolean().optional(),
+  delta: z.number().optional(),
+  gamma: z.number().optional(),
+  theta: z.number().optional(),
+  vega: z.number().optional(),
+  rho: z.number().optional(),
+  lastTradeDate: z.date().optional(),
+})
+
+/**
+ * Option chain for an underlying
+ */
+export interface OptionChain {
+  /** Underlying symbol */
+  underlying: string
+  /** Underlying price when the chain was taken */
+  underlyingPrice?: number
+  /** Every listed expiration, soonest first */
+  expirations: Date[]
+  /** Calls, by expiration then strike */
+  calls: OptionContract[]
+  /** Puts, by expiration then strike */
+  puts: OptionContract[]
+  /** Timestamp of the chain */
+  timestamp: Date
+}
+
+/**
+ * Zod schema for OptionChain
+ */
+export const OptionChainSchema = z.object({
+  underlying: z.string(),
+  underlyingPrice: z.number().optional(),
+  expirations: z.array(z.date()),
+  calls: z.array(OptionContractSchema),
+  puts: z.array(OptionContractSchema),
+  timestamp: z.date(),
 })
 
 /**
@@ -165,8 +333,10 @@ export interface CompanyProfile {
 
 /**
  * Financial statement period
+ *
+ * 'ttm' statements cover the trailing twelve months ending on their date.
  */
-export type Period = 'annual' | 'quarterly'
+export type Period = 'annual' | 'quarterly' | 'ttm'
 
 /**
  * Income statement data
@@ -244,6 +414,8 @@ export interface CashFlowStatement {
 export interface Fundamentals {
   /** Symbol */
   symbol: string
+  /** Currency of statement values (ISO 4217, default USD) */
+  currency?: string
   /** Company profile */
   profile?: CompanyProfile
   /** Latest income statement */
@@ -265,6 +437,7 @@ export interface Fundamentals {
  */
 export const FundamentalsSchema = z.object({
   symbol: z.string(),
+  currency: z.string().optional(),
   profile: z.object({
     name: z.string(),
     industry: z.string().optional(),
@@ -278,7 +451,7 @@ export const FundamentalsSchema = z.object({
   }).optional(),
   incomeStatement: z.object({
     date: z.date(),
-    period: z.enum(['annual', 'quarterly']),
+    period: z.enum(['annual', 'quarterly', 'ttm']),
     revenue: z.number(),
     costOfRevenue: z.number().optional(),
     grossProfit: z.number().optional(),
@@ -290,7 +463,7 @@ export const FundamentalsSchema = z.object({
   }).optional(),
   balanceSheet: z.object({
     date: z.date(),
-    period: z.enum(['annual', 'quarterly']),
+    period: z.enum(['annual', 'quarterly', 'ttm']),
     totalAssets: z.number(),
     currentAssets: z.number().optional(),
     totalLiabilities: z.number(),
@@ -301,7 +474,7 @@ export const FundamentalsSchema = z.object({
   }).optional(),
   cashFlow: z.object({
     date: z.date(),
-    period: z.enum(['annual', 'quarterly']),
+    period: z.enum(['annual', 'quarterly', 'ttm']),
     operatingCashFlow: z.number(),
     investingCashFlow: z.number().optional(),
     financingCashFlow: z.number().optional(),
@@ -312,3 +485,84 @@ export const FundamentalsSchema = z.object({
   balanceSheets: z.array(z.any()).optional(),
   cashFlows: z.array(z.any()).optional(),
 })
+
+/**
+ * Insider's relationship to the issuer
+ */
+export interface InsiderRelationship {
+  isDirector: boolean
+  isOfficer: boolean
+  /** Officer title (e.g. "Chief Executive Officer") */
+  officerTitle?: string
+  isTenPercentOwner: boolean
+  isOther: boolean
+  /** Description of an "other" relationship */
+  otherText?: string
+}
+
+/**
+ * Insider transaction reported on SEC Form 4
+ */
+export interface InsiderTransaction {
+  /** Issuer symbol */
+  symbol: string
+  /** Reporting insider name */
+  insiderName: string
+  /** Reporting insider CIK */
+  insiderCik?: string
+  /** Insider's relationship to the issuer */
+  relationship: InsiderRelationship
+  /** Security traded (e.g. "Common Stock") */
+  securityTitle: string
+  /** Whether the security is a derivative (options, RSUs, warrants) */
+  isDerivative: boolean
+  /** Transaction date */
+  transactionDate: Date
+  /** Date the report was filed */
+  filingDate: Date
+  /**
+   * SEC transaction code (e.g. "P" open-market purchase, "S" open-market
+   * sale, "A" grant, "M" option exercise, "F" tax withholding, "G" gift)
+   */
+  transactionCode: string
+  /** Whether shares were acquired ("A") or disposed of ("D") */
+  acquiredDisposed: 'A' | 'D'
+  /** Number of shares (or underlying units) transacted */
+  shares: number
+  /** Price per share, when reported */
+  price?: number
+  /** Shares owned following the transaction */
+  sharesOwnedAfter?: number
+  /** Direct or indirect ownership */
+  ownership: 'direct' | 'indirect'
+  /** Accession number of the filing */
+  accessionNumber?: string
+}
+
+/**
+ * Zod schema for InsiderTransaction
+ */
+export const InsiderTransactionSchema = z.object({
+  symbol: z.string(),
+  insiderName: z.string(),
+  insiderCik: z.string().optional(),
+  relationship: z.object({
+    isDirector: z.boolean(),
+    isOfficer: z.boolean(),
+    officerTitle: z.string().optional(),
+    isTenPercentOwner: z.boolean(),
+    isOther: z.boolean(),
+    otherText: z.string().optional(),
+  }),
+  securityTitle: z.string(),
+  isDerivative: z.boolean(),
+  transactionDate: z.date(),
+  filingDate: z.date(),
+  transactionCode: z.string(),
+  acquiredDisposed: z.enum(['A', 'D']),
+  shares: z.number(),
+  price: z.number().optional(),
+  sharesOwnedAfter: z.number().optional(),
+  ownership: z.enum(['direct', 'indirect']),
+  accessionNumber: z.string().optional(),
+})